@@ -0,0 +1,161 @@
+/**
+ * Localização e leitura do arquivo de configuração
+ * Suporta JSON e JSONC (comentários e vírgulas finais)
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+/** Nomes procurados no diretório atual quando nenhum caminho é informado */
+const DEFAULT_CONFIG_FILES = ["tdocs7.config.json", "tdocs7.config.jsonc"];
+
+/**
+ * Determina o caminho do arquivo de configuração
+ * Prioridade: flag --config > MCP_CONFIG_PATH > tdocs7.config.json(c) no diretório atual
+ *
+ * @param argv - Argumentos da linha de comando
+ * @returns Caminho absoluto e se foi informado explicitamente, ou null se não houver arquivo
+ */
+export function resolveConfigPath(argv: string[] = process.argv): { path: string; explicit: boolean } | null {
+    const explicitPath = getConfigFlag(argv) ?? process.env.MCP_CONFIG_PATH;
+
+    if (explicitPath) {
+        return { path: resolve(explicitPath), explicit: true };
+    }
+
+    for (const fileName of DEFAULT_CONFIG_FILES) {
+        const path = resolve(fileName);
+        if (existsSync(path)) {
+            return { path, explicit: false };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Extrai o valor da flag --config (aceita "--config caminho" e "--config=caminho")
+ */
+function getConfigFlag(argv: string[]): string | undefined {
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i] as string;
+
+        if (arg === "--config") {
+            return argv[i + 1];
+        }
+
+        if (arg.startsWith("--config=")) {
+            return arg.slice("--config=".length);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Lê e parseia o arquivo de configuração
+ *
+ * @param path - Caminho do arquivo
+ * @returns Conteúdo parseado
+ * @throws {Error} Se o arquivo não existir ou não for JSON/JSONC válido
+ */
+export function readConfigFile(path: string): unknown {
+    if (!existsSync(path)) {
+        throw new Error(`Arquivo de configuração não encontrado: ${path}`);
+    }
+
+    const raw = readFileSync(path, "utf-8");
+
+    try {
+        return JSON.parse(removeTrailingCommas(stripJsonComments(raw)));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "JSON inválido";
+        throw new Error(`Arquivo de configuração inválido (${path}): ${message}`);
+    }
+}
+
+/**
+ * Remove comentários (// e /* *\/) de um texto JSONC
+ * Ignora o conteúdo de strings
+ */
+export function stripJsonComments(text: string): string {
+    let result = "";
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i] as string;
+        const next = text[i + 1];
+
+        if (inString) {
+            result += char;
+            if (char === "\\") {
+                result += next ?? "";
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+            result += char;
+            continue;
+        }
+
+        // Comentário de linha
+        if (char === "/" && next === "/") {
+            while (i < text.length && text[i] !== "\n") i++;
+            result += "\n";
+            continue;
+        }
+
+        // Comentário de bloco
+        if (char === "/" && next === "*") {
+            const end = text.indexOf("*/", i + 2);
+            i = end === -1 ? text.length : end + 1;
+            continue;
+        }
+
+        result += char;
+    }
+
+    return result;
+}
+
+/**
+ * Remove vírgulas finais antes de } ou ] (fora de strings)
+ */
+function removeTrailingCommas(text: string): string {
+    let result = "";
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i] as string;
+
+        if (inString) {
+            result += char;
+            if (char === "\\") {
+                result += text[i + 1] ?? "";
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === ",") {
+            let j = i + 1;
+            while (j < text.length && /\s/.test(text[j] as string)) j++;
+            if (text[j] === "}" || text[j] === "]") {
+                continue;
+            }
+        }
+
+        result += char;
+    }
+
+    return result;
+}
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+
+import type { AuthConfig } from "../types/index.js";
+import { ConfigError, findSource, loadConfig } from "./index.js";
+
+const originalEnv = { ...process.env };
+
+/**
+ * Substitui as variáveis MCP_* do ambiente pelas informadas
+ */
+function setEnv(vars: Record<string, string>): void {
+    for (const key of Object.keys(process.env)) {
+        if (key.startsWith("MCP_")) delete process.env[key];
+    }
+    Object.assign(process.env, vars);
+}
+
+/**
+ * Grava um arquivo de configuração temporário e retorna o caminho
+ */
+function writeConfigFile(content: unknown): string {
+    const path = join(mkdtempSync(join(tmpdir(), "tdocs7-config-")), "tdocs7.config.json");
+    writeFileSync(path, JSON.stringify(content));
+    return path;
+}
+
+/**
+ * Token enviado pela autenticação (undefined se não for bearer)
+ */
+function bearerToken(auth: AuthConfig | undefined): string | undefined {
+    return auth?.type === "bearer" ? auth.token : undefined;
+}
+
+/**
+ * Problemas reportados por loadConfig (falha o teste se a configuração for válida)
+ */
+function configIssues(): string[] {
+    try {
+        loadConfig();
+    } catch (error) {
+        assert.ok(error instanceof ConfigError);
+        return error.issues;
+    }
+    assert.fail("loadConfig deveria ter falhado");
+}
+
+describe("loadConfig", () => {
+    beforeEach(() => setEnv({}));
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    it("ajusta números das variáveis de ambiente fora do intervalo", () => {
+        setEnv({
+            MCP_DOCS_URL: "https://docs.example.com",
+            MCP_JWT_TOKEN: "token",
+            MCP_DEFAULT_MAX_RESULTS: "20",
+            MCP_REQUEST_TIMEOUT: "500",
+            MCP_SOURCE_USERS_URL: "https://users.example.com",
+            MCP_SOURCE_USERS_TIMEOUT: "10",
+        });
+
+        const config = loadConfig();
+
+        assert.equal(config.defaultMaxResults, 10);
+        assert.equal(config.requestTimeout, 1000);
+        assert.equal(config.sources.find((source) => source.name === "users")?.requestTimeout, 1000);
+    });
+
+    it("aponta a variável de ambiente com valor não numérico", () => {
+        setEnv({ MCP_DOCS_URL: "https://docs.example.com", MCP_JWT_TOKEN: "token", MCP_REQUEST_TIMEOUT: "abc" });
+
+        const issues = configIssues();
+
+        assert.equal(issues.length, 1);
+        assert.match(issues[0] ?? "", /^requestTimeout \(MCP_REQUEST_TIMEOUT\):/);
+    });
+
+    it("valida o arquivo de configuração sem ajustar os valores", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({
+                requestTimeout: 500,
+                sources: { docs: { url: "https://docs.example.com", jwtToken: "token" } },
+            }),
+        });
+
+        const issues = configIssues();
+
+        assert.equal(issues.length, 1);
+        assert.match(issues[0] ?? "", /^requestTimeout:/);
+    });
+
+    it("aplica as variáveis de ambiente sobre as fontes do arquivo", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({
+                sources: { users: { url: "https://users.example.com", jwtToken: "file-token", requestTimeout: 5000 } },
+            }),
+            MCP_SOURCE_USERS_TOKEN: "env-token",
+        });
+
+        const [source] = loadConfig().sources;
+
+        assert.equal(bearerToken(source?.auth), "env-token");
+        assert.equal(source?.requestTimeout, 5000);
+    });
+
+    it("envia MCP_JWT_TOKEN apenas para a fonte default", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({ sources: { partner: { url: "https://partner.example.com/docs" } } }),
+            MCP_DOCS_URL: "https://docs.example.com",
+            MCP_JWT_TOKEN: "secret",
+            MCP_SOURCE_USERS_URL: "https://users.example.com",
+        });
+
+        const auth = Object.fromEntries(loadConfig().sources.map((source) => [source.name, source.auth]));
+
+        assert.equal(bearerToken(auth.default), "secret");
+        assert.deepEqual(auth.users, { type: "none" });
+        assert.deepEqual(auth.partner, { type: "none" });
+    });
+
+    it("combina o chunking da fonte com o global, campo a campo", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({
+                chunking: { maxChunkSize: 1500, overlap: 100 },
+                sources: {
+                    api: { url: "https://api.example.com", chunking: { unit: "tokens", maxChunkSize: 300 } },
+                    guide: { url: "https://guide.example.com" },
+                },
+            }),
+        });
+
+        const chunking = Object.fromEntries(loadConfig().sources.map((source) => [source.name, source.chunking]));
+
+        assert.deepEqual(chunking.api, { maxChunkSize: 300, overlap: 100, unit: "tokens" });
+        assert.deepEqual(chunking.guide, { maxChunkSize: 1500, overlap: 100 });
+    });
+
+    it("recusa sobreposição maior que o chunk e estratégias repetidas", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({
+                sources: {
+                    api: {
+                        url: "https://api.example.com",
+                        chunking: { maxChunkSize: 200, overlap: 200, strategies: ["headers", "headers"] },
+                    },
+                },
+            }),
+        });
+
+        const issues = configIssues();
+
+        assert.equal(issues.length, 2);
+        assert.ok(issues.some((issue) => /overlap deve ser menor que maxChunkSize/.test(issue)));
+        assert.ok(issues.some((issue) => /Estratégias repetidas/.test(issue)));
+    });
+
+    it("aponta o seletor de conteúdo inválido", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({
+                sources: { docs: { url: "https://docs.example.com", contentSelector: "main:first-child" } },
+            }),
+        });
+
+        const issues = configIssues();
+
+        assert.equal(issues.length, 1);
+        assert.match(issues[0] ?? "", /^sources\.docs\.contentSelector: .*pseudo-classes não são suportadas/);
+    });
+});
+
+describe("findSource", () => {
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    it("encontra a fonte sem diferenciar maiúsculas", () => {
+        setEnv({
+            MCP_CONFIG_PATH: writeConfigFile({ sources: { billing: { url: "https://billing.example.com" } } }),
+            MCP_SOURCE_USERS_URL: "https://users.example.com",
+        });
+        const config = loadConfig();
+
+        assert.equal(findSource(config, "USERS")?.name, "users");
+        assert.equal(findSource(config, "Billing")?.name, "billing");
+        assert.equal(findSource(config, "orders"), undefined);
+    });
+});
@@ -1,58 +1,355 @@
 /**
  * Módulo de configuração do MCP Server
- * Carrega e valida variáveis de ambiente
+ * Carrega o arquivo de configuração (opcional), aplica variáveis de ambiente e valida com zod
  */
 
-import type { MCPConfig } from "../types/index.js";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+import * as z from "zod";
+
+import { describeAuth } from "../lib/auth.js";
+import { describeEmbeddings } from "../lib/embeddings.js";
+import type { AuthConfig, DocSource, MCPConfig } from "../types/index.js";
+import { readConfigFile, resolveConfigPath } from "./file.js";
+import { type ConfigFile, ConfigFileSchema } from "./schema.js";
+
+/**
+ * Padrão das variáveis de fontes nomeadas: MCP_SOURCE_<NOME>_URL, _TOKEN, _REFRESH_COMMAND, _TIMEOUT ou _LANGUAGE
+ */
+const SOURCE_ENV_PATTERN = /^MCP_SOURCE_(.+)_(URL|TOKEN|REFRESH_COMMAND|TIMEOUT|LANGUAGE)$/;
+
+/**
+ * Nome da fonte definida por MCP_DOCS_URL
+ */
+export const DEFAULT_SOURCE_NAME = "default";
+
+/**
+ * Erro de configuração com a lista de problemas encontrados
+ * Cada problema nomeia o campo exato (ex: "sources.users.url")
+ */
+export class ConfigError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Configuração inválida:\n${issues.join("\n")}`);
+        this.name = "ConfigError";
+    }
+}
+
+/**
+ * Configuração bruta (antes da validação)
+ */
+type RawConfig = Record<string, unknown>;
 
 /**
- * Carrega e valida as configurações do MCP a partir de variáveis de ambiente
- * @throws {Error} Se variáveis obrigatórias não estiverem definidas
+ * Carrega e valida as configurações do MCP
+ *
+ * Ordem de precedência (maior primeiro):
+ * 1. Variáveis de ambiente (MCP_*)
+ * 2. Arquivo de configuração (--config, MCP_CONFIG_PATH ou tdocs7.config.json(c) no diretório atual)
+ *
+ * Fontes de documentação via ambiente:
+ * - MCP_DOCS_URL + MCP_JWT_TOKEN definem a fonte "default"
+ * - MCP_SOURCE_<NOME>_URL, _TOKEN, _REFRESH_COMMAND, _TIMEOUT e _LANGUAGE definem fontes nomeadas
+ *
+ * MCP_JWT_TOKEN vale apenas para a fonte "default": as outras fontes sem autenticação própria são acessadas sem
+ * credenciais (o token não é enviado a outros hosts).
+ * MCP_JWT_REFRESH_COMMAND renova o token de MCP_JWT_TOKEN quando a documentação responde 401.
+ * Fontes sem timeout ou idioma próprios usam o requestTimeout e o language (MCP_LANGUAGE) globais;
+ * o chunking de uma fonte sobrescreve o global campo a campo.
+ * MCP_EMBEDDINGS_URL (+ _MODEL e _API_KEY) troca o provedor de embeddings local por um servidor compatível com OpenAI.
+ *
+ * @throws {ConfigError} Se o arquivo não puder ser lido ou a configuração for inválida
  */
 export function loadConfig(): MCPConfig {
-    const docsUrl = process.env.MCP_DOCS_URL;
-    const jwtToken = process.env.MCP_JWT_TOKEN;
-    const defaultMaxResults = parseInt(process.env.MCP_DEFAULT_MAX_RESULTS || "3", 10);
-    const requestTimeout = parseInt(process.env.MCP_REQUEST_TIMEOUT || "10000", 10);
+    const configPath = resolveConfigPath();
+    let fileConfig: RawConfig = {};
 
-    // Validação das variáveis obrigatórias
-    const errors: string[] = [];
+    if (configPath) {
+        try {
+            const parsed = readConfigFile(configPath.path);
+            if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+                throw new Error(`O arquivo de configuração deve conter um objeto JSON (${configPath.path})`);
+            }
+            fileConfig = parsed as RawConfig;
+        } catch (error) {
+            throw new ConfigError([error instanceof Error ? error.message : String(error)]);
+        }
+    }
+
+    // Aplica as variáveis de ambiente sobre o arquivo
+    const envPaths = new Map<string, string>();
+    const merged = applyEnvOverrides(fileConfig, envPaths);
+
+    // Valida o resultado
+    const result = ConfigFileSchema.safeParse(merged, { error: z.locales.pt().localeError });
 
-    if (!docsUrl) {
-        errors.push("MCP_DOCS_URL não configurada - URL da documentação");
+    if (!result.success) {
+        throw new ConfigError(result.error.issues.map((issue) => formatIssue(issue, envPaths)));
     }
 
-    if (!jwtToken) {
-        errors.push("MCP_JWT_TOKEN não configurado - Token de autenticação");
+    return resolveConfig(result.data, configPath?.path);
+}
+
+/**
+ * Aplica as variáveis de ambiente sobre a configuração do arquivo
+ *
+ * @param fileConfig - Configuração lida do arquivo
+ * @param envPaths - Preenchido com o caminho de cada campo vindo do ambiente → nome da variável
+ * @returns Nova configuração bruta com as variáveis aplicadas
+ */
+function applyEnvOverrides(fileConfig: RawConfig, envPaths: Map<string, string>): RawConfig {
+    const env = process.env;
+    const config: RawConfig = { ...fileConfig };
+
+    // Valores globais (números fora do intervalo são ajustados, como antes do arquivo de configuração)
+    if (env.MCP_DEFAULT_MAX_RESULTS) {
+        config.defaultMaxResults = parseEnvNumber(env.MCP_DEFAULT_MAX_RESULTS, 1, 10);
+        envPaths.set("defaultMaxResults", "MCP_DEFAULT_MAX_RESULTS");
     }
 
-    if (errors.length > 0) {
-        console.error("╔══════════════════════════════════════════════════════════╗");
-        console.error("║           ERRO DE CONFIGURAÇÃO - TDocs7                  ║");
-        console.error("╠══════════════════════════════════════════════════════════╣");
-        for (const error of errors) {
-            console.error(`║ ❌ ${error.padEnd(54)}║`);
+    if (env.MCP_REQUEST_TIMEOUT) {
+        config.requestTimeout = parseEnvNumber(env.MCP_REQUEST_TIMEOUT, 1000);
+        envPaths.set("requestTimeout", "MCP_REQUEST_TIMEOUT");
+    }
+
+    if (env.MCP_LANGUAGE) {
+        config.language = env.MCP_LANGUAGE;
+        envPaths.set("language", "MCP_LANGUAGE");
+    }
+
+    if (fileConfig.scoring === undefined || isRecord(fileConfig.scoring)) {
+        const scoring: RawConfig = { ...fileConfig.scoring };
+
+        if (env.MCP_SEARCH_MODE) {
+            scoring.mode = env.MCP_SEARCH_MODE;
+            envPaths.set("scoring.mode", "MCP_SEARCH_MODE");
+        }
+
+        if (env.MCP_SCORING_ALGORITHM) {
+            scoring.algorithm = env.MCP_SCORING_ALGORITHM;
+            envPaths.set("scoring.algorithm", "MCP_SCORING_ALGORITHM");
+        }
+
+        if (Object.keys(scoring).length > 0) {
+            config.scoring = scoring;
+        }
+    }
+
+    // MCP_EMBEDDINGS_URL troca o provedor local por um servidor compatível com OpenAI
+    if (env.MCP_EMBEDDINGS_URL && (fileConfig.embeddings === undefined || isRecord(fileConfig.embeddings))) {
+        const fileEmbeddings = fileConfig.embeddings;
+        const embeddings: RawConfig =
+            fileEmbeddings?.provider === "openai-compatible"
+                ? { ...fileEmbeddings }
+                : { provider: "openai-compatible" };
+
+        embeddings.url = env.MCP_EMBEDDINGS_URL;
+        envPaths.set("embeddings.url", "MCP_EMBEDDINGS_URL");
+
+        if (env.MCP_EMBEDDINGS_MODEL) {
+            embeddings.model = env.MCP_EMBEDDINGS_MODEL;
+            envPaths.set("embeddings.model", "MCP_EMBEDDINGS_MODEL");
+        }
+
+        if (env.MCP_EMBEDDINGS_API_KEY) {
+            embeddings.apiKey = env.MCP_EMBEDDINGS_API_KEY;
+            envPaths.set("embeddings.apiKey", "MCP_EMBEDDINGS_API_KEY");
+        }
+
+        config.embeddings = embeddings;
+    }
+
+    if (fileConfig.cache === undefined || isRecord(fileConfig.cache)) {
+        const cache: RawConfig = { ...fileConfig.cache };
+
+        if (env.MCP_CACHE_TTL) {
+            cache.ttl = Number(env.MCP_CACHE_TTL);
+            envPaths.set("cache.ttl", "MCP_CACHE_TTL");
+        }
+
+        if (env.MCP_CACHE_DIR) {
+            cache.directory = env.MCP_CACHE_DIR;
+            envPaths.set("cache.directory", "MCP_CACHE_DIR");
+        }
+
+        if (Object.keys(cache).length > 0) {
+            config.cache = cache;
+        }
+    }
+
+    // "sources" com tipo inválido no arquivo: deixa a validação reportar
+    if (fileConfig.sources !== undefined && !isRecord(fileConfig.sources)) {
+        return config;
+    }
+
+    // Copia as fontes do arquivo (para não alterar o objeto original)
+    const sources: Record<string, unknown> = {};
+    for (const [name, source] of Object.entries(fileConfig.sources ?? {})) {
+        sources[name] = isRecord(source) ? { ...source } : source;
+    }
+
+    const setSourceField = (name: string, field: string, value: unknown, envName: string) => {
+        const current = sources[name];
+        const source = isRecord(current) ? current : {};
+        source[field] = value;
+        sources[name] = source;
+        envPaths.set(`sources.${name}.${field}`, envName);
+    };
+
+    const setRefreshCommand = (name: string, command: string, envName: string) => {
+        setSourceField(name, "jwtRefresh", { type: "command", command }, envName);
+        envPaths.set(`sources.${name}.jwtRefresh.command`, envName);
+    };
+
+    // Fonte "default"
+    if (env.MCP_DOCS_URL) {
+        setSourceField(DEFAULT_SOURCE_NAME, "url", env.MCP_DOCS_URL, "MCP_DOCS_URL");
+    }
+
+    if (env.MCP_JWT_TOKEN && sources[DEFAULT_SOURCE_NAME]) {
+        setSourceField(DEFAULT_SOURCE_NAME, "jwtToken", env.MCP_JWT_TOKEN, "MCP_JWT_TOKEN");
+
+        if (env.MCP_JWT_REFRESH_COMMAND) {
+            setRefreshCommand(DEFAULT_SOURCE_NAME, env.MCP_JWT_REFRESH_COMMAND, "MCP_JWT_REFRESH_COMMAND");
+        }
+    }
+
+    // Fontes nomeadas
+    for (const [key, value] of Object.entries(env)) {
+        const match = key.match(SOURCE_ENV_PATTERN);
+        if (!match?.[1] || !match[2] || !value) continue;
+
+        const name = match[1].toLowerCase();
+
+        switch (match[2]) {
+            case "URL":
+                setSourceField(name, "url", value, key);
+                break;
+            case "TOKEN":
+                setSourceField(name, "jwtToken", value, key);
+                break;
+            case "REFRESH_COMMAND":
+                setRefreshCommand(name, value, key);
+                break;
+            case "TIMEOUT":
+                setSourceField(name, "requestTimeout", parseEnvNumber(value, 1000), key);
+                break;
+            case "LANGUAGE":
+                setSourceField(name, "language", value, key);
+                break;
         }
-        console.error("╠══════════════════════════════════════════════════════════╣");
-        console.error("║ Configure as variáveis no arquivo .env                   ║");
-        console.error("║ Veja .env.example para referência                        ║");
-        console.error("╚══════════════════════════════════════════════════════════╝");
-        process.exit(1);
     }
 
+    config.sources = sources;
+    return config;
+}
+
+/**
+ * Converte a configuração validada no formato usado pelo servidor
+ */
+function resolveConfig(data: ConfigFile, configPath: string | undefined): MCPConfig {
+    const sources: DocSource[] = Object.entries(data.sources).map(([name, source]) => ({
+        name,
+        url: source.url,
+        auth: resolveAuth(source),
+        requestTimeout: source.requestTimeout ?? data.requestTimeout,
+        headers: source.headers ?? {},
+        language: source.language ?? data.language,
+        chunking: { ...data.chunking, ...source.chunking },
+        contentSelector: source.contentSelector,
+    }));
+
     return {
-        docsUrl: docsUrl!,
-        jwtToken: jwtToken!,
-        defaultMaxResults: clamp(defaultMaxResults, 1, 10),
-        requestTimeout: Math.max(requestTimeout, 1000),
+        sources,
+        defaultMaxResults: data.defaultMaxResults,
+        requestTimeout: data.requestTimeout,
+        chunking: data.chunking,
+        scoring: data.scoring,
+        embeddings: data.embeddings,
+        fetch: data.fetch,
+        headless: data.headless,
+        cache: {
+            ...data.cache,
+            directory: data.cache.directory ? resolveDirectory(data.cache.directory) : getDefaultCacheDirectory(),
+        },
+        configPath,
     };
 }
 
 /**
- * Limita um número entre um mínimo e máximo
+ * Diretório padrão dos snapshots: $XDG_CACHE_HOME/tdocs7 ou ~/.cache/tdocs7
  */
-function clamp(value: number, min: number, max: number): number {
-    return Math.min(Math.max(value, min), max);
+function getDefaultCacheDirectory(): string {
+    return join(process.env.XDG_CACHE_HOME || join(homedir(), ".cache"), "tdocs7");
+}
+
+/**
+ * Resolve um diretório configurado, expandindo "~" para o diretório do usuário
+ */
+function resolveDirectory(directory: string): string {
+    if (directory === "~" || directory.startsWith("~/")) {
+        return join(homedir(), directory.slice(1));
+    }
+    return resolve(directory);
+}
+
+/**
+ * Determina a autenticação de uma fonte
+ * jwtToken (+ jwtRefresh) é um atalho para bearer; sem nenhuma das duas, a fonte é pública
+ */
+function resolveAuth(source: ConfigFile["sources"][string]): AuthConfig {
+    if (source.jwtToken) {
+        return { type: "bearer", token: source.jwtToken, refresh: source.jwtRefresh };
+    }
+
+    return source.auth ?? { type: "none" };
+}
+
+/**
+ * Formata um problema de validação com o caminho exato do campo
+ * Campos vindos de variáveis de ambiente incluem o nome da variável
+ */
+function formatIssue(issue: z.core.$ZodIssue, envPaths: Map<string, string>): string {
+    const path = issue.path.map(String).join(".");
+
+    if (issue.code === "unrecognized_keys") {
+        return issue.keys.map((key) => `${path ? `${path}.` : ""}${key}: campo desconhecido`).join("\n");
+    }
+
+    if (issue.code === "invalid_key") {
+        return `${path}: nome de fonte inválido (use letras minúsculas, números, "-" e "_")`;
+    }
+
+    const envName = envPaths.get(path);
+    return `${path || "(raiz)"}${envName ? ` (${envName})` : ""}: ${issue.message}`;
+}
+
+/**
+ * Converte uma variável de ambiente numérica, ajustando-a ao intervalo aceito
+ * Valores não numéricos são mantidos como NaN para que a validação aponte a variável
+ */
+function parseEnvNumber(value: string, min: number, max = Number.POSITIVE_INFINITY): number {
+    const number = Math.trunc(Number(value));
+    return Number.isNaN(number) ? number : Math.min(Math.max(number, min), max);
+}
+
+/**
+ * Verifica se o valor é um objeto simples
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Busca uma fonte pelo nome, sem diferenciar maiúsculas (os nomes das fontes são validados em minúsculas)
+ *
+ * @param config - Configuração carregada
+ * @param name - Nome da fonte
+ * @returns Fonte encontrada ou undefined
+ */
+export function findSource(config: MCPConfig, name: string): DocSource | undefined {
+    const lowerName = name.toLowerCase();
+    return config.sources.find((source) => source.name === lowerName);
 }
 
 /**
@@ -65,6 +362,22 @@ export function maskToken(token: string): string {
     return `${token.slice(0, 10)}...${token.slice(-4)}`;
 }
 
+/**
+ * Exibe os erros de configuração em formato de quadro
+ */
+export function logConfigErrors(issues: string[]): void {
+    console.error("╔══════════════════════════════════════════════════════════╗");
+    console.error("║           ERRO DE CONFIGURAÇÃO - TDocs7                  ║");
+    console.error("╠══════════════════════════════════════════════════════════╣");
+    for (const issue of issues.flatMap((i) => i.split("\n"))) {
+        console.error(`║ ❌ ${issue.padEnd(54)}║`);
+    }
+    console.error("╠══════════════════════════════════════════════════════════╣");
+    console.error("║ Configure tdocs7.config.json ou as variáveis no .env     ║");
+    console.error("║ Veja .env.example e o README para referência             ║");
+    console.error("╚══════════════════════════════════════════════════════════╝");
+}
+
 /**
  * Exibe log de inicialização com as configurações carregadas
  */
@@ -72,10 +385,29 @@ export function logStartup(config: MCPConfig): void {
     console.error("╔══════════════════════════════════════════════════════════╗");
     console.error("║         TDocs7 - MCP Documentation Search Server         ║");
     console.error("╠══════════════════════════════════════════════════════════╣");
-    console.error(`║ Docs URL:     ${config.docsUrl.slice(0, 42).padEnd(42)} ║`);
-    console.error(`║ JWT Token:    ${maskToken(config.jwtToken).padEnd(42)} ║`);
+    if (config.configPath) {
+        console.error(`║ Config:       ${config.configPath.slice(-42).padEnd(42)} ║`);
+    }
     console.error(`║ Max Results:  ${String(config.defaultMaxResults).padEnd(42)} ║`);
-    console.error(`║ Timeout:      ${`${config.requestTimeout}ms`.padEnd(42)} ║`);
+    console.error(
+        `║ Cache:        ${(config.cache.enabled ? `TTL ${config.cache.ttl}ms` : "desativado").padEnd(42)} ║`,
+    );
+    console.error(`║ Ranking:      ${(config.scoring.algorithm ?? "heuristic").padEnd(42)} ║`);
+    if (config.scoring.mode && config.scoring.mode !== "keyword") {
+        const search = `${config.scoring.mode} · ${describeEmbeddings(config.embeddings)}`;
+        console.error(`║ Busca:        ${search.slice(0, 42).padEnd(42)} ║`);
+    }
+    if (config.cache.enabled && config.cache.persist) {
+        console.error(`║ Snapshots:    ${config.cache.directory.slice(-42).padEnd(42)} ║`);
+    }
+    for (const source of config.sources) {
+        console.error("╠══════════════════════════════════════════════════════════╣");
+        console.error(`║ Fonte:        ${source.name.slice(0, 42).padEnd(42)} ║`);
+        console.error(`║ Docs URL:     ${source.url.slice(0, 42).padEnd(42)} ║`);
+        console.error(`║ Auth:         ${describeAuth(source.auth, maskToken).slice(0, 42).padEnd(42)} ║`);
+        console.error(`║ Timeout:      ${`${source.requestTimeout}ms`.padEnd(42)} ║`);
+        console.error(`║ Idioma:       ${source.language.padEnd(42)} ║`);
+    }
     console.error("╚══════════════════════════════════════════════════════════╝");
 }
 
@@ -0,0 +1,204 @@
+/**
+ * Schema de validação do arquivo de configuração (tdocs7.config.json/.jsonc)
+ * Variáveis de ambiente são convertidas para o mesmo formato antes da validação
+ */
+
+import * as z from "zod";
+
+import { parseSelector } from "../lib/doc-search/html-selector.js";
+
+/** Nomes de fonte aceitos (mesmo formato gerado por MCP_SOURCE_<NOME>_*) */
+const SOURCE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Idioma de uma documentação */
+const LanguageSchema = z.enum(["auto", "pt", "en", "none"]);
+
+/**
+ * Schema da renovação de token bearer
+ */
+const TokenRefreshSchema = z.discriminatedUnion("type", [
+    z.strictObject({
+        type: z.literal("token-endpoint"),
+        url: z.url(),
+        refreshToken: z.string().min(1),
+        clientId: z.string().min(1).optional(),
+        clientSecret: z.string().optional(),
+        scope: z.string().optional(),
+    }),
+    z.strictObject({
+        type: z.literal("command"),
+        command: z.string().min(1),
+        timeout: z.int().min(1000).optional(),
+    }),
+]);
+
+/**
+ * Schema das estratégias de autenticação
+ */
+const AuthSchema = z.discriminatedUnion("type", [
+    z.strictObject({ type: z.literal("none") }),
+    z.strictObject({ type: z.literal("bearer"), token: z.string().min(1), refresh: TokenRefreshSchema.optional() }),
+    z.strictObject({ type: z.literal("basic"), username: z.string().min(1), password: z.string() }),
+    z.strictObject({ type: z.literal("header"), name: z.string().min(1), value: z.string().min(1) }),
+    z.strictObject({ type: z.literal("query"), name: z.string().min(1), value: z.string().min(1) }),
+    z.strictObject({
+        type: z.literal("oauth2-client-credentials"),
+        tokenUrl: z.url(),
+        clientId: z.string().min(1),
+        clientSecret: z.string().min(1),
+        scope: z.string().optional(),
+        audience: z.string().optional(),
+        clientAuth: z.enum(["basic", "body"]).optional(),
+    }),
+]);
+
+/**
+ * Schema do perfil de chunking (global ou de uma fonte)
+ */
+const ChunkingSchema = z
+    .strictObject({
+        maxChunkSize: z.int().min(100).optional(),
+        minChunkSize: z.int().min(0).optional(),
+        overlap: z.int().min(0).optional(),
+        unit: z.enum(["chars", "tokens"]).optional(),
+        strategies: z
+            .array(z.enum(["headers", "rules", "paragraphs", "sentences"]))
+            .min(1)
+            .refine((strategies) => new Set(strategies).size === strategies.length, "Estratégias repetidas")
+            .optional(),
+        maxContextSize: z.int().min(100).optional(),
+    })
+    .refine((chunking) => !chunking.overlap || !chunking.maxChunkSize || chunking.overlap < chunking.maxChunkSize, {
+        message: "overlap deve ser menor que maxChunkSize",
+        path: ["overlap"],
+    });
+
+/**
+ * Schema de uma fonte de documentação
+ */
+const SourceSchema = z
+    .strictObject({
+        /** URL da documentação */
+        url: z.url(),
+        /** Estratégia de autenticação (padrão: none) */
+        auth: AuthSchema.optional(),
+        /** Atalho para auth bearer; tem prioridade sobre "auth" (é o campo preenchido por MCP_JWT_TOKEN) */
+        jwtToken: z.string().min(1).optional(),
+        /** Renovação do jwtToken (equivale a auth.refresh) */
+        jwtRefresh: TokenRefreshSchema.optional(),
+        /** Timeout das requisições em ms (padrão: requestTimeout global) */
+        requestTimeout: z.int().min(1000).optional(),
+        /** Headers adicionais enviados em todas as requisições da fonte */
+        headers: z.record(z.string(), z.string()).optional(),
+        /** Idioma da documentação (padrão: language global) */
+        language: LanguageSchema.optional(),
+        /** Perfil de chunking da fonte (campos ausentes: chunking global) */
+        chunking: ChunkingSchema.optional(),
+        /** Seletor CSS do conteúdo principal das páginas HTML (padrão: detecção automática) */
+        contentSelector: z
+            .string()
+            .trim()
+            .superRefine((selector, context) => {
+                try {
+                    parseSelector(selector);
+                } catch (error) {
+                    context.addIssue({
+                        code: "custom",
+                        message: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            })
+            .optional(),
+    })
+    .refine((source) => !source.jwtRefresh || source.jwtToken, {
+        message: 'jwtRefresh requer jwtToken (para auth do tipo "bearer", use auth.refresh)',
+        path: ["jwtRefresh"],
+    });
+
+/**
+ * Schema completo da configuração
+ */
+export const ConfigFileSchema = z.strictObject({
+    /** Permite referenciar um JSON Schema no editor */
+    $schema: z.string().optional(),
+    /** Número padrão de resultados */
+    defaultMaxResults: z.int().min(1).max(10).default(3),
+    /** Timeout padrão das requisições em ms */
+    requestTimeout: z.int().min(1000).default(10000),
+    /** Idioma padrão das documentações (stemming e stopwords) */
+    language: LanguageSchema.default("auto"),
+    /** Fontes de documentação, indexadas pelo nome */
+    sources: z
+        .record(z.string().regex(SOURCE_NAME_PATTERN), SourceSchema)
+        .refine((sources) => Object.keys(sources).length > 0, "Configure ao menos uma fonte de documentação"),
+    /** Perfil de chunking padrão das fontes */
+    chunking: ChunkingSchema.default({}),
+    /** Modo de busca, algoritmo e pesos de relevância */
+    scoring: z
+        .strictObject({
+            exactMatch: z.number().min(0).optional(),
+            wordMatch: z.number().min(0).optional(),
+            partialMatch: z.number().min(0).optional(),
+            fuzzyMatch: z.number().min(0).optional(),
+            codeBonus: z.number().min(0).optional(),
+            headerBonus: z.number().min(0).optional(),
+            mode: z.enum(["keyword", "semantic", "hybrid"]).optional(),
+            algorithm: z.enum(["heuristic", "bm25"]).optional(),
+            diversity: z.number().min(0).max(1).optional(),
+            bm25: z
+                .strictObject({
+                    k1: z.number().min(0).optional(),
+                    b: z.number().min(0).max(1).optional(),
+                    headingWeight: z.number().min(0).optional(),
+                    phraseBonus: z.number().min(1).optional(),
+                    fuzzyWeight: z.number().min(0).max(1).optional(),
+                })
+                .optional(),
+        })
+        .default({}),
+    /** Provedor de embeddings (modos semantic e hybrid) */
+    embeddings: z
+        .discriminatedUnion("provider", [
+            z.strictObject({
+                provider: z.literal("hashing"),
+                dimensions: z.int().min(64).max(65536).optional(),
+            }),
+            z.strictObject({
+                provider: z.literal("openai-compatible"),
+                url: z.url(),
+                model: z.string().min(1),
+                apiKey: z.string().min(1).optional(),
+                batchSize: z.int().min(1).max(2048).optional(),
+                timeout: z.int().min(1000).optional(),
+            }),
+        ])
+        .default({ provider: "hashing" }),
+    /** Estratégias do fetch inteligente */
+    fetch: z
+        .strictObject({
+            useSmartFetch: z.boolean().optional(),
+            tryOpenApiSpec: z.boolean().optional(),
+            useHeadlessFallback: z.boolean().optional(),
+            probeCommonEndpoints: z.boolean().optional(),
+        })
+        .default({}),
+    /** Renderização headless */
+    headless: z
+        .strictObject({
+            timeout: z.int().min(1000).optional(),
+            extraWaitTime: z.int().min(0).optional(),
+        })
+        .default({}),
+    /** Cache de documentos */
+    cache: z
+        .strictObject({
+            enabled: z.boolean().default(true),
+            ttl: z.int().min(0).default(300000),
+            persist: z.boolean().default(true),
+            directory: z.string().min(1).optional(),
+        })
+        .prefault({}),
+});
+
+/** Configuração validada (antes da resolução das fontes) */
+export type ConfigFile = z.output<typeof ConfigFileSchema>;
@@ -12,13 +12,21 @@
  *
  * # Produção
  * npm run build && npm run start
+ *
+ * # Com arquivo de configuração
+ * tdocs7 --config ./tdocs7.config.jsonc
  * ```
  */
 
+import { ConfigError, logConfigErrors } from "./config/index.js";
 import { startServer } from "./server.js";
 
 // Inicia o servidor
 startServer().catch((error) => {
-    console.error("Erro fatal ao iniciar servidor:", error);
+    if (error instanceof ConfigError) {
+        logConfigErrors(error.issues);
+    } else {
+        console.error("Erro fatal ao iniciar servidor:", error);
+    }
     process.exit(1);
 });
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import axios from "axios";
+
+import { createAuthStrategy } from "./auth.js";
+
+/**
+ * Requisição recebida pelo servidor de teste
+ */
+interface ReceivedRequest {
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+describe("createAuthStrategy", () => {
+    let server: Server;
+    let baseUrl: string;
+    let received: ReceivedRequest[];
+    let tokenRequests: number;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => {
+                body += chunk;
+            });
+            request.on("end", () => {
+                received.push({ url: request.url ?? "", headers: request.headers, body });
+
+                if (request.url === "/token") {
+                    tokenRequests++;
+                    response.writeHead(200, { "Content-Type": "application/json" });
+                    response.end(JSON.stringify({ access_token: `token-${tokenRequests}`, expires_in: 3600 }));
+                    return;
+                }
+                response.end("ok");
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        received = [];
+        tokenRequests = 0;
+    });
+
+    it("envia as credenciais Basic", async () => {
+        const client = axios.create();
+        createAuthStrategy({ type: "basic", username: "ana", password: "s3nha" }, "docs").install(client);
+
+        await client.get(`${baseUrl}/docs`);
+
+        assert.equal(received[0]?.headers.authorization, `Basic ${Buffer.from("ana:s3nha").toString("base64")}`);
+    });
+
+    it("envia a chave no header e no parâmetro configurados", async () => {
+        const client = axios.create();
+        createAuthStrategy({ type: "header", name: "X-API-Key", value: "abc" }, "docs").install(client);
+        createAuthStrategy({ type: "query", name: "api_key", value: "xyz" }, "docs").install(client);
+
+        await client.get(`${baseUrl}/docs`, { params: { page: 2 } });
+
+        assert.equal(received[0]?.headers["x-api-key"], "abc");
+        assert.equal(received[0]?.url, "/docs?page=2&api_key=xyz");
+    });
+
+    it("reutiliza o token OAuth2 até expirar", async () => {
+        const client = axios.create();
+        const strategy = createAuthStrategy(
+            {
+                type: "oauth2-client-credentials",
+                tokenUrl: `${baseUrl}/token`,
+                clientId: "app",
+                clientSecret: "secret",
+                scope: "docs:read",
+                clientAuth: "body",
+            },
+            "docs",
+        );
+        strategy.install(client);
+
+        await Promise.all([client.get(`${baseUrl}/a`), client.get(`${baseUrl}/b`)]);
+        await client.get(`${baseUrl}/c`);
+
+        assert.equal(tokenRequests, 1);
+        const tokenBody = new URLSearchParams(received.find((request) => request.url === "/token")?.body);
+        assert.equal(tokenBody.get("grant_type"), "client_credentials");
+        assert.equal(tokenBody.get("client_id"), "app");
+        assert.equal(tokenBody.get("scope"), "docs:read");
+        for (const request of received.filter((request) => request.url !== "/token")) {
+            assert.equal(request.headers.authorization, "Bearer token-1");
+        }
+    });
+
+    it("explica 401 e 403 de acordo com a estratégia", () => {
+        const strategy = createAuthStrategy({ type: "header", name: "X-API-Key", value: "abc" }, "users");
+
+        assert.match(strategy.errorHint(401), /"X-API-Key" foi recusada.*sources\.users\.auth\.value/);
+        assert.match(createAuthStrategy({ type: "none" }, "users").errorHint(401), /não tem nenhuma configurada/);
+    });
+});
@@ -0,0 +1,361 @@
+/**
+ * Estratégias de autenticação das fontes de documentação
+ * Cada estratégia configura o cliente HTTP da fonte e sabe explicar falhas 401/403
+ */
+
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+
+import axios, { type AxiosInstance } from "axios";
+
+import type {
+    AuthConfig,
+    BearerAuthConfig,
+    CommandRefreshConfig,
+    OAuth2ClientCredentialsAuthConfig,
+    TokenEndpointRefreshConfig,
+    TokenRefreshConfig,
+} from "../types/index.js";
+
+const execAsync = promisify(exec);
+
+/**
+ * Estratégia de autenticação aplicada a um cliente HTTP
+ */
+export interface AuthStrategy {
+    /** Tipo da estratégia */
+    readonly type: AuthConfig["type"];
+    /** Configura headers, parâmetros ou interceptors no cliente */
+    install(client: AxiosInstance): void;
+    /** Dica para o usuário quando a documentação responde 401 ou 403 */
+    errorHint(status: 401 | 403): string;
+    /** Renova as credenciais do cliente após um 401 (ausente se a estratégia não suporta renovação) */
+    refresh?(client: AxiosInstance): Promise<void>;
+}
+
+/**
+ * Margem de segurança antes da expiração de tokens OAuth2 (ms)
+ */
+const TOKEN_EXPIRY_MARGIN = 30_000;
+
+/**
+ * Cria a estratégia de autenticação de uma fonte
+ *
+ * @param auth - Configuração de autenticação
+ * @param sourceName - Nome da fonte (usado nas dicas de erro)
+ * @param timeout - Timeout das requisições auxiliares (endpoint de token)
+ */
+export function createAuthStrategy(auth: AuthConfig, sourceName: string, timeout = 10000): AuthStrategy {
+    const configPath = `sources.${sourceName}.auth`;
+
+    switch (auth.type) {
+        case "none":
+            return {
+                type: auth.type,
+                install: () => {},
+                errorHint: (status) =>
+                    status === 401
+                        ? `A documentação exige autenticação, mas a fonte "${sourceName}" não tem nenhuma configurada. Configure ${configPath}.`
+                        : `Acesso negado à documentação. A fonte "${sourceName}" não envia credenciais; configure ${configPath}.`,
+            };
+
+        case "bearer":
+            return createBearerStrategy(auth, configPath, timeout);
+
+        case "basic":
+            return {
+                type: auth.type,
+                install: (client) => {
+                    const credentials = Buffer.from(`${auth.username}:${auth.password}`).toString("base64");
+                    client.defaults.headers.common.Authorization = `Basic ${credentials}`;
+                },
+                errorHint: (status) =>
+                    status === 401
+                        ? `Usuário ou senha recusados (Basic auth). Verifique ${configPath}.username e ${configPath}.password.`
+                        : `O usuário "${auth.username}" não tem permissão para acessar a documentação.`,
+            };
+
+        case "header":
+            return {
+                type: auth.type,
+                install: (client) => {
+                    client.defaults.headers.common[auth.name] = auth.value;
+                },
+                errorHint: (status) =>
+                    status === 401
+                        ? `Chave enviada no header "${auth.name}" foi recusada. Verifique ${configPath}.value.`
+                        : `A chave do header "${auth.name}" não tem permissão para acessar a documentação.`,
+            };
+
+        case "query":
+            return {
+                type: auth.type,
+                install: (client) => {
+                    client.interceptors.request.use((request) => {
+                        request.params = { ...request.params, [auth.name]: auth.value };
+                        return request;
+                    });
+                },
+                errorHint: (status) =>
+                    status === 401
+                        ? `Chave enviada no parâmetro "${auth.name}" foi recusada. Verifique ${configPath}.value.`
+                        : `A chave do parâmetro "${auth.name}" não tem permissão para acessar a documentação.`,
+            };
+
+        case "oauth2-client-credentials":
+            return createOAuth2Strategy(auth, configPath, timeout);
+    }
+}
+
+/**
+ * Estratégia bearer
+ * Com "refresh" configurado, um novo token substitui o header Authorization do cliente após um 401
+ */
+function createBearerStrategy(auth: BearerAuthConfig, configPath: string, timeout: number): AuthStrategy {
+    const strategy: AuthStrategy = {
+        type: auth.type,
+        install: (client) => {
+            client.defaults.headers.common.Authorization = `Bearer ${auth.token}`;
+        },
+        errorHint: (status) => {
+            if (status === 403) {
+                return "Acesso negado à documentação. Verifique as permissões do token.";
+            }
+            return auth.refresh
+                ? `Token inválido ou expirado, e o token renovado também foi recusado. Verifique a renovação configurada (${describeTokenRefresh(auth.refresh)}).`
+                : `Token inválido ou expirado. Verifique MCP_JWT_TOKEN ou ${configPath}.token.`;
+        },
+    };
+
+    if (auth.refresh) {
+        const renewToken = createTokenRenewer(auth.refresh, timeout);
+
+        strategy.refresh = async (client) => {
+            client.defaults.headers.common.Authorization = `Bearer ${await renewToken()}`;
+        };
+    }
+
+    return strategy;
+}
+
+/**
+ * Cria a função de renovação de um token bearer
+ * Renovações simultâneas compartilham a mesma requisição
+ *
+ * @param refresh - Configuração da renovação
+ * @param timeout - Timeout padrão do endpoint ou comando
+ */
+function createTokenRenewer(refresh: TokenRefreshConfig, timeout: number): () => Promise<string> {
+    let pendingToken: Promise<string> | null = null;
+    // Refresh token atual (alguns servidores emitem um novo a cada renovação)
+    let refreshToken = refresh.type === "token-endpoint" ? refresh.refreshToken : "";
+
+    const renew = async (): Promise<string> => {
+        if (refresh.type === "command") {
+            return runRefreshCommand(refresh, timeout);
+        }
+
+        const result = await requestRefreshedToken(refresh, refreshToken, timeout);
+        if (result.refreshToken) {
+            refreshToken = result.refreshToken;
+        }
+        return result.accessToken;
+    };
+
+    return () => {
+        if (!pendingToken) {
+            pendingToken = renew().finally(() => {
+                pendingToken = null;
+            });
+        }
+        return pendingToken;
+    };
+}
+
+/**
+ * Executa o comando de renovação e lê o novo token do stdout
+ *
+ * @throws {Error} Se o comando falhar ou não imprimir nada
+ */
+async function runRefreshCommand(refresh: CommandRefreshConfig, timeout: number): Promise<string> {
+    try {
+        const { stdout } = await execAsync(refresh.command, { timeout: refresh.timeout ?? timeout });
+        const token = stdout.trim();
+
+        if (!token) {
+            throw new Error("o comando não imprimiu nenhum token");
+        }
+
+        return token;
+    } catch (error) {
+        const message = error instanceof Error ? error.message.trim() : "Erro desconhecido";
+        throw new Error(`Falha ao renovar token com o comando "${refresh.command}": ${message}`);
+    }
+}
+
+/**
+ * Solicita um novo token ao endpoint (grant_type=refresh_token)
+ *
+ * @throws {Error} Se o endpoint recusar o refresh token ou não retornar access_token
+ */
+async function requestRefreshedToken(
+    refresh: TokenEndpointRefreshConfig,
+    refreshToken: string,
+    timeout: number,
+): Promise<{ accessToken: string; refreshToken?: string }> {
+    const body = new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken });
+
+    if (refresh.clientId) body.set("client_id", refresh.clientId);
+    if (refresh.clientSecret) body.set("client_secret", refresh.clientSecret);
+    if (refresh.scope) body.set("scope", refresh.scope);
+
+    try {
+        const response = await axios.post<{ access_token?: string; refresh_token?: string }>(
+            refresh.url,
+            body.toString(),
+            { headers: { "Content-Type": "application/x-www-form-urlencoded" }, timeout },
+        );
+
+        const accessToken = response.data?.access_token;
+        if (!accessToken) {
+            throw new Error("resposta sem access_token");
+        }
+
+        return { accessToken, refreshToken: response.data.refresh_token || undefined };
+    } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const message = error instanceof Error ? error.message : "Erro desconhecido";
+        throw new Error(`Falha ao renovar token em ${refresh.url}${status ? ` (${status})` : ""}: ${message}`);
+    }
+}
+
+/**
+ * Descreve a renovação de token para logs e mensagens de erro
+ */
+function describeTokenRefresh(refresh: TokenRefreshConfig): string {
+    return refresh.type === "command" ? `comando "${refresh.command}"` : `endpoint ${refresh.url}`;
+}
+
+/**
+ * Estratégia OAuth2 client credentials
+ * O token é obtido sob demanda e reutilizado até expirar
+ */
+function createOAuth2Strategy(
+    auth: OAuth2ClientCredentialsAuthConfig,
+    configPath: string,
+    timeout: number,
+): AuthStrategy {
+    let cachedToken: { value: string; expiresAt: number } | null = null;
+    let pendingToken: Promise<string> | null = null;
+
+    const getToken = async (): Promise<string> => {
+        if (cachedToken && Date.now() < cachedToken.expiresAt) {
+            return cachedToken.value;
+        }
+
+        // Reaproveita requisição de token em andamento
+        if (!pendingToken) {
+            pendingToken = requestClientCredentialsToken(auth, timeout)
+                .then(({ accessToken, expiresIn }) => {
+                    cachedToken = {
+                        value: accessToken,
+                        expiresAt: expiresIn ? Date.now() + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN : Infinity,
+                    };
+                    return accessToken;
+                })
+                .finally(() => {
+                    pendingToken = null;
+                });
+        }
+
+        return pendingToken;
+    };
+
+    return {
+        type: auth.type,
+        install: (client) => {
+            client.interceptors.request.use(async (request) => {
+                request.headers.Authorization = `Bearer ${await getToken()}`;
+                return request;
+            });
+        },
+        errorHint: (status) =>
+            status === 401
+                ? `Token OAuth2 recusado pela documentação. Verifique ${configPath}.clientId, clientSecret e audience.`
+                : `O token OAuth2 não tem permissão para acessar a documentação. Verifique ${configPath}.scope${auth.scope ? ` (atual: "${auth.scope}")` : ""}.`,
+        // Descarta o token em cache; a requisição repetida obtém um novo pelo interceptor
+        refresh: async () => {
+            cachedToken = null;
+            await getToken();
+        },
+    };
+}
+
+/**
+ * Solicita um token ao endpoint OAuth2 (grant_type=client_credentials)
+ *
+ * @throws {Error} Se o endpoint recusar as credenciais ou não retornar access_token
+ */
+async function requestClientCredentialsToken(
+    auth: OAuth2ClientCredentialsAuthConfig,
+    timeout: number,
+): Promise<{ accessToken: string; expiresIn?: number }> {
+    const body = new URLSearchParams({ grant_type: "client_credentials" });
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+
+    if (auth.scope) body.set("scope", auth.scope);
+    if (auth.audience) body.set("audience", auth.audience);
+
+    if (auth.clientAuth === "body") {
+        body.set("client_id", auth.clientId);
+        body.set("client_secret", auth.clientSecret);
+    } else {
+        const credentials = Buffer.from(
+            `${encodeURIComponent(auth.clientId)}:${encodeURIComponent(auth.clientSecret)}`,
+        ).toString("base64");
+        headers.Authorization = `Basic ${credentials}`;
+    }
+
+    try {
+        const response = await axios.post<{ access_token?: string; expires_in?: number | string }>(
+            auth.tokenUrl,
+            body.toString(),
+            { headers, timeout },
+        );
+
+        const accessToken = response.data?.access_token;
+        if (!accessToken) {
+            throw new Error("resposta sem access_token");
+        }
+
+        const expiresIn = Number(response.data.expires_in);
+        return { accessToken, expiresIn: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : undefined };
+    } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const message = error instanceof Error ? error.message : "Erro desconhecido";
+        throw new Error(`Falha ao obter token OAuth2 em ${auth.tokenUrl}${status ? ` (${status})` : ""}: ${message}`);
+    }
+}
+
+/**
+ * Descreve a autenticação para logs, sem expor segredos
+ *
+ * @param auth - Configuração de autenticação
+ * @param mask - Função de mascaramento de segredos
+ */
+export function describeAuth(auth: AuthConfig, mask: (secret: string) => string): string {
+    switch (auth.type) {
+        case "none":
+            return "nenhuma";
+        case "bearer":
+            return `bearer ${mask(auth.token)}${auth.refresh ? ` (renova via ${auth.refresh.type})` : ""}`;
+        case "basic":
+            return `basic (${auth.username})`;
+        case "header":
+            return `header ${auth.name}: ${mask(auth.value)}`;
+        case "query":
+            return `query ?${auth.name}=${mask(auth.value)}`;
+        case "oauth2-client-credentials":
+            return `oauth2 (${auth.clientId})`;
+    }
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createAnchorResolver, slugifyHeading, withAnchor } from "./anchors.js";
+
+describe("slugifyHeading", () => {
+    it("segue o padrão de âncoras do GitHub", () => {
+        assert.equal(slugifyHeading("Create user (v2)!"), "create-user-v2");
+        assert.equal(slugifyHeading("Autenticação OAuth 2.0"), "autenticação-oauth-20");
+        assert.equal(slugifyHeading("GET /users/{id}"), "get-usersid");
+    });
+});
+
+describe("createAnchorResolver", () => {
+    it("usa o slug do header mais específico em Markdown", () => {
+        const resolve = createAnchorResolver("# API\n\n## Create user", "markdown");
+
+        assert.equal(resolve(["API", "Create user"]), "create-user");
+        assert.equal(resolve([]), undefined);
+    });
+
+    it("usa o id do header HTML com o mesmo texto", () => {
+        const resolve = createAnchorResolver(
+            '<h1 id="top">API</h1><h2 id="users"><code>Users</code></h2><h2>Billing</h2>',
+            "html",
+        );
+
+        assert.equal(resolve(["API", "Users"]), "users");
+        // Sem id no header mais específico, volta para a seção acima
+        assert.equal(resolve(["API", "Billing"]), "top");
+        assert.equal(resolve(["Outro"]), undefined);
+    });
+
+    it("não cria âncoras para JSON", () => {
+        assert.equal(createAnchorResolver("{}", "json")(["Users"]), undefined);
+    });
+});
+
+describe("withAnchor", () => {
+    it("substitui a âncora da URL", () => {
+        assert.equal(
+            withAnchor("https://docs.example.com/api#old", "create user"),
+            "https://docs.example.com/api#create%20user",
+        );
+        assert.equal(withAnchor("https://docs.example.com/api", undefined), "https://docs.example.com/api");
+    });
+});
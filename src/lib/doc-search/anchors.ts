@@ -0,0 +1,73 @@
+/**
+ * Âncoras dos headers de um documento
+ * Permitem apontar um resultado para a seção exata na página de origem (url#ancora)
+ */
+
+import { normalizeText } from "./scorer.js";
+import type { DocumentFormat } from "../../types/index.js";
+
+/** Headers HTML com id ("<h2 id="auth">Autenticação</h2>") */
+const HTML_HEADING_WITH_ID = /<h([1-6])\b[^>]*?\bid\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/h\1\s*>/gi;
+
+/**
+ * Cria a função que encontra a âncora de uma seção
+ * - HTML: id do header com o mesmo texto
+ * - Markdown e texto (divididos como Markdown): slug no padrão do GitHub ("Create user" → "create-user")
+ * - JSON: sem âncora
+ *
+ * @param document - Conteúdo do documento
+ * @param format - Formato detectado do documento
+ * @returns Função que recebe o breadcrumb e retorna a âncora do header mais específico que tiver uma
+ */
+export function createAnchorResolver(
+    document: string,
+    format: DocumentFormat,
+): (breadcrumb: string[]) => string | undefined {
+    if (format === "markdown" || format === "text") {
+        return (breadcrumb) => {
+            const heading = breadcrumb[breadcrumb.length - 1];
+            return heading ? slugifyHeading(heading) || undefined : undefined;
+        };
+    }
+
+    if (format === "html") {
+        const ids = new Map<string, string>();
+        for (const match of document.matchAll(HTML_HEADING_WITH_ID)) {
+            const text = normalizeText((match[3] ?? "").replace(/<[^>]+>/g, " "));
+            if (text && !ids.has(text)) ids.set(text, match[2] ?? "");
+        }
+
+        return (breadcrumb) => {
+            for (let i = breadcrumb.length - 1; i >= 0; i--) {
+                const id = ids.get(normalizeText(breadcrumb[i] ?? ""));
+                if (id) return id;
+            }
+            return undefined;
+        };
+    }
+
+    return () => undefined;
+}
+
+/**
+ * Slug de um header no padrão do GitHub: minúsculas, sem pontuação, espaços viram "-"
+ *
+ * @param heading - Texto do header (sem marcação Markdown)
+ */
+export function slugifyHeading(heading: string): string {
+    return heading
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+        .replace(/\s/g, "-");
+}
+
+/**
+ * URL com a âncora (substitui uma âncora já presente)
+ *
+ * @param url - URL da página
+ * @param anchor - Âncora, sem "#"
+ */
+export function withAnchor(url: string, anchor: string | undefined): string {
+    return anchor ? `${url.split("#")[0]}#${encodeURIComponent(anchor)}` : url;
+}
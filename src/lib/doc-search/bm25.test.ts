@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { BM25_PARAMS, explainChunkScoreBm25, scoreChunksBm25 } from "./bm25.js";
+import { buildDocIndex } from "./doc-index.js";
+import { SCORE_WEIGHTS } from "./scorer.js";
+import { searchInChunks } from "./index.js";
+
+/** Pesos sem os bônus de código e header, para isolar o BM25F */
+const weights = { ...SCORE_WEIGHTS, codeBonus: 1, headerBonus: 1 };
+
+/**
+ * Pontuação BM25F de cada chunk com match, por índice
+ */
+function bm25Scores(chunks: string[], query: string): Map<number, number> {
+    const scored = scoreChunksBm25(buildDocIndex(chunks), query, BM25_PARAMS, weights);
+    return new Map(scored.map((chunk) => [chunk.index, chunk.score]));
+}
+
+describe("scoreChunksBm25", () => {
+    it("valoriza termos raros no documento", () => {
+        const chunks = ["alpha beta", "alpha gamma", "alpha delta"];
+
+        const common = bm25Scores(chunks, "alpha").get(1) ?? 0;
+        const rare = bm25Scores(chunks, "gamma").get(1) ?? 0;
+
+        assert.ok(rare > common, `${rare} deveria ser maior que ${common}`);
+    });
+
+    it("favorece chunks curtos com a mesma frequência do termo", () => {
+        const scores = bm25Scores(["token one", "token one two three four five six"], "token");
+
+        assert.ok((scores.get(0) ?? 0) > (scores.get(1) ?? 0));
+    });
+
+    it("dá mais peso a termos em headers", () => {
+        // O header fica por último: o chunk depois dele herdaria a seção
+        const scores = bm25Scores(["Tokens\n\ntexto", "# Tokens\n\ntexto"], "tokens");
+
+        assert.ok((scores.get(1) ?? 0) > (scores.get(0) ?? 0));
+    });
+
+    it("multiplica a pontuação dos chunks com a frase exata", () => {
+        const scores = bm25Scores(["create user now", "user create now"], "create user");
+
+        assert.equal(scores.get(0), (scores.get(1) ?? 0) * BM25_PARAMS.phraseBonus);
+    });
+
+    it("ignora buscas vazias e termos ausentes", () => {
+        assert.equal(bm25Scores(["alpha"], "  ").size, 0);
+        assert.equal(bm25Scores(["alpha"], "omega").size, 0);
+    });
+});
+
+describe("explainChunkScoreBm25", () => {
+    it("chega à mesma pontuação de scoreChunksBm25", () => {
+        const index = buildDocIndex(["token refresh", "refresh the access token", "outro", "# Refresh token\n\ntexto"]);
+        const query = "refresh token";
+
+        const scored = scoreChunksBm25(index, query, BM25_PARAMS, weights);
+        assert.equal(scored.length, 3);
+        for (const chunk of scored) {
+            const explanation = explainChunkScoreBm25(index, query, BM25_PARAMS, weights, new Map(), chunk.index);
+            assert.ok(Math.abs(explanation.score - chunk.score) < 1e-9, `${explanation.score} != ${chunk.score}`);
+        }
+    });
+
+    it("aplica o bônus de frase e separa os pontos das correções", () => {
+        const index = buildDocIndex(["token refresh", "refresh the token"]);
+        const corrections = new Map([["refesh", ["refresh"]]]);
+
+        const phrase = explainChunkScoreBm25(index, "token refresh", BM25_PARAMS, weights, new Map(), 0);
+        const corrected = explainChunkScoreBm25(index, "token refesh", BM25_PARAMS, weights, corrections, 1);
+
+        assert.equal(phrase.multipliers.phrase, BM25_PARAMS.phraseBonus);
+        assert.equal(corrected.multipliers.phrase, 1);
+        assert.equal(corrected.terms[1]?.term, "refesh");
+        assert.equal(corrected.terms[1]?.exact, 0);
+        assert.ok((corrected.terms[1]?.fuzzy ?? 0) > 0);
+    });
+});
+
+describe("searchInChunks (heuristic x bm25)", () => {
+    const chunks = [
+        "# Autenticação\n\nUse o token no header Authorization.",
+        "# Paginação\n\nUse page e limit.",
+        "# Erros\n\nCódigos de erro.",
+    ];
+
+    for (const query of ["token", "paginação limit", "códigos de erro"]) {
+        it(`encontra os mesmos chunks nos dois modos: "${query}"`, async () => {
+            const heuristic = await searchInChunks(chunks, query, { algorithm: "heuristic" });
+            const bm25 = await searchInChunks(chunks, query, { algorithm: "bm25" });
+
+            assert.equal(bm25.matchedChunks, heuristic.matchedChunks);
+            assert.equal(bm25.hits[0]?.index, heuristic.hits[0]?.index);
+        });
+    }
+
+    it("não retorna resultados em nenhum modo quando não há match", async () => {
+        assert.equal((await searchInChunks(chunks, "webhook", { algorithm: "heuristic" })).matchedChunks, 0);
+        assert.equal((await searchInChunks(chunks, "webhook", { algorithm: "bm25" })).matchedChunks, 0);
+    });
+});
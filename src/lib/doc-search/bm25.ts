@@ -0,0 +1,226 @@
+/**
+ * Ranking BM25F sobre o índice invertido
+ * Considera a raridade de cada termo no documento (IDF), satura a frequência e normaliza pelo tamanho do chunk.
+ * Headers e corpo são campos separados, com pesos próprios
+ */
+
+import { type DocIndex, findChunksContaining } from "./doc-index.js";
+import { getAnalyzer } from "./language.js";
+import { normalizeText } from "./scorer.js";
+import type { Bm25Params, DocChunk, ScoreExplanation, ScoreWeights, TermContribution } from "../../types/index.js";
+
+/**
+ * Parâmetros padrão do BM25F
+ */
+export const BM25_PARAMS: Bm25Params = {
+    /** Saturação da frequência do termo */
+    k1: 1.2,
+    /** Normalização pelo tamanho do chunk */
+    b: 0.75,
+    /** Peso dos termos em headers */
+    headingWeight: 2,
+    /** Multiplicador para chunks com a frase exata */
+    phraseBonus: 1.5,
+    /** Peso de um termo corrigido */
+    fuzzyWeight: 0.5,
+};
+
+/**
+ * Pontua os chunks do índice com BM25F
+ * Chunks com a frase exata da busca e os bônus de código/header (SCORE_WEIGHTS) multiplicam a pontuação
+ *
+ * @param index - Índice do documento
+ * @param query - Busca do usuário
+ * @param params - Parâmetros do BM25F
+ * @param weights - Pesos da heurística (apenas codeBonus e headerBonus são usados)
+ * @param corrections - Palavras sem match → termos corrigidos (pontuados com params.fuzzyWeight)
+ * @returns Chunks com pontuação > 0, na ordem do documento
+ */
+export function scoreChunksBm25(
+    index: DocIndex,
+    query: string,
+    params: Bm25Params,
+    weights: ScoreWeights,
+    corrections: Map<string, string[]> = new Map(),
+): DocChunk[] {
+    const normalizedQuery = normalizeText(query);
+    if (!normalizedQuery) {
+        return [];
+    }
+
+    const queryTokens = [...new Set(getAnalyzer(index.language).analyze(query))];
+    const averages = getAverageFieldLengths(index);
+    const scores = new Map<number, number>();
+
+    for (const { token, weight } of weightTokens(queryTokens, params, corrections)) {
+        for (const chunkIndex of index.postings.get(token)?.keys() ?? []) {
+            const termScore = scoreTerm(index, token, weight, chunkIndex, params, averages);
+            if (termScore <= 0) continue;
+
+            scores.set(chunkIndex, (scores.get(chunkIndex) ?? 0) + termScore);
+        }
+    }
+
+    // Frase exata (apenas buscas com mais de uma palavra)
+    const phraseMatches = queryTokens.length > 1 ? findChunksContaining(index, normalizedQuery) : new Set<number>();
+
+    const scored: DocChunk[] = [];
+
+    for (const chunkIndex of [...scores.keys()].sort((a, b) => a - b)) {
+        let score = scores.get(chunkIndex) ?? 0;
+
+        if (phraseMatches.has(chunkIndex)) {
+            score *= params.phraseBonus;
+        }
+        if (index.hasCode[chunkIndex]) {
+            score *= weights.codeBonus;
+        }
+        if (index.hasHeader[chunkIndex]) {
+            score *= weights.headerBonus;
+        }
+
+        if (score > 0) {
+            scored.push({ content: index.chunks[chunkIndex] as string, index: chunkIndex, score });
+        }
+    }
+
+    return scored;
+}
+
+/**
+ * Detalha a pontuação de um chunk em scoreChunksBm25: pontos de cada palavra da busca e multiplicadores
+ * Os pontos das correções de uma palavra aparecem como fuzzy da palavra digitada
+ *
+ * @param index - Índice do documento
+ * @param query - Busca do usuário
+ * @param params - Parâmetros do BM25F
+ * @param weights - Pesos da heurística (apenas codeBonus e headerBonus são usados)
+ * @param corrections - Palavras sem match → termos corrigidos
+ * @param chunkIndex - Índice do chunk
+ */
+export function explainChunkScoreBm25(
+    index: DocIndex,
+    query: string,
+    params: Bm25Params,
+    weights: ScoreWeights,
+    corrections: Map<string, string[]>,
+    chunkIndex: number,
+): ScoreExplanation {
+    const normalizedQuery = normalizeText(query);
+    const queryTokens = [...new Set(getAnalyzer(index.language).analyze(query))];
+    const averages = getAverageFieldLengths(index);
+
+    const terms = queryTokens.map((queryToken): TermContribution => {
+        let points = 0;
+        for (const { token, weight } of weightTokens([queryToken], params, corrections)) {
+            points += scoreTerm(index, token, weight, chunkIndex, params, averages);
+        }
+
+        const corrected = corrections.has(queryToken);
+        return {
+            term: queryToken,
+            phrase: 0,
+            exact: corrected ? 0 : points,
+            partial: 0,
+            fuzzy: corrected ? points : 0,
+        };
+    });
+
+    const hasPhrase =
+        queryTokens.length > 1 &&
+        normalizedQuery.length > 0 &&
+        findChunksContaining(index, normalizedQuery).has(chunkIndex);
+    const multipliers = {
+        phrase: hasPhrase ? params.phraseBonus : 1,
+        code: index.hasCode[chunkIndex] ? weights.codeBonus : 1,
+        header: index.hasHeader[chunkIndex] ? weights.headerBonus : 1,
+    };
+    const baseScore = terms.reduce((sum, term) => sum + term.exact + term.fuzzy, 0);
+
+    return { terms, multipliers, score: baseScore * multipliers.phrase * multipliers.code * multipliers.header };
+}
+
+/**
+ * Termos pontuados: os da busca (peso 1) e as correções das palavras sem match (peso fuzzyWeight)
+ */
+function weightTokens(
+    queryTokens: string[],
+    params: Bm25Params,
+    corrections: Map<string, string[]>,
+): { token: string; weight: number }[] {
+    return queryTokens.flatMap((token) =>
+        (corrections.get(token) ?? [token]).map((term) => ({
+            token: term,
+            weight: corrections.has(token) ? params.fuzzyWeight : 1,
+        })),
+    );
+}
+
+/**
+ * Pontuação BM25F de um token em um chunk, multiplicada pelo peso do token (0 quando o token não aparece)
+ */
+function scoreTerm(
+    index: DocIndex,
+    token: string,
+    weight: number,
+    chunkIndex: number,
+    params: Bm25Params,
+    averages: { averageBody: number; averageHeading: number },
+): number {
+    const posting = index.postings.get(token);
+    const frequency = posting?.get(chunkIndex);
+    if (!posting || !frequency) {
+        return 0;
+    }
+
+    const idf = Math.log(1 + (index.chunks.length - posting.size + 0.5) / (posting.size + 0.5));
+    const headingFrequency = index.headingPostings.get(token)?.get(chunkIndex) ?? 0;
+    const headingLength = index.headingLengths[chunkIndex] ?? 0;
+    const bodyLength = (index.chunkLengths[chunkIndex] ?? 0) - headingLength;
+
+    // Frequência ponderada por campo, normalizada pelo tamanho de cada campo
+    const weightedFrequency =
+        normalizeFrequency(frequency - headingFrequency, bodyLength, averages.averageBody, params.b) +
+        params.headingWeight * normalizeFrequency(headingFrequency, headingLength, averages.averageHeading, params.b);
+
+    if (weightedFrequency <= 0) {
+        return 0;
+    }
+
+    return (weight * idf * weightedFrequency) / (params.k1 + weightedFrequency);
+}
+
+/**
+ * Normaliza a frequência de um termo pelo tamanho do campo
+ */
+function normalizeFrequency(frequency: number, length: number, averageLength: number, b: number): number {
+    if (frequency <= 0) {
+        return 0;
+    }
+    if (averageLength <= 0) {
+        return frequency;
+    }
+    return frequency / (1 - b + (b * length) / averageLength);
+}
+
+/**
+ * Tamanho médio (em tokens) do corpo e dos headers dos chunks
+ */
+function getAverageFieldLengths(index: DocIndex): { averageBody: number; averageHeading: number } {
+    const totalChunks = index.chunks.length;
+    if (totalChunks === 0) {
+        return { averageBody: 0, averageHeading: 0 };
+    }
+
+    let totalTokens = 0;
+    let headingTokens = 0;
+    for (let i = 0; i < totalChunks; i++) {
+        totalTokens += index.chunkLengths[i] ?? 0;
+        headingTokens += index.headingLengths[i] ?? 0;
+    }
+
+    return {
+        averageBody: (totalTokens - headingTokens) / totalChunks,
+        averageHeading: headingTokens / totalChunks,
+    };
+}
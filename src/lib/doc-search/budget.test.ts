@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { packResults, trimAtSentence } from "./budget.js";
+
+/**
+ * Resultado com o conteúdo informado
+ */
+function hit(content: string): { content: string; truncatedChars?: number } {
+    return { content };
+}
+
+const SENTENCES = "First sentence here. Second sentence follows. Third sentence ends the paragraph.";
+
+describe("trimAtSentence", () => {
+    it("corta no último fim de frase que cabe e marca o corte", () => {
+        const { text, removedChars } = trimAtSentence(SENTENCES, 52);
+
+        assert.equal(text, "First sentence here. Second sentence follows.…");
+        assert.equal(removedChars, SENTENCES.length - "First sentence here. Second sentence follows.".length);
+    });
+
+    it("corta no último espaço quando não há fim de frase na segunda metade", () => {
+        const { text } = trimAtSentence("one two three four five six seven eight nine ten", 30);
+
+        assert.equal(text, "one two three four five…");
+    });
+
+    it("fecha o bloco de código cortado ao meio", () => {
+        const document = "Exemplo:\n\n```ts\nconst a = 1;\nconst b = 2;\nconst c = 3;\nconst d = 4;\n```";
+
+        const { text } = trimAtSentence(document, 45);
+
+        assert.ok(text.length <= 45, `${text.length} > 45`);
+        assert.match(text, /…\n```$/);
+        assert.equal(text.match(/^```/gm)?.length, 2);
+    });
+
+    it("mantém textos que cabem no limite", () => {
+        assert.deepEqual(trimAtSentence("curto", 10), { text: "curto", removedChars: 0 });
+    });
+});
+
+describe("packResults", () => {
+    it("mantém os resultados que cabem e corta o próximo", () => {
+        const long = `${"a".repeat(100)}. ${"b".repeat(150)}. ${"c".repeat(100)}.`;
+
+        const { hits, budget } = packResults([hit("x".repeat(100)), hit(long), hit("y".repeat(50))], 400);
+
+        assert.equal(hits.length, 2);
+        assert.equal(hits[1]?.content, `${"a".repeat(100)}. ${"b".repeat(150)}.…`);
+        assert.equal(budget.usedChars, 100 + (hits[1]?.content.length ?? 0));
+        assert.equal(budget.truncatedChars, long.length - 253);
+        assert.equal(hits[1]?.truncatedChars, budget.truncatedChars);
+        assert.equal(budget.omittedResults, 1);
+    });
+
+    it("omite o resultado quando sobra pouco espaço", () => {
+        const { hits, budget } = packResults([hit("x".repeat(150)), hit("y".repeat(200))], 200);
+
+        assert.equal(hits.length, 1);
+        assert.deepEqual(budget, { maxChars: 200, usedChars: 150, truncatedChars: 0, omittedResults: 1 });
+    });
+
+    it("sempre retorna o primeiro resultado, cortado se preciso", () => {
+        const { hits, budget } = packResults([hit(SENTENCES)], 30);
+
+        assert.equal(hits[0]?.content, "First sentence here.…");
+        assert.ok(budget.usedChars <= 30);
+    });
+});
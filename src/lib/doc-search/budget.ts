@@ -0,0 +1,95 @@
+/**
+ * Limite de texto dos resultados
+ * Preenche um orçamento de caracteres com os resultados em ordem de pontuação; o último que não cabe
+ * inteiro é cortado no fim de uma frase
+ */
+
+import type { BudgetReport } from "../../types/index.js";
+
+/** Máximo de resultados candidatos quando só o orçamento limita a resposta */
+export const MAX_BUDGET_RESULTS = 50;
+
+/** Menor sobra do orçamento que ainda vale um resultado cortado (abaixo disso, o resultado é omitido) */
+const MIN_TRIMMED_SIZE = 120;
+
+/** Marcador de texto cortado */
+const TRUNCATION_MARK = "…";
+
+/**
+ * Mantém os resultados que cabem no orçamento, cortando o último se necessário
+ * O primeiro resultado sempre entra (cortado, se preciso), para que a busca nunca volte vazia por falta de espaço
+ *
+ * @param hits - Resultados em ordem de pontuação
+ * @param maxChars - Orçamento de caracteres (soma do conteúdo dos resultados)
+ * @returns Resultados mantidos e o relatório do orçamento
+ */
+export function packResults<T extends { content: string; truncatedChars?: number }>(
+    hits: T[],
+    maxChars: number,
+): { hits: T[]; budget: BudgetReport } {
+    const packed: T[] = [];
+    let usedChars = 0;
+    let truncatedChars = 0;
+
+    for (const hit of hits) {
+        const remaining = maxChars - usedChars;
+
+        if (hit.content.length <= remaining) {
+            packed.push(hit);
+            usedChars += hit.content.length;
+            continue;
+        }
+
+        if (remaining >= MIN_TRIMMED_SIZE || packed.length === 0) {
+            const { text, removedChars } = trimAtSentence(hit.content, Math.max(remaining, 0));
+
+            packed.push({ ...hit, content: text, truncatedChars: (hit.truncatedChars ?? 0) + removedChars });
+            usedChars += text.length;
+            truncatedChars += removedChars;
+        }
+        break;
+    }
+
+    return {
+        hits: packed,
+        budget: { maxChars, usedChars, truncatedChars, omittedResults: hits.length - packed.length },
+    };
+}
+
+/**
+ * Corta o texto no último fim de frase (ou de parágrafo) que cabe no limite
+ * Sem fim de frase na segunda metade do limite, corta no último espaço. Blocos de código abertos são fechados
+ *
+ * @param text - Texto a cortar
+ * @param maxChars - Tamanho máximo do resultado, incluindo o marcador de corte
+ * @returns Texto cortado e quantos caracteres do original ficaram de fora
+ */
+export function trimAtSentence(text: string, maxChars: number): { text: string; removedChars: number } {
+    if (text.length <= maxChars) {
+        return { text, removedChars: 0 };
+    }
+
+    const limit = Math.max(0, maxChars - TRUNCATION_MARK.length - "\n```".length);
+    const head = text.slice(0, limit);
+
+    let cut = -1;
+    for (const match of head.matchAll(/[.!?:](?=\s)|\n\s*\n/g)) {
+        cut = match.index + (match[0].startsWith("\n") ? 0 : 1);
+    }
+    if (cut < limit / 2) {
+        cut = Math.max(head.lastIndexOf(" "), head.lastIndexOf("\n"));
+    }
+    if (cut <= 0) {
+        cut = limit;
+    }
+
+    const kept = text.slice(0, cut).trimEnd();
+    let trimmed = `${kept}${TRUNCATION_MARK}`;
+
+    // Fecha um bloco de código cortado ao meio
+    if ((trimmed.match(/^[ \t]*```/gm)?.length ?? 0) % 2 === 1) {
+        trimmed += "\n```";
+    }
+
+    return { text: trimmed, removedChars: text.length - kept.length };
+}
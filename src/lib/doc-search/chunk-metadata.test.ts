@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { cleanHeading, extractChunkMetadata, normalizeCodeLanguage } from "./chunk-metadata.js";
+
+describe("extractChunkMetadata", () => {
+    it("herda as seções dos chunks anteriores", () => {
+        const metadata = extractChunkMetadata([
+            "# API\n\n## Users\n\nIntro",
+            "Lista os usuários",
+            "## Billing\n\nFaturas",
+            "# Guias",
+        ]);
+
+        assert.deepEqual(
+            metadata.map((chunk) => chunk.headings),
+            [["api", "users"], ["api", "users"], ["api", "billing"], ["guias"]],
+        );
+    });
+
+    it("monta o breadcrumb do início de cada chunk, sem Markdown", () => {
+        const metadata = extractChunkMetadata([
+            "# API\n\n## `GET /users`\n\nLista",
+            "continua",
+            "## [Billing](#billing) ##",
+        ]);
+
+        assert.deepEqual(
+            metadata.map((chunk) => chunk.breadcrumb),
+            [["API"], ["API", "GET /users"], ["API", "Billing"]],
+        );
+    });
+
+    it("separa os headers herdados dos headers do chunk, ignorando blocos de código", () => {
+        const metadata = extractChunkMetadata([
+            "# API\n\n## Users\n\nIntro",
+            "```bash\n# comentário\ncurl /users\n```",
+            "### Create user\n\nCria",
+        ]);
+
+        assert.deepEqual(
+            metadata.map(({ inheritedHeadings, chunkHeadings }) => [inheritedHeadings, chunkHeadings]),
+            [
+                [[], ["API", "Users"]],
+                [["API", "Users"], []],
+                [["API", "Users"], ["Create user"]],
+            ],
+        );
+        assert.deepEqual(metadata[1]?.breadcrumb, ["API", "Users"]);
+    });
+
+    it("extrai métodos, caminhos, tags e linguagens", () => {
+        const [metadata] = extractChunkMetadata([
+            "**PATCH** `/Users/{id}`\n\nVeja também `/users/search`.\n\n*Tags:* `accounts`, `Admin Users`\n\n```bash\ncurl -X PATCH\n```",
+        ]);
+
+        assert.deepEqual([...(metadata?.methods ?? [])], ["PATCH"]);
+        assert.deepEqual(metadata?.paths, ["/users/{id}", "/users/search"]);
+        assert.deepEqual(metadata?.tags, ["accounts", "admin users"]);
+        assert.deepEqual([...(metadata?.languages ?? [])], ["sh"]);
+    });
+});
+
+describe("cleanHeading", () => {
+    it("remove ênfase, código, links e o fechamento do header", () => {
+        assert.equal(cleanHeading("**Auth** [Users](#users) ##"), "Auth Users");
+    });
+});
+
+describe("normalizeCodeLanguage", () => {
+    it("unifica os nomes alternativos das linguagens", () => {
+        assert.equal(normalizeCodeLanguage("TypeScript"), "ts");
+        assert.equal(normalizeCodeLanguage("python3"), "py");
+        assert.equal(normalizeCodeLanguage("go"), "go");
+    });
+});
@@ -0,0 +1,157 @@
+/**
+ * Metadados de cada chunk usados pelos filtros da busca (heading:, method:, path:, tag:, lang:)
+ */
+
+import { normalizeText } from "./scorer.js";
+
+/**
+ * Metadados de um chunk
+ */
+export interface ChunkMetadata {
+    /** Headers em vigor no início do chunk, do mais geral ao mais específico (texto sem Markdown) */
+    breadcrumb: string[];
+    /** Headers herdados dos chunks anteriores, que não aparecem no texto do chunk (texto sem Markdown) */
+    inheritedHeadings: string[];
+    /** Headers do próprio chunk, fora de blocos de código (texto sem Markdown) */
+    chunkHeadings: string[];
+    /** Headers em vigor no chunk (herdados dos chunks anteriores + os do próprio chunk), normalizados */
+    headings: string[];
+    /** Métodos HTTP citados no chunk (maiúsculos) */
+    methods: Set<string>;
+    /** Caminhos de endpoints citados no chunk (minúsculos) */
+    paths: string[];
+    /** Tags de operações OpenAPI (linhas "Tags:"), normalizadas */
+    tags: string[];
+    /** Linguagens dos blocos de código (ver normalizeCodeLanguage) */
+    languages: Set<string>;
+}
+
+/** Métodos HTTP reconhecidos */
+export const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+/** Linhas de header Markdown, com o nível */
+const HEADING_WITH_LEVEL = /^(#{1,6})[ \t]+(.+)$/gm;
+
+/** Blocos de código cercados (um "# comentário" dentro deles não é header) */
+const FENCED_CODE = /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm;
+
+/** Método HTTP isolado (em maiúsculas) */
+const METHOD_WORD = new RegExp(`\\b(${HTTP_METHODS.join("|")})\\b`, "g");
+
+/** Método seguido de caminho ("POST /users", "**POST** `/users`") */
+const ENDPOINT = new RegExp(`\\b(?:${HTTP_METHODS.join("|")})\\b[*\`\\s]+(/[^\\s\`]*)`, "g");
+
+/** Caminho entre crases ("`/users/{id}`") */
+const QUOTED_PATH = /`(\/[^\s`]*)`/g;
+
+/** Linha de tags das operações OpenAPI ("*Tags:* `billing`, `invoices`") */
+const TAGS_LINE = /^\*?Tags:\*?[ \t]*(.+)$/gim;
+
+/** Início de bloco de código com linguagem (```ts) */
+const CODE_FENCE_LANGUAGE = /^[ \t]*(?:```|~~~)[ \t]*([\w#+.-]+)/gm;
+
+/** Nomes alternativos de linguagens → nome usado no filtro lang: */
+const LANGUAGE_ALIASES: Record<string, string> = {
+    typescript: "ts",
+    tsx: "ts",
+    javascript: "js",
+    jsx: "js",
+    node: "js",
+    python: "py",
+    python3: "py",
+    shell: "sh",
+    bash: "sh",
+    zsh: "sh",
+    console: "sh",
+    yml: "yaml",
+    golang: "go",
+    "c#": "csharp",
+    cs: "csharp",
+    rb: "ruby",
+    kt: "kotlin",
+    rs: "rust",
+};
+
+/**
+ * Extrai os metadados de todos os chunks de um documento
+ * Os headers são acumulados na ordem do documento, para que um chunk sem header (ex: a continuação de uma
+ * seção grande) herde a seção em que está
+ *
+ * @param chunks - Chunks do documento, na ordem original
+ */
+export function extractChunkMetadata(chunks: string[]): ChunkMetadata[] {
+    // Header em vigor em cada nível (índice 0 = h1)
+    const headingStack: string[] = [];
+
+    return chunks.map((chunk) => {
+        const matches = [...maskFencedCode(chunk).matchAll(HEADING_WITH_LEVEL)];
+
+        // Um chunk que começa com header só herda as seções de nível acima dele
+        const first = matches[0];
+        const startsWithHeading = first !== undefined && chunk.slice(0, first.index).trim() === "";
+        const inherited = startsWithHeading ? headingStack.slice(0, (first[1] ?? "#").length - 1) : [...headingStack];
+        const headings: string[] = [];
+
+        for (const match of matches) {
+            const level = (match[1] ?? "#").length;
+            const heading = cleanHeading(match[2] ?? "");
+
+            headingStack.length = level - 1;
+            headingStack[level - 1] = heading;
+            headings.push(heading);
+        }
+
+        const breadcrumb = inherited.filter(Boolean);
+        if (startsWithHeading) breadcrumb.push(headings[0] as string);
+
+        const paths = new Set<string>();
+        for (const match of chunk.matchAll(ENDPOINT)) paths.add((match[1] ?? "").toLowerCase());
+        for (const match of chunk.matchAll(QUOTED_PATH)) paths.add((match[1] ?? "").toLowerCase());
+
+        return {
+            breadcrumb,
+            inheritedHeadings: inherited.filter(Boolean),
+            chunkHeadings: headings,
+            headings: [
+                ...new Set([...inherited, ...headings].filter(Boolean).map((heading) => normalizeText(heading))),
+            ],
+            methods: new Set([...chunk.matchAll(METHOD_WORD)].map((match) => match[1] ?? "")),
+            paths: [...paths],
+            tags: [...chunk.matchAll(TAGS_LINE)].flatMap((match) =>
+                (match[1] ?? "")
+                    .split(",")
+                    .map((tag) => normalizeText(tag))
+                    .filter(Boolean),
+            ),
+            languages: new Set(
+                [...chunk.matchAll(CODE_FENCE_LANGUAGE)].map((match) => normalizeCodeLanguage(match[1] ?? "")),
+            ),
+        };
+    });
+}
+
+/**
+ * Troca o conteúdo dos blocos de código cercados por espaços, mantendo as posições do texto
+ */
+function maskFencedCode(chunk: string): string {
+    return chunk.replace(FENCED_CODE, (block) => block.replace(/[^\n]/g, " "));
+}
+
+/**
+ * Texto de um header sem a marcação Markdown ("`GET /users`", "**Auth**", "[Users](#users) ##")
+ */
+export function cleanHeading(heading: string): string {
+    return heading
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+        .replace(/[`*]+/g, "")
+        .replace(/\s+#+\s*$/, "")
+        .trim();
+}
+
+/**
+ * Normaliza o nome de uma linguagem de bloco de código ("TypeScript" → "ts", "bash" → "sh")
+ */
+export function normalizeCodeLanguage(language: string): string {
+    const lower = language.toLowerCase();
+    return LANGUAGE_ALIASES[lower] ?? lower;
+}
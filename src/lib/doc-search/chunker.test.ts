@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { resolveChunkLimits, splitIntoChunks } from "./chunker.js";
+
+const GUIDE = [
+    "# Guide",
+    "First paragraph talks about tokens and keys.",
+    "Second paragraph explains the refresh flow in detail.",
+    "Third paragraph covers revoking access.",
+].join("\n\n");
+
+describe("resolveChunkLimits", () => {
+    it("converte os tamanhos padrão para tokens", () => {
+        assert.deepEqual(resolveChunkLimits({ unit: "tokens" }), {
+            maxChunkSize: 500,
+            minChunkSize: 3,
+            overlap: 0,
+            unit: "tokens",
+            strategies: ["headers", "rules", "paragraphs", "sentences"],
+        });
+    });
+
+    it("mantém os valores configurados", () => {
+        const limits = resolveChunkLimits({ maxChunkSize: 300, overlap: 40, strategies: ["headers"] });
+
+        assert.equal(limits.maxChunkSize, 300);
+        assert.equal(limits.minChunkSize, 10);
+        assert.equal(limits.overlap, 40);
+        assert.deepEqual(limits.strategies, ["headers"]);
+    });
+});
+
+describe("splitIntoChunks", () => {
+    it("mede os tamanhos em tokens de 4 caracteres", () => {
+        const inChars = splitIntoChunks(GUIDE, { maxChunkSize: 100, minChunkSize: 4 });
+        const inTokens = splitIntoChunks(GUIDE, { maxChunkSize: 25, minChunkSize: 1, unit: "tokens" });
+
+        assert.equal(inChars.length, 3);
+        assert.deepEqual(inTokens, inChars);
+    });
+
+    it("repete o fim do chunk anterior a partir de uma palavra inteira", () => {
+        const chunks = splitIntoChunks(GUIDE, { maxChunkSize: 100, minChunkSize: 4, overlap: 30 });
+
+        assert.equal(chunks[0], "# Guide\n\nFirst paragraph talks about tokens and keys.");
+        assert.equal(chunks[1], "talks about tokens and keys.\nSecond paragraph explains the refresh flow in detail.");
+        assert.equal(chunks[2], "the refresh flow in detail.\nThird paragraph covers revoking access.");
+    });
+
+    it("não sobrepõe o início de uma seção nem repete código", () => {
+        const sections = splitIntoChunks("# A\n\nIntro text for section A.\n\n# B\n\nIntro text for section B.", {
+            maxChunkSize: 100,
+            minChunkSize: 4,
+            overlap: 30,
+        });
+        const code = splitIntoChunks("Text before the example.\n\n```js\nrun();\n```\n\nText after the example.", {
+            maxChunkSize: 40,
+            minChunkSize: 4,
+            overlap: 30,
+        });
+
+        assert.match(sections[1] ?? "", /^# B/);
+        assert.equal(code.length, 3);
+        assert.equal(code[2], "Text after the example.");
+    });
+
+    it("não divide por estratégias fora da lista", () => {
+        const chunks = splitIntoChunks(GUIDE, { maxChunkSize: 100, minChunkSize: 4, strategies: ["headers"] });
+
+        assert.deepEqual(chunks, [GUIDE]);
+    });
+
+    it("divide pela primeira estratégia mesmo quando o documento caberia inteiro", () => {
+        const chunks = splitIntoChunks(GUIDE, { maxChunkSize: 1000, minChunkSize: 4, strategies: ["paragraphs"] });
+
+        assert.equal(chunks.length, 3);
+        assert.match(chunks[0] ?? "", /^# Guide\n\nFirst paragraph/);
+    });
+
+    it("não repete linhas de tabela na sobreposição", () => {
+        const rows = Array.from({ length: 12 }, (_, i) => `<tr><td>${4000 + i}</td><td>Message ${i}</td></tr>`).join(
+            "",
+        );
+        const html = `<table><thead><tr><th>Code</th><th>Message</th></tr></thead>${rows}</table>`;
+
+        const chunks = splitIntoChunks(html, { forceFormat: "html", maxChunkSize: 150, minChunkSize: 4, overlap: 40 });
+
+        assert.ok(chunks.length > 1);
+        for (const chunk of chunks) {
+            assert.match(chunk, /^\| Code \| Message \|/);
+        }
+    });
+});
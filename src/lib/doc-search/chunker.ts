@@ -4,33 +4,127 @@
  */
 
 import { detectDocumentFormat } from "./format-detector.js";
-import { htmlToSimpleMarkdown, splitHtmlIntoChunks } from "./html-chunker.js";
-import { MAX_CHUNK_SIZE, MAX_CONTEXT_SIZE, MIN_CHUNK_SIZE, SEPARATION_PATTERNS } from "./patterns.js";
-import type { ChunkingOptions, DocumentFormat } from "../../types/index.js";
+import { type HtmlPageOptions, htmlToSimpleMarkdown, splitHtmlIntoChunks } from "./html-chunker.js";
+import { splitMarkdownIntoChunks } from "./markdown-chunker.js";
+import {
+    CHARS_PER_TOKEN,
+    CHUNK_OVERLAP,
+    CHUNK_STRATEGIES,
+    MAX_CHUNK_SIZE,
+    MAX_CONTEXT_SIZE,
+    MIN_CHUNK_SIZE,
+} from "./patterns.js";
+import type { ChunkingOptions, ChunkSizes, DocumentFormat } from "../../types/index.js";
+
+/**
+ * Perfil usado na divisão em chunks (tamanhos na unidade do perfil)
+ */
+export type ChunkLimits = Omit<ChunkSizes, "maxContextSize">;
+
+/**
+ * Limites em caracteres usados pelos chunkers de cada formato (sem estratégias: todas, na ordem padrão)
+ */
+export type SplitLimits = Pick<ChunkLimits, "maxChunkSize" | "minChunkSize"> & Partial<Pick<ChunkLimits, "strategies">>;
+
+/** Headers Markdown (um chunk que começa uma seção não recebe sobreposição) */
+const HEADING_LINE = /^#{1,6}[ \t]+\S.*$/gm;
+
+/** Cercas de bloco de código (a sobreposição não repete pedaços de código) */
+const FENCE_LINE = /^ {0,3}(?:`{3,}|~{3,})/m;
+
+/** Linhas de tabela (grupos de linhas de uma tabela já repetem o header; a sobreposição não repete linhas) */
+const TABLE_LINE = /^ {0,3}\|.*\|[ \t]*$/m;
 
 /**
  * Divide o documento em chunks usando padrões de separação hierárquicos
  * Detecta automaticamente o formato (Markdown, HTML, JSON) e aplica estratégia adequada
  *
  * @param document - Documento completo para dividir
- * @param options - Opções de chunking (formato forçado, fallbacks habilitados)
+ * @param options - Opções de chunking (formato forçado, fallbacks habilitados, perfil de chunking)
  * @returns Array de chunks de texto
  */
 export function splitIntoChunks(document: string, options: ChunkingOptions = {}): string[] {
-    const { forceFormat, enableHtmlFallback = true, enableJsonFallback = true } = options;
+    const { forceFormat, enableHtmlFallback = true, enableJsonFallback = true, baseUrl, contentSelector } = options;
+    const profile = resolveChunkLimits(options);
+    const scale = profile.unit === "tokens" ? CHARS_PER_TOKEN : 1;
+    const limits: SplitLimits = {
+        maxChunkSize: profile.maxChunkSize * scale,
+        minChunkSize: profile.minChunkSize * scale,
+        strategies: profile.strategies,
+    };
 
     // Determina o formato do documento
     const format = forceFormat ?? detectFormat(document, enableHtmlFallback, enableJsonFallback);
 
     // Aplica estratégia de chunking baseada no formato
+    let chunks: string[];
     switch (format) {
         case "html":
-            return splitHtmlDocument(document);
+            chunks = splitHtmlDocument(document, limits, { baseUrl, contentSelector });
+            break;
         case "json":
-            return splitJsonDocument(document);
+            chunks = splitJsonDocument(document, limits);
+            break;
         default:
-            return splitMarkdownDocument(document);
+            chunks = splitMarkdownIntoChunks(document, limits);
+    }
+
+    return applyOverlap(chunks, profile.overlap * scale);
+}
+
+/**
+ * Perfil de chunking completo, com os padrões da biblioteca nos valores ausentes
+ * Os tamanhos padrão são convertidos para tokens quando a unidade é "tokens"
+ *
+ * @param profile - Perfil configurado (parcial)
+ */
+export function resolveChunkLimits(profile: Partial<ChunkLimits>): ChunkLimits {
+    const unit = profile.unit ?? "chars";
+    const scale = unit === "tokens" ? CHARS_PER_TOKEN : 1;
+
+    return {
+        maxChunkSize: profile.maxChunkSize ?? Math.round(MAX_CHUNK_SIZE / scale),
+        minChunkSize: profile.minChunkSize ?? Math.round(MIN_CHUNK_SIZE / scale),
+        overlap: profile.overlap ?? CHUNK_OVERLAP,
+        unit,
+        strategies: profile.strategies ?? CHUNK_STRATEGIES,
+    };
+}
+
+/**
+ * Repete o fim de cada chunk no início do seguinte (janela deslizante), para que uma frase cortada
+ * na divisão também apareça inteira em um chunk
+ * Chunks que começam uma seção não recebem sobreposição; o trecho repetido começa em uma palavra inteira,
+ * depois do último header do chunk anterior, e é omitido se contiver uma cerca de código ou uma linha de tabela
+ *
+ * @param chunks - Chunks na ordem do documento
+ * @param overlap - Tamanho máximo do trecho repetido, em caracteres
+ */
+function applyOverlap(chunks: string[], overlap: number): string[] {
+    if (overlap <= 0) {
+        return chunks;
     }
+
+    return chunks.map((chunk, index) => {
+        const previous = chunks[index - 1];
+        if (previous === undefined || /^\s*#{1,6}[ \t]+\S/.test(chunk)) {
+            return chunk;
+        }
+
+        // Começa depois do último header e em uma palavra inteira
+        const lastHeading = [...previous.matchAll(HEADING_LINE)].at(-1);
+        const headingEnd = lastHeading ? lastHeading.index + lastHeading[0].length : 0;
+        let start = Math.max(headingEnd, previous.length - overlap);
+        if (start > headingEnd && /\S/.test(previous[start - 1] ?? "")) {
+            const nextSpace = previous.slice(start).search(/\s/);
+            start = nextSpace === -1 ? previous.length : start + nextSpace;
+        }
+
+        const tail = previous.slice(start).trim();
+        // A linha de tabela é testada inteira (o trecho pode começar no meio dela)
+        const tailLines = previous.slice(previous.lastIndexOf("\n", start - 1) + 1);
+        return tail && !FENCE_LINE.test(tail) && !TABLE_LINE.test(tailLines) ? `${tail}\n${chunk}` : chunk;
+    });
 }
 
 /**
@@ -57,14 +151,14 @@ function detectFormat(document: string, enableHtml: boolean, enableJson: boolean
  * Divide documento HTML em chunks
  * Extrai texto e preserva estrutura semântica
  */
-function splitHtmlDocument(document: string): string[] {
+function splitHtmlDocument(document: string, limits: SplitLimits, page: HtmlPageOptions): string[] {
     // Usa o chunker HTML especializado
-    const chunks = splitHtmlIntoChunks(document);
+    const chunks = splitHtmlIntoChunks(document, limits, page);
 
     // Se o chunker HTML não produziu bons resultados, converte para markdown e usa estratégia padrão
-    if (chunks.length <= 1 && document.length > MAX_CHUNK_SIZE) {
-        const markdown = htmlToSimpleMarkdown(document);
-        return splitMarkdownDocument(markdown);
+    if (chunks.length <= 1 && document.length > limits.maxChunkSize) {
+        const markdown = htmlToSimpleMarkdown(document, page);
+        return splitMarkdownIntoChunks(markdown, limits);
     }
 
     return chunks;
@@ -74,21 +168,21 @@ function splitHtmlDocument(document: string): string[] {
  * Divide documento JSON em chunks
  * Tenta extrair texto de campos de documentação comuns
  */
-function splitJsonDocument(document: string): string[] {
+function splitJsonDocument(document: string, limits: SplitLimits): string[] {
     try {
         const parsed = JSON.parse(document);
         const textContent = extractJsonTextContent(parsed);
 
         if (textContent) {
             // Se extraiu texto, aplica chunking de markdown
-            return splitMarkdownDocument(textContent);
+            return splitMarkdownIntoChunks(textContent, limits);
         }
     } catch {
         // Se falhar parse, trata como texto
     }
 
     // Fallback: trata JSON como texto formatado
-    return splitMarkdownDocument(document);
+    return splitMarkdownIntoChunks(document, limits);
 }
 
 /**
@@ -147,104 +241,15 @@ function extractJsonTextContent(obj: unknown, depth = 0): string {
     return "";
 }
 
-/**
- * Divide documento Markdown/texto em chunks usando padrões de separação hierárquicos
- * Prioridade: Headers > Separadores horizontais > Parágrafos > Sentenças
- */
-function splitMarkdownDocument(document: string): string[] {
-    let chunks: string[] = [document];
-
-    // 1. Tenta dividir por headers markdown (mantém o header com o conteúdo)
-    const headerSplit = document.split(SEPARATION_PATTERNS.headers).filter((chunk) => chunk.trim());
-
-    if (headerSplit.length > 1) {
-        chunks = headerSplit;
-    } else {
-        // 2. Se não tem headers, divide por separadores horizontais
-        const separatorSplit = document.split(SEPARATION_PATTERNS.horizontalRules).filter((chunk) => chunk.trim());
-
-        if (separatorSplit.length > 1) {
-            chunks = separatorSplit;
-        } else {
-            // 3. Fallback: divide por parágrafos (2+ quebras de linha)
-            chunks = document.split(SEPARATION_PATTERNS.paragraphs).filter((chunk) => chunk.trim());
-        }
-    }
-
-    // 4. Refina chunks muito grandes
-    const refinedChunks = refineChunks(chunks);
-
-    // 5. Remove chunks muito pequenos
-    return refinedChunks.filter((chunk) => chunk.trim().length > MIN_CHUNK_SIZE);
-}
-
-/**
- * Subdivide chunks que excedem o tamanho máximo
- *
- * @param chunks - Array de chunks para refinar
- * @returns Array de chunks refinados
- */
-function refineChunks(chunks: string[]): string[] {
-    const refinedChunks: string[] = [];
-
-    for (const chunk of chunks) {
-        if (chunk.length <= MAX_CHUNK_SIZE) {
-            refinedChunks.push(chunk);
-            continue;
-        }
-
-        // Tenta subdividir por parágrafos
-        const subChunks = chunk.split(SEPARATION_PATTERNS.paragraphs).filter((c) => c.trim());
-
-        if (subChunks.length > 1) {
-            refinedChunks.push(...subChunks);
-        } else {
-            // Último recurso: divide por sentenças
-            const sentenceChunks = splitBySentences(chunk);
-            refinedChunks.push(...sentenceChunks);
-        }
-    }
-
-    return refinedChunks;
-}
-
-/**
- * Divide um chunk por sentenças, agrupando para não exceder o tamanho máximo
- *
- * @param chunk - Chunk para dividir
- * @returns Array de chunks divididos por sentenças
- */
-function splitBySentences(chunk: string): string[] {
-    const sentences = chunk.split(SEPARATION_PATTERNS.sentences);
-    const result: string[] = [];
-    let currentChunk = "";
-
-    for (const sentence of sentences) {
-        const wouldExceed = (currentChunk + sentence).length > MAX_CHUNK_SIZE && currentChunk;
-
-        if (wouldExceed) {
-            result.push(currentChunk.trim());
-            currentChunk = sentence;
-        } else {
-            currentChunk += (currentChunk ? " " : "") + sentence;
-        }
-    }
-
-    if (currentChunk.trim()) {
-        result.push(currentChunk.trim());
-    }
-
-    return result;
-}
-
 /**
  * Extrai o contexto expandido de um chunk, incluindo chunks adjacentes
  *
  * @param chunks - Array completo de chunks
  * @param targetIndex - Índice do chunk alvo
+ * @param maxContextSize - Tamanho máximo do contexto expandido
  * @returns Contexto expandido com chunks adjacentes
  */
-export function getExpandedContext(chunks: string[], targetIndex: number): string {
+export function getExpandedContext(chunks: string[], targetIndex: number, maxContextSize = MAX_CONTEXT_SIZE): string {
     const targetChunk = chunks[targetIndex];
 
     // Verifica se o índice é válido
@@ -257,14 +262,14 @@ export function getExpandedContext(chunks: string[], targetIndex: number): strin
 
     // Tenta adicionar chunk anterior
     const prevChunk = chunks[targetIndex - 1];
-    if (prevChunk !== undefined && totalSize + prevChunk.length < MAX_CONTEXT_SIZE) {
+    if (prevChunk !== undefined && totalSize + prevChunk.length < maxContextSize) {
         result.unshift(prevChunk);
         totalSize += prevChunk.length;
     }
 
     // Tenta adicionar chunk posterior
     const nextChunk = chunks[targetIndex + 1];
-    if (nextChunk !== undefined && totalSize + nextChunk.length < MAX_CONTEXT_SIZE) {
+    if (nextChunk !== undefined && totalSize + nextChunk.length < maxContextSize) {
         result.push(nextChunk);
     }
 
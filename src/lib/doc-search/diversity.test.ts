@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { DocChunk } from "../../types/index.js";
+import { diversifyRanking } from "./diversity.js";
+import { getDocIndex } from "./doc-index.js";
+
+const CHUNKS = [
+    "GET /users/{id} returns the user with id, name and email",
+    "GET /users/{id} returns the user with id, name and email fields",
+    "GET /users/{id} returns the user with id, name, email and role",
+    "Rate limits apply to every token per minute",
+    "Webhooks notify your server about invoice events",
+];
+
+/**
+ * Chunks ordenados com as pontuações informadas, na ordem dos índices
+ */
+function ranked(scores: number[]): DocChunk[] {
+    return scores.map((score, index) => ({ content: CHUNKS[index] ?? "", index, score }));
+}
+
+describe("diversifyRanking", () => {
+    const index = getDocIndex(CHUNKS, "none");
+
+    it("sobe o chunk diferente acima das cópias do primeiro", () => {
+        const result = diversifyRanking(index, ranked([10, 9.5, 9, 8]), 3, 0.5);
+
+        assert.deepEqual(
+            result.map((chunk) => chunk.index),
+            [0, 3, 1, 2],
+        );
+    });
+
+    it("mantém a ordem original com lambda 1", () => {
+        const original = ranked([10, 9.5, 9, 8]);
+
+        assert.equal(diversifyRanking(index, original, 3, 1), original);
+    });
+
+    it("favorece a relevância com lambda alto", () => {
+        const result = diversifyRanking(index, ranked([10, 9.5, 9, 2]), 3, 0.9);
+
+        assert.deepEqual(
+            result.map((chunk) => chunk.index),
+            [0, 1, 2, 3],
+        );
+    });
+
+    it("mantém depois dos candidatos os chunks que ficaram de fora", () => {
+        // Com 1 resultado pedido, só os 5 primeiros são candidatos; o 6º continua no fim
+        const chunks = [...ranked([10, 9.5, 9, 8, 7]), { content: CHUNKS[0] ?? "", index: 0, score: 1 }];
+
+        const result = diversifyRanking(index, chunks, 1, 0.5);
+
+        assert.equal(result.length, 6);
+        assert.equal(result[5], chunks[5]);
+        assert.deepEqual(
+            result.slice(0, 2).map((chunk) => chunk.index),
+            [0, 3],
+        );
+    });
+
+    it("não reordena menos de três candidatos", () => {
+        const original = ranked([10, 9.5]);
+
+        assert.equal(diversifyRanking(index, original, 3, 0), original);
+    });
+});
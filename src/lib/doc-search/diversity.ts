@@ -0,0 +1,117 @@
+/**
+ * Diversidade dos resultados (Maximal Marginal Relevance)
+ * Reordena o topo do ranking penalizando chunks parecidos com os já escolhidos, para que operações
+ * quase idênticas (ex: vários "GET /x/{id}" com os mesmos parâmetros) não ocupem todos os resultados
+ */
+
+import type { DocIndex } from "./doc-index.js";
+import { getAnalyzer } from "./language.js";
+import type { DocChunk } from "../../types/index.js";
+
+/** Peso da relevância em relação à diversidade (1 = só relevância, 0 = só diversidade) */
+export const DEFAULT_DIVERSITY = 0.5;
+
+/** Candidatos considerados por resultado pedido */
+const CANDIDATES_PER_RESULT = 5;
+
+/** Máximo de candidatos reordenados (o custo cresce com o quadrado) */
+const MAX_CANDIDATES = 100;
+
+/**
+ * Frequência dos tokens de um chunk
+ */
+interface TermVector {
+    counts: Map<string, number>;
+    /** Norma euclidiana das frequências */
+    norm: number;
+}
+
+/**
+ * Reordena os chunks mais relevantes por MMR: a cada passo escolhe o que maximiza
+ * lambda * relevância - (1 - lambda) * maior similaridade com os já escolhidos
+ * A relevância é a pontuação dividida pela maior pontuação; a similaridade, o cosseno entre as frequências
+ * dos tokens dos chunks. Os chunks fora dos candidatos mantêm a ordem original, depois dos reordenados
+ *
+ * @param index - Índice do documento
+ * @param ranked - Chunks do mais para o menos relevante
+ * @param maxResults - Número de resultados que serão selecionados
+ * @param lambda - Peso da relevância (0-1; 1 mantém a ordem original)
+ */
+export function diversifyRanking(index: DocIndex, ranked: DocChunk[], maxResults: number, lambda: number): DocChunk[] {
+    const candidateCount = Math.min(ranked.length, maxResults * CANDIDATES_PER_RESULT, MAX_CANDIDATES);
+    if (lambda >= 1 || candidateCount < 3) {
+        return ranked;
+    }
+
+    const analyzer = getAnalyzer(index.language);
+    const topScore = Math.max(...ranked.slice(0, candidateCount).map((chunk) => chunk.score)) || 1;
+    const remaining = ranked.slice(0, candidateCount).map((chunk) => ({
+        chunk,
+        relevance: chunk.score / topScore,
+        vector: toTermVector(analyzer.analyze(index.chunks[chunk.index] ?? "")),
+        maxSimilarity: 0,
+    }));
+
+    const selected: DocChunk[] = [];
+
+    while (remaining.length > 0) {
+        let best = 0;
+        let bestValue = Number.NEGATIVE_INFINITY;
+
+        remaining.forEach((candidate, position) => {
+            const value = lambda * candidate.relevance - (1 - lambda) * candidate.maxSimilarity;
+            if (value > bestValue) {
+                best = position;
+                bestValue = value;
+            }
+        });
+
+        const [chosen] = remaining.splice(best, 1);
+        if (!chosen) break;
+        selected.push(chosen.chunk);
+
+        // Atualiza a maior similaridade de cada candidato com o novo escolhido
+        for (const candidate of remaining) {
+            candidate.maxSimilarity = Math.max(
+                candidate.maxSimilarity,
+                cosineSimilarity(candidate.vector, chosen.vector),
+            );
+        }
+    }
+
+    return [...selected, ...ranked.slice(candidateCount)];
+}
+
+/**
+ * Vetor de frequências de uma lista de tokens
+ */
+function toTermVector(tokens: string[]): TermVector {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    let sum = 0;
+    for (const count of counts.values()) {
+        sum += count * count;
+    }
+
+    return { counts, norm: Math.sqrt(sum) };
+}
+
+/**
+ * Cosseno entre dois vetores de frequência (0 quando algum é vazio)
+ */
+function cosineSimilarity(a: TermVector, b: TermVector): number {
+    if (a.norm === 0 || b.norm === 0) {
+        return 0;
+    }
+
+    const [smaller, larger] = a.counts.size <= b.counts.size ? [a, b] : [b, a];
+    let dot = 0;
+    for (const [token, count] of smaller.counts) {
+        dot += count * (larger.counts.get(token) ?? 0);
+    }
+
+    return dot / (a.norm * b.norm);
+}
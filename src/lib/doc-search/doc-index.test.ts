@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildDocIndex, explainChunkScore, getDocIndex, scoreChunks } from "./doc-index.js";
+import { searchInChunks } from "./index.js";
+import type { ScoreWeights } from "../../types/index.js";
+
+/** Pesos sem bônus, para conferir as somas à mão */
+const weights: ScoreWeights = {
+    exactMatch: 10,
+    wordMatch: 2,
+    partialMatch: 0.5,
+    fuzzyMatch: 1,
+    codeBonus: 1,
+    headerBonus: 1,
+};
+
+const chunks = ["Create a user account", "The users endpoint lists users", "Nothing here"];
+
+/**
+ * Pontuação de cada chunk com match, por índice
+ */
+function scoresByChunk(searchTerms: string[], scoreWeights = weights, documentChunks = chunks): Map<number, number> {
+    const scored = scoreChunks(buildDocIndex(documentChunks), searchTerms, scoreWeights);
+    return new Map(scored.map((chunk) => [chunk.index, chunk.score]));
+}
+
+describe("scoreChunks", () => {
+    it("soma frase, palavras exatas e prefixos de cada chunk", () => {
+        const scores = scoresByChunk(["user"]);
+
+        // frase (10) + palavra exata (2) + prefixo "user" (0.5)
+        assert.equal(scores.get(0), 12.5);
+        // frase dentro de "users" (10) + dois prefixos (0.5 cada)
+        assert.equal(scores.get(1), 11);
+        assert.equal(scores.has(2), false);
+    });
+
+    it("multiplica o peso da frase pelo número de palavras", () => {
+        const scores = scoresByChunk(["users endpoint"]);
+
+        // frase de 2 palavras (20) + "users" 2x (4 + 1) + "endpoint" (2 + 0.5)
+        assert.equal(scores.get(1), 27.5);
+        assert.equal(scores.has(0), false);
+    });
+
+    it("não encontra frases que atravessam dois chunks", () => {
+        const scores = scoresByChunk(["account the"]);
+
+        // Apenas as palavras: "account" no primeiro chunk, "the" no segundo
+        assert.equal(scores.get(0), 2.5);
+        assert.equal(scores.get(1), 2.5);
+    });
+
+    it("aplica os bônus de código e de header", () => {
+        const scores = scoresByChunk(["users"], { ...weights, codeBonus: 2, headerBonus: 3 }, [
+            "```js\nusers()\n```",
+            "users",
+            "## Users",
+        ]);
+
+        // O header fica por último: os chunks depois dele herdariam a seção
+        assert.equal(scores.get(0), 12.5 * 2);
+        assert.equal(scores.get(1), 12.5);
+        assert.equal(scores.get(2), 12.5 * 3);
+    });
+
+    it("ignora acentos e pontuação", () => {
+        const scores = scoresByChunk(["configuração"], weights, ["Veja a Configuração, abaixo."]);
+
+        assert.equal(scores.get(0), 12.5);
+    });
+});
+
+describe("buildDocIndex", () => {
+    it("indexa os headers herdados com a continuação da seção", () => {
+        const index = buildDocIndex(["# Webhooks\n\nIntro", "Retries happen every minute", "# Billing\n\nInvoices"]);
+
+        const scores = new Map(scoreChunks(index, ["webhooks"], weights).map((chunk) => [chunk.index, chunk.score]));
+
+        assert.ok(scores.has(1));
+        assert.equal(scores.has(2), false);
+        assert.deepEqual(index.hasHeader, [true, true, true]);
+        assert.equal(index.headingPostings.get("webhooks")?.get(1), 1);
+    });
+});
+
+describe("explainChunkScore", () => {
+    it("separa os pontos de cada termo por tipo de match", () => {
+        const explanation = explainChunkScore(buildDocIndex(chunks), ["users endpoint"], weights, new Map(), 1);
+
+        assert.deepEqual(explanation, {
+            terms: [{ term: "users endpoint", phrase: 20, exact: 6, partial: 1.5, fuzzy: 0 }],
+            multipliers: { phrase: 1, code: 1, header: 1 },
+            score: 27.5,
+        });
+    });
+
+    it("chega à mesma pontuação de scoreChunks com os bônus", () => {
+        const documentChunks = ["## Users", "```js\nusers()\n```", "users"];
+        const bonusWeights = { ...weights, codeBonus: 2, headerBonus: 3 };
+        const index = buildDocIndex(documentChunks);
+
+        for (const chunk of scoreChunks(index, ["users"], bonusWeights)) {
+            const explanation = explainChunkScore(index, ["users"], bonusWeights, new Map(), chunk.index);
+            assert.equal(explanation.score, chunk.score);
+        }
+        assert.deepEqual(explainChunkScore(index, ["users"], bonusWeights, new Map(), 0).multipliers, {
+            phrase: 1,
+            code: 1,
+            header: 3,
+        });
+    });
+});
+
+describe("searchInChunks (explain)", () => {
+    const documentChunks = ["# Tokens\n\ntoken token token", "token refresh", "Nada", "Outro token", "Nada", "token"];
+
+    it("lista os chunks que ficaram de fora com o motivo", async () => {
+        const result = await searchInChunks(documentChunks, "token", {
+            maxResults: 1,
+            explain: true,
+            language: "none",
+        });
+
+        assert.equal(result.hits[0]?.index, 0);
+        assert.equal(result.hits[0]?.explanation?.score, result.hits[0]?.score);
+        assert.deepEqual(
+            result.nearMisses?.map((miss) => [miss.index, miss.rank, miss.reason]),
+            [
+                [1, 2, "neighbor"],
+                [3, 3, "cutoff"],
+                [5, 4, "cutoff"],
+            ],
+        );
+        for (const miss of result.nearMisses ?? []) {
+            assert.equal(miss.explanation?.score, miss.score);
+        }
+    });
+
+    it("não detalha a pontuação sem explain nem no modo semantic", async () => {
+        const plain = await searchInChunks(documentChunks, "token", { maxResults: 1, language: "none" });
+        const semantic = await searchInChunks(documentChunks, "token", {
+            maxResults: 1,
+            explain: true,
+            language: "none",
+            mode: "semantic",
+        });
+
+        assert.equal(plain.hits[0]?.explanation, undefined);
+        assert.equal(plain.nearMisses, undefined);
+        assert.equal(semantic.hits[0]?.explanation, undefined);
+    });
+});
+
+describe("getDocIndex", () => {
+    it("reaproveita o índice enquanto o mesmo array de chunks for usado", () => {
+        const documentChunks = ["a", "b"];
+
+        assert.equal(getDocIndex(documentChunks), getDocIndex(documentChunks));
+        assert.notEqual(getDocIndex(documentChunks), getDocIndex([...documentChunks]));
+    });
+});
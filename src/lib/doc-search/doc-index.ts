@@ -0,0 +1,425 @@
+/**
+ * Índice invertido de um documento dividido em chunks
+ * Construído uma vez por versão do documento; as buscas consultam as postings em vez de
+ * percorrer o texto de cada chunk com expressões regulares
+ */
+
+import { type ChunkMetadata, extractChunkMetadata } from "./chunk-metadata.js";
+import { getAnalyzer, resolveLanguage } from "./language.js";
+import { SEPARATION_PATTERNS } from "./patterns.js";
+import { normalizeText } from "./scorer.js";
+import { extractIdentifierTokens, tokenizeText } from "./tokenizer.js";
+import type {
+    DocChunk,
+    DocLanguage,
+    LanguageSetting,
+    ScoreExplanation,
+    ScoreWeights,
+    TermContribution,
+} from "../../types/index.js";
+
+/**
+ * Índice de busca de um documento
+ */
+export interface DocIndex {
+    /** Chunks originais, na ordem do documento */
+    chunks: string[];
+    /** Idioma aplicado aos termos (null: sem stemming e sem stopwords) */
+    language: DocLanguage | null;
+    /** Texto normalizado de cada chunk (ver normalizeText) */
+    normalizedChunks: string[];
+    /** Textos normalizados unidos por "\n" (busca de frases com uma única varredura) */
+    corpus: string;
+    /** Posição de início de cada chunk no corpus */
+    offsets: number[];
+    /** Token (radical, sem stopwords) → (índice do chunk → frequência do token no chunk) */
+    postings: Map<string, Map<number, number>>;
+    /** Token → primeira palavra do documento que o originou (exibição de correções) */
+    surfaceForms: Map<string, string>;
+    /** Tokens distintos em ordem lexicográfica (busca por prefixo) */
+    vocabulary: string[];
+    /** Palavra do documento (antes do stemming) → token (correção de erros de digitação) */
+    wordTokens: Map<string, string>;
+    /** Número de tokens de cada chunk */
+    chunkLengths: number[];
+    /** Token → (índice do chunk → frequência do token nos headers do chunk) */
+    headingPostings: Map<string, Map<number, number>>;
+    /** Número de tokens nos headers de cada chunk */
+    headingLengths: number[];
+    /** Chunks que contêm código */
+    hasCode: boolean[];
+    /** Chunks com headers (próprios ou herdados da seção em que estão) */
+    hasHeader: boolean[];
+    /** Headers, endpoints, tags e linguagens de código de cada chunk (filtros da busca) */
+    metadata: ChunkMetadata[];
+}
+
+/** Índices já construídos, por array de chunks (um array por versão do documento) e idioma configurado */
+const indexCache = new WeakMap<string[], Map<LanguageSetting, DocIndex>>();
+
+/** Tokens de identificadores com estrutura: caminhos, nomes com hífen e códigos de status (ver tokenizeText) */
+const STRUCTURED_TOKEN = /[/:-]/;
+
+/**
+ * Retorna o índice de um array de chunks, construindo-o na primeira chamada
+ *
+ * @param chunks - Chunks do documento (o mesmo array reaproveita o índice)
+ * @param language - Idioma do documento ("auto" detecta pelo conteúdo)
+ */
+export function getDocIndex(chunks: string[], language: LanguageSetting = "auto"): DocIndex {
+    let indexes = indexCache.get(chunks);
+    if (!indexes) {
+        indexes = new Map();
+        indexCache.set(chunks, indexes);
+    }
+
+    let index = indexes.get(language);
+    if (!index) {
+        index = buildDocIndex(chunks, resolveLanguage(language, chunks));
+        indexes.set(language, index);
+    }
+
+    return index;
+}
+
+/**
+ * Constrói o índice invertido de um documento
+ *
+ * @param chunks - Chunks do documento
+ * @param language - Idioma dos termos (null: sem stemming e sem stopwords)
+ * @returns Índice com postings, vocabulário e texto normalizado
+ */
+export function buildDocIndex(chunks: string[], language: DocLanguage | null = null): DocIndex {
+    const analyzer = getAnalyzer(language);
+    const normalizedChunks: string[] = [];
+    const offsets: number[] = [];
+    const postings = new Map<string, Map<number, number>>();
+    const surfaceForms = new Map<string, string>();
+    const wordTokens = new Map<string, string>();
+    const chunkLengths: number[] = [];
+    const headingPostings = new Map<string, Map<number, number>>();
+    const headingLengths: number[] = [];
+    const metadata = extractChunkMetadata(chunks);
+    let offset = 0;
+
+    chunks.forEach((chunk, chunkIndex) => {
+        const { inheritedHeadings = [], chunkHeadings = [] } = metadata[chunkIndex] ?? {};
+
+        // Os headers herdados (ex: "API > Users" na continuação de uma seção) são indexados com o chunk
+        const indexedText = inheritedHeadings.length > 0 ? `${inheritedHeadings.join("\n")}\n${chunk}` : chunk;
+        const normalized = normalizeText(indexedText);
+        let tokenCount = 0;
+
+        normalizedChunks.push(normalized);
+        offsets.push(offset);
+        offset += normalized.length + 1;
+
+        const words = normalized ? normalized.split(" ") : [];
+
+        for (const word of [...words, ...extractIdentifierTokens(indexedText)]) {
+            const token = analyzer.analyzeWord(word);
+            if (token === null) continue;
+
+            addPosting(postings, token, chunkIndex);
+            if (!surfaceForms.has(token)) surfaceForms.set(token, word);
+            if (!wordTokens.has(word)) wordTokens.set(word, token);
+            tokenCount++;
+        }
+        chunkLengths.push(tokenCount);
+
+        // Tokens dos headers, próprios e herdados (campo com peso próprio no BM25F)
+        const headingTokens = [...inheritedHeadings, ...chunkHeadings].flatMap((heading) => analyzer.analyze(heading));
+
+        headingLengths.push(headingTokens.length);
+        for (const token of headingTokens) {
+            addPosting(headingPostings, token, chunkIndex);
+        }
+    });
+
+    return {
+        chunks,
+        language,
+        normalizedChunks,
+        corpus: normalizedChunks.join("\n"),
+        offsets,
+        postings,
+        surfaceForms,
+        vocabulary: [...postings.keys()].sort(),
+        wordTokens,
+        chunkLengths,
+        headingPostings,
+        headingLengths,
+        hasCode: chunks.map((chunk) => SEPARATION_PATTERNS.codeBlock.test(chunk)),
+        hasHeader: metadata.map((chunk) => chunk.headings.length > 0),
+        metadata,
+    };
+}
+
+/**
+ * Pontua os chunks do índice para os termos de busca, consultando apenas os chunks com algum match:
+ * frase completa (exactMatch por palavra), ocorrências de cada palavra (exatas, por prefixo e corrigidas)
+ * e os multiplicadores de código e header.
+ * Com idioma, as palavras de cada termo são comparadas pelo radical (as frases continuam literais).
+ * Partes de camelCase/snake_case do termo contam como palavras; caminhos, nomes com hífen e códigos de status,
+ * como a frase inteira (ver tokenizeText)
+ *
+ * @param index - Índice do documento
+ * @param searchTerms - Termos de busca (ver extractSearchTerms)
+ * @param weights - Pesos do cálculo
+ * @param corrections - Palavras sem match → termos corrigidos (pontuados com weights.fuzzyMatch)
+ * @returns Chunks com pontuação > 0, na ordem do documento
+ */
+export function scoreChunks(
+    index: DocIndex,
+    searchTerms: string[],
+    weights: ScoreWeights,
+    corrections: Map<string, string[]> = new Map(),
+): DocChunk[] {
+    const terms = resolveSearchTerms(index, searchTerms, weights, corrections);
+
+    // Candidatos: chunks com qualquer match
+    const candidates = new Set<number>();
+    for (const term of terms) {
+        for (const chunkIndex of term.phraseMatches) candidates.add(chunkIndex);
+        for (const word of term.words) {
+            for (const chunkIndex of word.prefix.keys()) candidates.add(chunkIndex);
+            for (const chunkIndex of word.fuzzy.keys()) candidates.add(chunkIndex);
+        }
+    }
+
+    const scored: DocChunk[] = [];
+
+    for (const chunkIndex of [...candidates].sort((a, b) => a - b)) {
+        let score = 0;
+
+        // Mesma ordem de soma de explainChunkScore (pontuações idênticas)
+        for (const term of terms) {
+            if (term.phraseMatches.has(chunkIndex)) {
+                score += weights.exactMatch * term.wordCount;
+            }
+
+            let wordScore = 0;
+            for (const word of term.words) {
+                const exactCount = word.exact?.get(chunkIndex);
+                if (exactCount) {
+                    wordScore += exactCount * word.weight;
+                }
+
+                const prefixCount = word.prefix.get(chunkIndex);
+                if (prefixCount) {
+                    wordScore += prefixCount * weights.partialMatch;
+                }
+
+                const fuzzyCount = word.fuzzy.get(chunkIndex);
+                if (fuzzyCount) {
+                    wordScore += fuzzyCount * weights.fuzzyMatch;
+                }
+            }
+            score += wordScore;
+        }
+
+        if (index.hasCode[chunkIndex]) {
+            score *= weights.codeBonus;
+        }
+        if (index.hasHeader[chunkIndex]) {
+            score *= weights.headerBonus;
+        }
+
+        if (score > 0) {
+            scored.push({ content: index.chunks[chunkIndex] as string, index: chunkIndex, score });
+        }
+    }
+
+    return scored;
+}
+
+/**
+ * Detalha a pontuação de um chunk em scoreChunks: pontos de cada termo por tipo de match e multiplicadores
+ *
+ * @param index - Índice do documento
+ * @param searchTerms - Termos de busca (ver extractSearchTerms)
+ * @param weights - Pesos do cálculo
+ * @param corrections - Palavras sem match → termos corrigidos
+ * @param chunkIndex - Índice do chunk
+ */
+export function explainChunkScore(
+    index: DocIndex,
+    searchTerms: string[],
+    weights: ScoreWeights,
+    corrections: Map<string, string[]>,
+    chunkIndex: number,
+): ScoreExplanation {
+    const terms = resolveSearchTerms(index, searchTerms, weights, corrections).map((term): TermContribution => {
+        const contribution = {
+            term: term.term,
+            phrase: term.phraseMatches.has(chunkIndex) ? weights.exactMatch * term.wordCount : 0,
+            exact: 0,
+            partial: 0,
+            fuzzy: 0,
+        };
+
+        for (const word of term.words) {
+            contribution.exact += (word.exact?.get(chunkIndex) ?? 0) * word.weight;
+            contribution.partial += (word.prefix.get(chunkIndex) ?? 0) * weights.partialMatch;
+            contribution.fuzzy += (word.fuzzy.get(chunkIndex) ?? 0) * weights.fuzzyMatch;
+        }
+
+        return contribution;
+    });
+
+    const multipliers = {
+        phrase: 1,
+        code: index.hasCode[chunkIndex] ? weights.codeBonus : 1,
+        header: index.hasHeader[chunkIndex] ? weights.headerBonus : 1,
+    };
+    const baseScore = terms.reduce((sum, term) => sum + term.phrase + term.exact + term.partial + term.fuzzy, 0);
+
+    return { terms, multipliers, score: baseScore * multipliers.code * multipliers.header };
+}
+
+/**
+ * Resolve cada termo uma única vez: chunks com a frase e contagens de cada palavra
+ */
+function resolveSearchTerms(
+    index: DocIndex,
+    searchTerms: string[],
+    weights: ScoreWeights,
+    corrections: Map<string, string[]>,
+) {
+    const analyzer = getAnalyzer(index.language);
+
+    return searchTerms
+        .map((term) => ({ term, normalizedTerm: normalizeText(term) }))
+        .filter(({ normalizedTerm }) => normalizedTerm.length > 0)
+        .map(({ term, normalizedTerm }) => ({
+            term,
+            wordCount: normalizedTerm.split(" ").length,
+            phraseMatches: findChunksContaining(index, normalizedTerm),
+            words: tokenizeText(term)
+                .filter((word) => word.length >= 2)
+                .map((word) => analyzer.analyzeWord(word))
+                .filter((word): word is string => word !== null)
+                .map((word) => ({
+                    weight: STRUCTURED_TOKEN.test(word) ? weights.exactMatch : weights.wordMatch,
+                    exact: index.postings.get(word),
+                    prefix: countPrefixMatches(index, word),
+                    fuzzy: countCorrectionMatches(index, corrections.get(word)),
+                })),
+        }));
+}
+
+/**
+ * Incrementa a frequência de um token em um chunk
+ */
+function addPosting(postings: Map<string, Map<number, number>>, token: string, chunkIndex: number): void {
+    let posting = postings.get(token);
+    if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+    }
+    posting.set(chunkIndex, (posting.get(chunkIndex) ?? 0) + 1);
+}
+
+/**
+ * Encontra os chunks cujo texto normalizado contém o texto (em qualquer posição)
+ *
+ * @param index - Índice do documento
+ * @param text - Texto já normalizado
+ */
+export function findChunksContaining(index: DocIndex, text: string): Set<number> {
+    const found = new Set<number>();
+    let position = index.corpus.indexOf(text);
+
+    while (position !== -1) {
+        const chunkIndex = findChunkAt(index, position);
+        found.add(chunkIndex);
+
+        // Continua a partir do próximo chunk
+        const nextOffset = index.offsets[chunkIndex + 1];
+        if (nextOffset === undefined) break;
+        position = index.corpus.indexOf(text, nextOffset);
+    }
+
+    return found;
+}
+
+/**
+ * Índice do chunk que contém a posição do corpus (busca binária nos offsets)
+ */
+function findChunkAt(index: DocIndex, position: number): number {
+    let low = 0;
+    let high = index.offsets.length - 1;
+
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if ((index.offsets[mid] as number) <= position) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return low;
+}
+
+/**
+ * Conta, por chunk, os tokens que começam com o prefixo
+ */
+function countPrefixMatches(index: DocIndex, prefix: string): Map<number, number> {
+    const counts = new Map<number, number>();
+
+    for (let i = lowerBound(index.vocabulary, prefix); i < index.vocabulary.length; i++) {
+        const token = index.vocabulary[i] as string;
+        if (!token.startsWith(prefix)) break;
+
+        for (const [chunkIndex, frequency] of index.postings.get(token) ?? []) {
+            counts.set(chunkIndex, (counts.get(chunkIndex) ?? 0) + frequency);
+        }
+    }
+
+    return counts;
+}
+
+/**
+ * Conta, por chunk, as ocorrências dos termos corrigidos de uma palavra
+ */
+function countCorrectionMatches(index: DocIndex, replacements: string[] = []): Map<number, number> {
+    const counts = new Map<number, number>();
+
+    for (const token of replacements) {
+        for (const [chunkIndex, frequency] of index.postings.get(token) ?? []) {
+            counts.set(chunkIndex, (counts.get(chunkIndex) ?? 0) + frequency);
+        }
+    }
+
+    return counts;
+}
+
+/**
+ * Verifica se algum token do documento começa com o prefixo
+ *
+ * @param index - Índice do documento
+ * @param prefix - Prefixo já normalizado
+ */
+export function hasTokenWithPrefix(index: DocIndex, prefix: string): boolean {
+    return index.vocabulary[lowerBound(index.vocabulary, prefix)]?.startsWith(prefix) ?? false;
+}
+
+/**
+ * Primeira posição do array ordenado cujo valor é >= ao buscado
+ */
+function lowerBound(sorted: string[], value: string): number {
+    let low = 0;
+    let high = sorted.length;
+
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if ((sorted[mid] as string) < value) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+
+    return low;
+}
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildDocIndex } from "./doc-index.js";
+import { findCorrections } from "./fuzzy.js";
+import { searchInDocs } from "./index.js";
+
+/** Documentação em inglês (detectada pelo idioma "auto", com stemming) */
+const DOCUMENT = `# Pagination
+
+Pagination splits large result sets into pages. Use the cursor returned by the API to request the next page.
+
+# Authentication
+
+Send the access token in the Authorization header. Tokens expire after one hour and must be refreshed.
+
+# Rate limits
+
+Requests above the limit are rejected with status 429. Wait for the time given in the Retry-After header.
+`;
+
+const index = buildDocIndex(DOCUMENT.split("\n\n"));
+
+describe("findCorrections", () => {
+    it("corrige inserções, remoções, substituições e trocas de letras", () => {
+        const corrections = findCorrections(index, "paginaton autentication hedaer requezts");
+
+        assert.deepEqual(Object.fromEntries(corrections), {
+            paginaton: ["pagination"],
+            autentication: ["authentication"],
+            hedaer: ["header"],
+            requezts: ["requests"],
+        });
+    });
+
+    it("aceita duas edições apenas em palavras longas", () => {
+        assert.deepEqual(Object.fromEntries(findCorrections(index, "autentcation")), {
+            autentcation: ["authentication"],
+        });
+        assert.equal(findCorrections(index, "tokkenz").size, 0);
+    });
+
+    it("não corrige palavras do documento, prefixos nem palavras curtas", () => {
+        assert.equal(findCorrections(index, "pagination paginat tkn").size, 0);
+    });
+
+    it("prefere o termo mais frequente entre os de mesma distância", () => {
+        const tieIndex = buildDocIndex(["cart card card"]);
+
+        assert.deepEqual(findCorrections(tieIndex, "carx").get("carx"), ["card", "cart"]);
+    });
+});
+
+describe("searchInDocs (correções)", () => {
+    it("encontra o trecho da palavra corrigida e informa a correção", async () => {
+        const result = await searchInDocs(DOCUMENT, "expirre");
+
+        assert.deepEqual(result.corrections, [{ term: "expirre", replacements: ["expire"] }]);
+        assert.match(result.hits[0]?.content ?? "", /Tokens expire/);
+    });
+
+    it("corrige palavras cujo radical fica longe do radical da palavra correta", async () => {
+        const result = await searchInDocs(DOCUMENT, "paginaton");
+
+        assert.deepEqual(result.corrections, [{ term: "paginaton", replacements: ["pagination"] }]);
+        assert.match(result.hits[0]?.content ?? "", /Pagination splits/);
+    });
+
+    it("não corrige palavras que aparecem no documento", async () => {
+        const result = await searchInDocs(DOCUMENT, "pagination");
+
+        assert.deepEqual(result.corrections, []);
+    });
+});
@@ -0,0 +1,213 @@
+/**
+ * Correção de termos com erros de digitação
+ * Palavras da busca sem nenhum match no documento são comparadas às palavras do documento
+ * por distância de edição limitada (inserção, remoção, substituição e troca de letras vizinhas)
+ */
+
+import { type DocIndex, hasTokenWithPrefix } from "./doc-index.js";
+import { getAnalyzer } from "./language.js";
+import { normalizeText } from "./scorer.js";
+import type { TermCorrection } from "../../types/index.js";
+
+/** Tamanho mínimo de uma palavra para ser corrigida (palavras curtas geram correções demais) */
+const MIN_FUZZY_LENGTH = 4;
+
+/** Máximo de correções por palavra */
+const MAX_CORRECTIONS = 3;
+
+/**
+ * Palavra do documento próxima da palavra digitada e o token (radical) dela no índice
+ */
+interface SimilarWord {
+    word: string;
+    token: string;
+}
+
+/** Correções já calculadas, por índice e palavra */
+const correctionCache = new WeakMap<DocIndex, Map<string, SimilarWord[]>>();
+
+/**
+ * Encontra correções para as palavras da busca que não aparecem no documento
+ * Palavras com match exato ou por prefixo não são corrigidas.
+ * A comparação é feita entre as palavras antes do stemming ("paginaton" → "pagination"):
+ * o radical de uma palavra com erro de digitação pode ficar longe do radical da palavra correta
+ *
+ * @param index - Índice do documento
+ * @param query - Busca do usuário
+ * @returns Token da busca (radical, se o índice tiver idioma) → tokens do vocabulário mais próximos
+ */
+export function findCorrections(index: DocIndex, query: string): Map<string, string[]> {
+    const corrections = new Map<string, string[]>();
+    const analyzer = getAnalyzer(index.language);
+
+    // Apenas palavras: tokens de identificadores não são corrigidos
+    for (const word of new Set(normalizeText(query).split(" "))) {
+        const token = analyzer.analyzeWord(word);
+        if (
+            token === null ||
+            corrections.has(token) ||
+            word.length < MIN_FUZZY_LENGTH ||
+            index.postings.has(token) ||
+            hasTokenWithPrefix(index, token)
+        ) {
+            continue;
+        }
+
+        const similar = findSimilarWords(index, word).map((match) => match.token);
+        if (similar.length > 0) {
+            corrections.set(token, similar);
+        }
+    }
+
+    return corrections;
+}
+
+/**
+ * Converte as correções para o formato do resultado da busca
+ * As substituições são exibidas como as palavras do documento encontradas por findCorrections
+ *
+ * @param index - Índice do documento
+ * @param query - Busca do usuário
+ * @param corrections - Saída de findCorrections
+ */
+export function toTermCorrections(
+    index: DocIndex,
+    query: string,
+    corrections: Map<string, string[]>,
+): TermCorrection[] {
+    const analyzer = getAnalyzer(index.language);
+    const result = new Map<string, TermCorrection>();
+
+    for (const word of normalizeText(query).split(" ")) {
+        const token = analyzer.analyzeWord(word);
+        const replacements = token === null ? undefined : corrections.get(token);
+
+        if (replacements && !result.has(word)) {
+            const similar = findSimilarWords(index, word).filter((match) => replacements.includes(match.token));
+            result.set(word, {
+                term: word,
+                replacements:
+                    similar.length > 0
+                        ? similar.map((match) => match.word)
+                        : replacements.map((replacement) => index.surfaceForms.get(replacement) ?? replacement),
+            });
+        }
+    }
+
+    return [...result.values()];
+}
+
+/**
+ * Distância máxima aceita para uma palavra: 1 edição até 7 letras, 2 a partir de 8
+ */
+function maxEditDistance(word: string): number {
+    return word.length >= 8 ? 2 : 1;
+}
+
+/**
+ * Palavras do documento à menor distância da palavra digitada (dentro do limite), uma por token
+ */
+function findSimilarWords(index: DocIndex, word: string): SimilarWord[] {
+    let cache = correctionCache.get(index);
+    if (!cache) {
+        cache = new Map();
+        correctionCache.set(index, cache);
+    }
+
+    const cached = cache.get(word);
+    if (cached) {
+        return cached;
+    }
+
+    const maxDistance = maxEditDistance(word);
+    let bestDistance = maxDistance + 1;
+    let best = new Map<string, SimilarWord & { frequency: number }>();
+
+    for (const [candidate, token] of index.wordTokens) {
+        if (Math.abs(candidate.length - word.length) > maxDistance || candidate.length < MIN_FUZZY_LENGTH) continue;
+
+        const distance = editDistance(word, candidate, Math.min(maxDistance, bestDistance));
+        if (distance > maxDistance || distance > bestDistance) continue;
+
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = new Map();
+        }
+        if (!best.has(token)) {
+            best.set(token, {
+                word: candidate,
+                token,
+                frequency: countOccurrences(index, token),
+            });
+        }
+    }
+
+    // Entre palavras à mesma distância, as de tokens mais frequentes no documento primeiro
+    const similar = [...best.values()]
+        .sort((a, b) => b.frequency - a.frequency || a.word.localeCompare(b.word))
+        .slice(0, MAX_CORRECTIONS)
+        .map(({ word, token }) => ({ word, token }));
+
+    cache.set(word, similar);
+    return similar;
+}
+
+/**
+ * Número de ocorrências de um token no documento
+ */
+function countOccurrences(index: DocIndex, token: string): number {
+    let total = 0;
+    for (const frequency of index.postings.get(token)?.values() ?? []) {
+        total += frequency;
+    }
+    return total;
+}
+
+/**
+ * Distância de edição (Damerau-Levenshtein restrita) com limite
+ * Retorna limit + 1 assim que a distância ultrapassa o limite
+ *
+ * @param a - Primeira palavra
+ * @param b - Segunda palavra
+ * @param limit - Maior distância de interesse
+ */
+function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) {
+        return limit + 1;
+    }
+
+    // Três linhas da matriz: duas anteriores (para trocas) e a atual
+    let beforePrevious = new Array<number>(b.length + 1).fill(0);
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    let current = new Array<number>(b.length + 1).fill(0);
+
+    for (let i = 1; i <= a.length; i++) {
+        current[0] = i;
+        let rowMinimum = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let distance = Math.min(
+                (previous[j] as number) + 1,
+                (current[j - 1] as number) + 1,
+                (previous[j - 1] as number) + cost,
+            );
+
+            // Troca de letras vizinhas ("teh" → "the")
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                distance = Math.min(distance, (beforePrevious[j - 2] as number) + 1);
+            }
+
+            current[j] = distance;
+            rowMinimum = Math.min(rowMinimum, distance);
+        }
+
+        if (rowMinimum > limit) {
+            return limit + 1;
+        }
+
+        [beforePrevious, previous, current] = [previous, current, beforePrevious];
+    }
+
+    return Math.min(previous[b.length] as number, limit + 1);
+}
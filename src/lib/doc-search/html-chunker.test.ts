@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { extractChunkMetadata } from "./chunk-metadata.js";
+import { splitHtmlIntoChunks } from "./html-chunker.js";
+
+describe("splitHtmlIntoChunks", () => {
+    it("converte os headers em linhas Markdown e leva o caminho às continuações", () => {
+        const html = [
+            "<h1>API</h1><h2>Users</h2><h3>Create user</h3>",
+            `<p>${"Send the new account fields in the body. ".repeat(3)}</p>`,
+            "<h3>Delete user</h3><p>Removes the account permanently from the system.</p>",
+        ].join("");
+
+        const chunks = splitHtmlIntoChunks(html, { maxChunkSize: 150, minChunkSize: 10 });
+
+        assert.match(chunks[0] ?? "", /^# API\n\n## Users\n\n### Create user\n\nSend/);
+        assert.deepEqual(
+            extractChunkMetadata(chunks).map((chunk) => chunk.breadcrumb),
+            [["API"], ["API", "Users", "Create user"], ["API", "Users", "Delete user"]],
+        );
+    });
+
+    it("divide tabelas grandes em grupos de linhas, repetindo o header", () => {
+        const rows = Array.from(
+            { length: 12 },
+            (_, i) => `<tr><td>${4000 + i}</td><td>Error message number ${i}</td></tr>`,
+        ).join("");
+        const html = `<h1>Errors</h1><table><thead><tr><th>Code</th><th>Message</th></tr></thead><tbody>${rows}</tbody></table>`;
+
+        const chunks = splitHtmlIntoChunks(html, { maxChunkSize: 200, minChunkSize: 10 });
+
+        assert.equal(chunks.length, 3);
+        assert.match(chunks[0] ?? "", /^# Errors\n\n\| Code \| Message \|\n\| --- \| --- \|\n\| 4000 \|/);
+        for (const chunk of chunks.slice(1)) {
+            assert.match(chunk, /^\| Code \| Message \|\n\| --- \| --- \|\n/);
+            assert.ok(chunk.length <= 200, `${chunk.length} > 200`);
+        }
+        assert.match(chunks[2] ?? "", /\| 4011 \| Error message number 11 \|$/);
+        assert.deepEqual(extractChunkMetadata(chunks)[2]?.breadcrumb, ["Errors"]);
+    });
+});
@@ -1,257 +1,79 @@
 /**
  * Módulo de chunking para documentação HTML
- * Extrai texto estruturado de HTML e divide em chunks semânticos
+ * Converte o HTML em Markdown pela árvore do documento (ver html-dom e html-markdown)
+ * e divide em chunks semânticos, um header por seção
  */
 
-import { HTML_PATTERNS, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, SEPARATION_PATTERNS } from "./patterns.js";
+import type { SplitLimits } from "./chunker.js";
+import { extractMainContent } from "./html-content.js";
+import { parseHtml } from "./html-dom.js";
+import { domToMarkdown } from "./html-markdown.js";
+import { splitMarkdownIntoChunks } from "./markdown-chunker.js";
+import { CHUNK_STRATEGIES, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, SEPARATION_PATTERNS } from "./patterns.js";
+import type { ChunkingOptions, ChunkStrategy } from "../../types/index.js";
 
 /**
- * Representa uma seção extraída do HTML
+ * Dados da página usados na conversão do HTML
  */
-interface HtmlSection {
-    /** Tipo da seção (header, paragraph, list, code, etc) */
-    type: "header" | "paragraph" | "list" | "code" | "text";
-    /** Conteúdo de texto da seção */
-    content: string;
-    /** Nível do header (1-6) se for header */
-    level?: number;
-}
+export type HtmlPageOptions = Pick<ChunkingOptions, "baseUrl" | "contentSelector">;
+
+/** Cerca de bloco de código (```), como gerada por domToMarkdown */
+const FENCE_LINE = /^ *(`{3,}|~{3,})/m;
+
+/** Linha de tabela GFM, como gerada por domToMarkdown */
+const TABLE_ROW = /^\|.*\|$/;
+
+/** Separador entre o header e as linhas de uma tabela GFM ("| --- | --- |") */
+const TABLE_DELIMITER = /^\|(?: *:?-+:? *\|)+$/;
 
 /**
  * Divide documento HTML em chunks de texto
- * Extrai conteúdo semântico removendo tags e scripts
+ * Extrai o conteúdo principal (sem menus, cabeçalho e rodapé do site), ignorando scripts, estilos e metadados;
+ * seções pequenas são agrupadas
+ * Das estratégias, usa headers (seções por h1-h6) e a ordem entre paragraphs e sentences (seções grandes)
  *
  * @param htmlDocument - Documento HTML completo
+ * @param limits - Tamanhos máximo e mínimo dos chunks (em caracteres) e estratégias de divisão
+ * @param page - URL do documento (links relativos viram absolutos) e seletor do conteúdo principal
  * @returns Array de chunks de texto extraídos
+ * @throws {SelectorParseError} Se o seletor do conteúdo for inválido
  */
-export function splitHtmlIntoChunks(htmlDocument: string): string[] {
-    // 1. Limpa o HTML (remove scripts, styles, comentários)
-    const cleanedHtml = cleanHtml(htmlDocument);
-
-    // 2. Extrai seções semânticas
-    const sections = extractSections(cleanedHtml);
+export function splitHtmlIntoChunks(
+    htmlDocument: string,
+    limits: SplitLimits = { maxChunkSize: MAX_CHUNK_SIZE, minChunkSize: MIN_CHUNK_SIZE },
+    page: HtmlPageOptions = {},
+): string[] {
+    const strategies = limits.strategies ?? CHUNK_STRATEGIES;
+
+    // 1. Converte o conteúdo principal em Markdown (headers, listas, código, links e listas de definição)
+    const markdown = htmlToSimpleMarkdown(htmlDocument, page);
+
+    // 2. Separa as seções: cada header inicia uma (headers dentro de blocos de código não contam)
+    const sections = strategies.includes("headers")
+        ? splitMarkdownIntoChunks(markdown, {
+              maxChunkSize: Number.POSITIVE_INFINITY,
+              minChunkSize: 0,
+              strategies: ["headers"],
+          }).map((section) => section.trim())
+        : [markdown];
 
     // 3. Agrupa seções em chunks respeitando tamanho máximo
-    const chunks = groupSectionsIntoChunks(sections);
+    const chunks = groupSectionsIntoChunks(sections, limits.maxChunkSize, strategies);
 
     // 4. Remove chunks muito pequenos
-    return chunks.filter((chunk) => chunk.trim().length > MIN_CHUNK_SIZE);
-}
-
-/**
- * Remove elementos indesejados do HTML (scripts, styles, comentários)
- */
-function cleanHtml(html: string): string {
-    let cleaned = html;
-
-    // Remove scripts e styles
-    cleaned = cleaned.replace(HTML_PATTERNS.scriptStyleTags, "");
-
-    // Remove comentários HTML
-    cleaned = cleaned.replace(HTML_PATTERNS.htmlComments, "");
-
-    return cleaned;
-}
-
-/**
- * Extrai seções semânticas do HTML limpo
- */
-function extractSections(html: string): HtmlSection[] {
-    const sections: HtmlSection[] = [];
-
-    // Estratégia: processar o HTML sequencialmente, identificando elementos semânticos
-
-    // Primeiro, vamos identificar e extrair headers com seu conteúdo
-    const headerChunks = extractHeaderSections(html);
-
-    if (headerChunks.length > 1) {
-        // Se encontrou headers, usa como base para chunks
-        for (const chunk of headerChunks) {
-            const extracted = extractTextContent(chunk);
-            if (extracted.trim()) {
-                sections.push({
-                    type: "text",
-                    content: extracted,
-                });
-            }
-        }
-    } else {
-        // Fallback: extrai por elementos semânticos
-        const semanticSections = extractSemanticElements(html);
-        sections.push(...semanticSections);
-    }
-
-    return sections;
-}
-
-/**
- * Extrai seções baseadas em headers HTML (h1-h6)
- * Similar ao chunking por headers markdown
- */
-function extractHeaderSections(html: string): string[] {
-    // Padrão para dividir por headers mantendo o header com o conteúdo
-    const headerSplitPattern = /(?=<h[1-6][^>]*>)/gi;
-
-    const chunks = html.split(headerSplitPattern).filter((chunk) => chunk.trim());
-
-    return chunks;
-}
-
-/**
- * Extrai elementos semânticos do HTML
- */
-function extractSemanticElements(html: string): HtmlSection[] {
-    const sections: HtmlSection[] = [];
-    let remainingHtml = html;
-
-    // Extrai blocos de código primeiro (preserva formatação)
-    const codePattern = /<(pre|code)[^>]*>([\s\S]*?)<\/\1>/gi;
-    let codeMatch: RegExpExecArray | null = null;
-
-    // biome-ignore lint/suspicious/noAssignInExpressions: Necessário para regex exec loop
-    while ((codeMatch = codePattern.exec(html)) !== null) {
-        const rawContent = codeMatch[2];
-        if (rawContent) {
-            const codeContent = decodeHtmlEntities(stripTags(rawContent));
-            if (codeContent.trim()) {
-                sections.push({
-                    type: "code",
-                    content: `\`\`\`\n${codeContent.trim()}\n\`\`\``,
-                });
-            }
-        }
-    }
-
-    // Remove código do HTML para processar o resto
-    remainingHtml = remainingHtml.replace(codePattern, "");
-
-    // Extrai parágrafos
-    const paragraphPattern = /<p[^>]*>([\s\S]*?)<\/p>/gi;
-    let paraMatch: RegExpExecArray | null = null;
-
-    // biome-ignore lint/suspicious/noAssignInExpressions: Necessário para regex exec loop
-    while ((paraMatch = paragraphPattern.exec(remainingHtml)) !== null) {
-        const rawContent = paraMatch[1];
-        if (rawContent) {
-            const text = extractTextContent(rawContent);
-            if (text.trim()) {
-                sections.push({
-                    type: "paragraph",
-                    content: text.trim(),
-                });
-            }
-        }
-    }
-
-    // Se não encontrou parágrafos, extrai texto geral
-    if (sections.length === 0) {
-        const generalText = extractTextContent(remainingHtml);
-        if (generalText.trim()) {
-            sections.push({
-                type: "text",
-                content: generalText.trim(),
-            });
-        }
-    }
-
-    return sections;
-}
-
-/**
- * Extrai texto puro de um fragmento HTML
- * Remove todas as tags e decodifica entidades
- */
-function extractTextContent(html: string): string {
-    let text = html;
-
-    // Adiciona quebras de linha após tags de bloco
-    text = text.replace(HTML_PATTERNS.blockTags, "\n");
-
-    // Adiciona quebras de linha após <br>
-    text = text.replace(/<br\s*\/?>/gi, "\n");
-
-    // Remove todas as tags HTML
-    text = text.replace(HTML_PATTERNS.allTags, "");
-
-    // Decodifica entidades HTML
-    text = decodeHtmlEntities(text);
-
-    // Normaliza espaços em branco
-    text = normalizeWhitespace(text);
-
-    return text;
-}
-
-/**
- * Remove todas as tags HTML de uma string
- */
-function stripTags(html: string): string {
-    return html.replace(HTML_PATTERNS.allTags, "");
-}
-
-/**
- * Decodifica entidades HTML comuns
- */
-function decodeHtmlEntities(text: string): string {
-    const entities: Record<string, string> = {
-        nbsp: " ",
-        amp: "&",
-        lt: "<",
-        gt: ">",
-        quot: '"',
-        apos: "'",
-    };
-
-    return text.replace(HTML_PATTERNS.htmlEntities, (match, entity: string) => {
-        // Entidades nomeadas
-        const lowerEntity = entity.toLowerCase();
-        if (entities[lowerEntity]) {
-            return entities[lowerEntity];
-        }
-
-        // Entidades numéricas decimais
-        if (entity.startsWith("#") && !entity.startsWith("#x")) {
-            const code = Number.parseInt(entity.slice(1), 10);
-            return String.fromCharCode(code);
-        }
-
-        // Entidades numéricas hexadecimais
-        if (entity.startsWith("#x")) {
-            const code = Number.parseInt(entity.slice(2), 16);
-            return String.fromCharCode(code);
-        }
-
-        return match;
-    });
-}
-
-/**
- * Normaliza espaços em branco
- * - Converte múltiplos espaços em um
- * - Converte múltiplas quebras de linha em duas
- * - Remove espaços no início/fim de linhas
- */
-function normalizeWhitespace(text: string): string {
-    return text
-        .replace(/[ \t]+/g, " ") // Múltiplos espaços -> um espaço
-        .replace(/\n\s*\n/g, "\n\n") // Normaliza quebras de linha
-        .replace(/^\s+|\s+$/gm, "") // Trim de cada linha
-        .replace(/\n{3,}/g, "\n\n") // Máximo 2 quebras de linha
-        .trim();
+    return chunks.filter((chunk) => chunk.trim().length > limits.minChunkSize);
 }
 
 /**
  * Agrupa seções em chunks respeitando tamanho máximo
  */
-function groupSectionsIntoChunks(sections: HtmlSection[]): string[] {
+function groupSectionsIntoChunks(sections: string[], maxChunkSize: number, strategies: ChunkStrategy[]): string[] {
     const chunks: string[] = [];
     let currentChunk = "";
 
-    for (const section of sections) {
-        const content = section.content;
-
+    for (const content of sections) {
         // Se a seção sozinha excede o tamanho máximo, subdivide
-        if (content.length > MAX_CHUNK_SIZE) {
+        if (content.length > maxChunkSize) {
             // Salva chunk atual se existir
             if (currentChunk.trim()) {
                 chunks.push(currentChunk.trim());
@@ -259,14 +81,14 @@ function groupSectionsIntoChunks(sections: HtmlSection[]): string[] {
             }
 
             // Subdivide seção grande
-            const subChunks = subdivideContent(content);
+            const subChunks = subdivideContent(content, maxChunkSize, strategies);
             chunks.push(...subChunks);
             continue;
         }
 
         // Verifica se adicionar ao chunk atual excederia o tamanho
         const separator = currentChunk ? "\n\n" : "";
-        const wouldExceed = (currentChunk + separator + content).length > MAX_CHUNK_SIZE;
+        const wouldExceed = (currentChunk + separator + content).length > maxChunkSize;
 
         if (wouldExceed && currentChunk.trim()) {
             chunks.push(currentChunk.trim());
@@ -286,32 +108,69 @@ function groupSectionsIntoChunks(sections: HtmlSection[]): string[] {
 
 /**
  * Subdivide conteúdo grande em chunks menores
- * Usa estratégia similar ao chunker markdown
+ * Usa estratégia similar ao chunker markdown: a primeira das estratégias paragraphs e sentences que divide o conteúdo
+ * Tabelas maiores que o chunk são divididas em grupos de linhas, cada um com o header da tabela
+ * (também quando nenhuma das estratégias divide o conteúdo)
  */
-function subdivideContent(content: string): string[] {
-    // Primeiro tenta dividir por parágrafos
-    const paragraphs = content.split(SEPARATION_PATTERNS.paragraphs).filter((p) => p.trim());
+function subdivideContent(content: string, maxChunkSize: number, strategies: ChunkStrategy[]): string[] {
+    const hasTable = content.split("\n").some(isTableRow);
+
+    for (const strategy of strategies) {
+        if (strategy === "paragraphs") {
+            const paragraphs = splitBlocks(content, maxChunkSize);
+            if (paragraphs.length > 1) {
+                // Reagrupa parágrafos em chunks de tamanho adequado (mantendo as quebras, para o header ficar na própria linha)
+                return groupTextIntoChunks(paragraphs, maxChunkSize, "\n\n");
+            }
+        }
+
+        // Blocos de código e tabelas não são divididos por sentenças
+        if (strategy === "sentences" && !FENCE_LINE.test(content) && !hasTable) {
+            const sentences = content.split(SEPARATION_PATTERNS.sentences).filter((s) => s.trim());
+            if (sentences.length > 1) {
+                return groupTextIntoChunks(sentences, maxChunkSize);
+            }
+        }
+    }
 
-    if (paragraphs.length > 1) {
-        // Reagrupa parágrafos em chunks de tamanho adequado
-        return groupTextIntoChunks(paragraphs);
+    if (hasTable) {
+        const blocks = splitBlocks(content, maxChunkSize);
+        if (blocks.length > 1) {
+            return groupTextIntoChunks(blocks, maxChunkSize, "\n\n");
+        }
     }
 
-    // Fallback: divide por sentenças
-    const sentences = content.split(SEPARATION_PATTERNS.sentences).filter((s) => s.trim());
-    return groupTextIntoChunks(sentences);
+    return [content];
+}
+
+/**
+ * Divide o conteúdo em parágrafos, com as tabelas grandes em grupos de linhas
+ * Os headers do início ficam com o primeiro parágrafo
+ */
+function splitBlocks(content: string, maxChunkSize: number): string[] {
+    const paragraphs = splitParagraphs(content).flatMap((paragraph) => splitTableRows(paragraph, maxChunkSize));
+
+    let headings = 0;
+    while (headings < paragraphs.length - 1 && /^#{1,6} /.test(paragraphs[headings] as string)) {
+        headings++;
+    }
+    if (headings > 0) {
+        paragraphs.unshift(paragraphs.splice(0, headings + 1).join("\n\n"));
+    }
+
+    return paragraphs;
 }
 
 /**
  * Agrupa array de textos em chunks de tamanho adequado
  */
-function groupTextIntoChunks(texts: string[]): string[] {
+function groupTextIntoChunks(texts: string[], maxChunkSize: number, joiner = " "): string[] {
     const chunks: string[] = [];
     let currentChunk = "";
 
     for (const text of texts) {
-        const separator = currentChunk ? " " : "";
-        const wouldExceed = (currentChunk + separator + text).length > MAX_CHUNK_SIZE && currentChunk;
+        const separator = currentChunk ? joiner : "";
+        const wouldExceed = (currentChunk + separator + text).length > maxChunkSize && currentChunk;
 
         if (wouldExceed) {
             chunks.push(currentChunk.trim());
@@ -329,54 +188,77 @@ function groupTextIntoChunks(texts: string[]): string[] {
 }
 
 /**
- * Converte HTML para Markdown simplificado
- * Útil para preservar estrutura semântica
- *
- * @param html - Fragmento HTML
- * @returns Texto com formatação Markdown básica
+ * Divide o texto em parágrafos (linhas em branco), sem separar as linhas de um bloco de código
  */
-export function htmlToSimpleMarkdown(html: string): string {
-    let markdown = html;
-
-    // Limpa primeiro
-    markdown = cleanHtml(markdown);
-
-    // Converte headers
-    markdown = markdown.replace(/<h1[^>]*>([\s\S]*?)<\/h1>/gi, "\n# $1\n");
-    markdown = markdown.replace(/<h2[^>]*>([\s\S]*?)<\/h2>/gi, "\n## $1\n");
-    markdown = markdown.replace(/<h3[^>]*>([\s\S]*?)<\/h3>/gi, "\n### $1\n");
-    markdown = markdown.replace(/<h4[^>]*>([\s\S]*?)<\/h4>/gi, "\n#### $1\n");
-    markdown = markdown.replace(/<h5[^>]*>([\s\S]*?)<\/h5>/gi, "\n##### $1\n");
-    markdown = markdown.replace(/<h6[^>]*>([\s\S]*?)<\/h6>/gi, "\n###### $1\n");
-
-    // Converte ênfase
-    markdown = markdown.replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**");
-    markdown = markdown.replace(/<(em|i)[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*");
+function splitParagraphs(content: string): string[] {
+    const paragraphs: string[] = [];
+    let current: string[] = [];
+    let fence: string | null = null;
+
+    for (const line of content.split("\n")) {
+        const marker = FENCE_LINE.exec(line)?.[1];
+        if (marker && (fence === null || (marker[0] === fence[0] && marker.length >= fence.length))) {
+            fence = fence === null ? marker : null;
+        }
 
-    // Converte código
-    markdown = markdown.replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, "`$1`");
-    markdown = markdown.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, "\n```\n$1\n```\n");
+        if (!line.trim() && fence === null) {
+            if (current.length > 0) paragraphs.push(current.join("\n"));
+            current = [];
+        } else {
+            current.push(line);
+        }
+    }
+    if (current.length > 0) paragraphs.push(current.join("\n"));
 
-    // Converte listas
-    markdown = markdown.replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, "- $1\n");
-    markdown = markdown.replace(/<\/?[uo]l[^>]*>/gi, "\n");
+    return paragraphs;
+}
 
-    // Converte links
-    markdown = markdown.replace(/<a[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)");
+/**
+ * Divide uma tabela GFM maior que o chunk em grupos de linhas; cada grupo repete o header e o separador
+ * Outros parágrafos (e tabelas que cabem no chunk) são mantidos
+ */
+function splitTableRows(paragraph: string, maxChunkSize: number): string[] {
+    const lines = paragraph.split("\n");
+    if (paragraph.length <= maxChunkSize || !TABLE_DELIMITER.test(lines[1] ?? "") || !lines.every(isTableRow)) {
+        return [paragraph];
+    }
 
-    // Converte parágrafos e quebras
-    markdown = markdown.replace(/<p[^>]*>([\s\S]*?)<\/p>/gi, "\n$1\n");
-    markdown = markdown.replace(/<br\s*\/?>/gi, "\n");
-    markdown = markdown.replace(/<hr\s*\/?>/gi, "\n---\n");
+    const header = lines.slice(0, 2).join("\n");
+    const groups: string[] = [];
+    let rows: string[] = [];
+    let size = header.length;
 
-    // Remove tags restantes
-    markdown = markdown.replace(HTML_PATTERNS.allTags, "");
+    for (const row of lines.slice(2)) {
+        if (rows.length > 0 && size + 1 + row.length > maxChunkSize) {
+            groups.push([header, ...rows].join("\n"));
+            rows = [];
+            size = header.length;
+        }
+        rows.push(row);
+        size += 1 + row.length;
+    }
+    if (rows.length > 0) groups.push([header, ...rows].join("\n"));
 
-    // Decodifica entidades
-    markdown = decodeHtmlEntities(markdown);
+    return groups;
+}
 
-    // Normaliza espaços
-    markdown = normalizeWhitespace(markdown);
+/**
+ * Verifica se a linha é uma linha de tabela GFM
+ */
+function isTableRow(line: string): boolean {
+    return TABLE_ROW.test(line);
+}
 
-    return markdown;
+/**
+ * Converte o conteúdo principal do HTML para Markdown simplificado
+ * Útil para preservar estrutura semântica
+ *
+ * @param html - Documento ou fragmento HTML
+ * @param page - URL do documento (links relativos viram absolutos) e seletor do conteúdo principal
+ * @returns Texto com formatação Markdown básica
+ * @throws {SelectorParseError} Se o seletor do conteúdo for inválido
+ */
+export function htmlToSimpleMarkdown(html: string, page: HtmlPageOptions = {}): string {
+    const content = extractMainContent(parseHtml(html), page.contentSelector);
+    return domToMarkdown(content, page.baseUrl);
 }
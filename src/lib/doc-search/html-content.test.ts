@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { extractMainContent } from "./html-content.js";
+import { parseHtml } from "./html-dom.js";
+import { domToMarkdown } from "./html-markdown.js";
+import { SelectorParseError } from "./html-selector.js";
+
+/**
+ * Parágrafo com texto corrido suficiente para pontuar como conteúdo
+ */
+function paragraph(text: string): string {
+    return `<p>${text}, with details, examples, and notes about the behavior of the API in production.</p>`;
+}
+
+const PAGE = [
+    '<html><body><header><nav><a href="/">Home</a><a href="/docs">Docs</a></nav></header>',
+    '<div class="sidebar"><ul><li><a href="/a">Auth</a></li><li><a href="/b">Billing</a></li></ul></div>',
+    `<div id="content"><h1>Users</h1>${paragraph("Users are created")}${paragraph("Users can be listed")}</div>`,
+    '<div id="cookie-banner">We use cookies, accept them.</div><footer>Copyright 2024</footer></body></html>',
+].join("\n");
+
+/**
+ * Markdown do conteúdo principal de uma página
+ */
+function mainContent(html: string, contentSelector?: string): string {
+    return domToMarkdown(extractMainContent(parseHtml(html), contentSelector));
+}
+
+describe("extractMainContent", () => {
+    it("remove menus, barra lateral, banner de cookies e rodapé", () => {
+        const markdown = mainContent(PAGE);
+
+        assert.match(markdown, /^# Users\n\nUsers are created/);
+        assert.match(markdown, /Users can be listed/);
+        assert.doesNotMatch(markdown, /Home|Billing|cookies|Copyright/);
+    });
+
+    it("usa o <main> e mantém o header e o aside do conteúdo", () => {
+        const markdown = mainContent(
+            `<body><nav>Menu</nav><main><header><h1>Title</h1></header>${paragraph("Main text")}` +
+                "<aside>Note inside</aside></main><footer>Foot</footer></body>",
+        );
+
+        assert.match(markdown, /^# Title\n\nMain text.*\n\nNote inside$/);
+        assert.doesNotMatch(markdown, /Menu|Foot/);
+    });
+
+    it("usa o seletor da fonte e ignora seletores sem correspondência", () => {
+        assert.equal(mainContent(PAGE, "#content h1, .missing"), "# Users");
+        assert.equal(mainContent(PAGE, ".missing"), mainContent(PAGE));
+    });
+
+    it("recusa seletores inválidos", () => {
+        assert.throws(() => extractMainContent(parseHtml(PAGE), "div["), SelectorParseError);
+    });
+});
@@ -0,0 +1,309 @@
+/**
+ * Extração do conteúdo principal de páginas HTML
+ * Remove a navegação, o cabeçalho, o rodapé e os banners que o site repete em todas as páginas,
+ * para que os menus não sejam indexados junto com a documentação
+ */
+
+import type { HtmlElement, HtmlNode } from "./html-dom.js";
+import { parseSelector, selectAll } from "./html-selector.js";
+
+/** Moldura do site, removida fora do conteúdo principal */
+const CHROME_ELEMENTS = new Set(["nav", "header", "footer", "aside"]);
+
+/** Moldura removida também dentro do conteúdo (<header> e <aside> de um artigo são título e notas) */
+const CONTENT_CHROME_ELEMENTS = new Set(["nav", "footer"]);
+
+/** Papéis ARIA da moldura do site, removidos fora do conteúdo principal */
+const CHROME_ROLES = new Set(["navigation", "search", "banner", "contentinfo", "complementary"]);
+
+/** Papéis ARIA removidos também dentro do conteúdo */
+const CONTENT_CHROME_ROLES = new Set(["navigation", "search"]);
+
+/** Banners de cookies e consentimento (pelo id ou pela classe) */
+const CONSENT_BANNER = /(?:^|[\s_-])(?:cookies?|consent|gdpr)(?:$|[\s_-])/i;
+
+/** Ids e classes típicos de conteúdo */
+const POSITIVE_HINTS = /article|body|content|doc|entry|main|markdown|post|prose|text/i;
+
+/** Ids e classes típicos de menus e barras laterais */
+const NEGATIVE_HINTS = /banner|breadcrumb|comment|footer|menu|nav|related|share|sidebar|social|toc/i;
+
+/** Elementos cujo texto pontua o elemento pai (e, com peso menor, os ancestrais seguintes) */
+const SCORED_ELEMENTS = new Set(["p", "pre", "blockquote", "dd", "td"]);
+
+/** Texto mínimo de um parágrafo para pontuar */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/** Quantos ancestrais de um parágrafo recebem a pontuação dele */
+const SCORED_ANCESTORS = 3;
+
+/** Fração mínima do texto da página que o conteúdo principal precisa ter (abaixo disso, a página inteira é usada) */
+const MIN_CONTENT_SHARE = 0.25;
+
+/** Fração de texto em links acima da qual um bloco com classe de menu é removido */
+const MAX_MENU_LINK_DENSITY = 0.5;
+
+/** Corpo da página */
+const BODY = parseSelector("body");
+
+/** Landmarks do conteúdo principal */
+const MAIN_LANDMARKS = parseSelector("main, [role=main]");
+
+/** Artigos (usados quando a página não tem <main>) */
+const ARTICLES = parseSelector("article");
+
+/**
+ * Texto de um elemento, contado sem espaços repetidos
+ */
+interface TextStats {
+    /** Tamanho do texto */
+    text: number;
+    /** Tamanho do texto dentro de links */
+    links: number;
+}
+
+/**
+ * Conteúdo principal da página, sem a moldura do site
+ * Ordem de escolha: o seletor da fonte, os landmarks (<main>, role="main" ou <article>) e, sem eles,
+ * o bloco com mais texto corrido e menos links (pontuação como a do Readability).
+ * Um seletor sem correspondência (ou sem texto) na página, ou um landmark com pouco texto, passa para a etapa seguinte
+ *
+ * @param root - Raiz do documento (ver parseHtml)
+ * @param contentSelector - Seletor CSS do conteúdo (ex: "article.docs, #content")
+ * @returns Raiz com o conteúdo principal
+ * @throws {SelectorParseError} Se o seletor for inválido
+ */
+export function extractMainContent(root: HtmlElement, contentSelector?: string): HtmlElement {
+    const stats = measureText(root);
+    const contentLength = (elements: HtmlElement[]) =>
+        elements.reduce((total, element) => total + visibleLength(element, true, stats), 0);
+
+    if (contentSelector) {
+        const selected = selectAll(root, parseSelector(contentSelector));
+        if (contentLength(selected) > 0) {
+            return createRoot(selected.map((element) => removeChrome(element, true, stats)));
+        }
+    }
+
+    const body = selectAll(root, BODY)[0] ?? root;
+    const pageLength = visibleLength(body, false, stats);
+
+    // Landmarks: <main> (ou role="main"); na falta dele, os <article> da página
+    const landmarks = selectAll(root, MAIN_LANDMARKS);
+    const candidates = landmarks.length > 0 ? landmarks : selectAll(root, ARTICLES);
+    const length = contentLength(candidates);
+    if (length > 0 && length >= pageLength * MIN_CONTENT_SHARE) {
+        return createRoot(candidates.map((element) => removeChrome(element, true, stats)));
+    }
+
+    // Página sem texto fora da moldura (ex: só uma lista de links com classe de menu): mantém o documento inteiro
+    if (pageLength === 0) {
+        return root;
+    }
+
+    const page = removeChrome(body, false, stats);
+    return findContentByScore(page) ?? createRoot(page.children);
+}
+
+/**
+ * Cópia do elemento sem a moldura do site
+ * Dentro do conteúdo principal (<main>, <article>) o <header> e o <aside> são mantidos
+ */
+function removeChrome(element: HtmlElement, inContent: boolean, stats: Map<HtmlElement, TextStats>): HtmlElement {
+    const children: HtmlNode[] = [];
+
+    for (const child of element.children) {
+        if (child.type === "text") {
+            children.push(child);
+        } else if (!isChrome(child, inContent, stats)) {
+            children.push(removeChrome(child, inContent || isContentLandmark(child), stats));
+        }
+    }
+
+    return { ...element, children };
+}
+
+/**
+ * Tamanho do texto do elemento sem a moldura do site (o que sobra em removeChrome)
+ */
+function visibleLength(element: HtmlElement, inContent: boolean, stats: Map<HtmlElement, TextStats>): number {
+    let length = stats.get(element)?.text ?? 0;
+
+    // Desconta o texto removido de cada filho
+    for (const child of element.children) {
+        if (child.type === "text") continue;
+
+        const visible = isChrome(child, inContent, stats)
+            ? 0
+            : visibleLength(child, inContent || isContentLandmark(child), stats);
+        length -= (stats.get(child)?.text ?? 0) - visible;
+    }
+
+    return length;
+}
+
+/**
+ * Verifica se o elemento é moldura do site: navegação, cabeçalho, rodapé, banner de cookies
+ * ou bloco de links com classe de menu
+ */
+function isChrome(element: HtmlElement, inContent: boolean, stats: Map<HtmlElement, TextStats>): boolean {
+    const { id, class: className, role } = element.attributes;
+    if (
+        (inContent ? CONTENT_CHROME_ELEMENTS : CHROME_ELEMENTS).has(element.tag) ||
+        (role !== undefined && (inContent ? CONTENT_CHROME_ROLES : CHROME_ROLES).has(role.toLowerCase()))
+    ) {
+        return true;
+    }
+    if (id === undefined && className === undefined) {
+        return false;
+    }
+
+    const names = `${id ?? ""} ${className ?? ""}`;
+    const elementStats = stats.get(element);
+    return (
+        CONSENT_BANNER.test(names) ||
+        (NEGATIVE_HINTS.test(names) && elementStats !== undefined && linkDensity(elementStats) > MAX_MENU_LINK_DENSITY)
+    );
+}
+
+/**
+ * Verifica se o elemento inicia o conteúdo principal (<main>, <article>, role="main")
+ */
+function isContentLandmark(element: HtmlElement): boolean {
+    return element.tag === "main" || element.tag === "article" || element.attributes.role?.toLowerCase() === "main";
+}
+
+/**
+ * Bloco de maior pontuação, com os irmãos que também parecem conteúdo (seções vizinhas, headers, texto sem links)
+ * Retorna null se a página não tiver parágrafos
+ */
+function findContentByScore(page: HtmlElement): HtmlElement | null {
+    const stats = measureText(page);
+    const scores = new Map<HtmlElement, number>();
+    const parents = new Map<HtmlElement, HtmlElement>();
+
+    // Cada parágrafo pontua o pai e, com peso menor, os ancestrais seguintes
+    const ancestors: HtmlElement[] = [];
+    const visit = (element: HtmlElement) => {
+        ancestors.push(element);
+
+        for (const child of element.children) {
+            if (child.type !== "element") continue;
+            parents.set(child, element);
+
+            const length = stats.get(child)?.text ?? 0;
+            if (SCORED_ELEMENTS.has(child.tag) && length >= MIN_PARAGRAPH_LENGTH) {
+                const score = 1 + countCommas(child) + Math.min(Math.floor(length / 100), 3);
+                ancestors.slice(-SCORED_ANCESTORS).forEach((ancestor, index, scored) => {
+                    const level = scored.length - 1 - index;
+                    scores.set(ancestor, (scores.get(ancestor) ?? 0) + score / (level + 1));
+                });
+            }
+
+            visit(child);
+        }
+
+        ancestors.pop();
+    };
+    visit(page);
+
+    const finalScore = (element: HtmlElement) => {
+        const score = scores.get(element);
+        const elementStats = stats.get(element);
+        if (score === undefined || !elementStats) {
+            return 0;
+        }
+        const names = `${element.attributes.id ?? ""} ${element.attributes.class ?? ""}`;
+        const hints = (POSITIVE_HINTS.test(names) ? 25 : 0) - (NEGATIVE_HINTS.test(names) ? 25 : 0);
+        return (score + hints) * (1 - linkDensity(elementStats));
+    };
+
+    let best: HtmlElement | undefined;
+    let bestScore = 0;
+    for (const element of scores.keys()) {
+        const score = finalScore(element);
+        if (score > bestScore) {
+            best = element;
+            bestScore = score;
+        }
+    }
+
+    if (!best) {
+        return null;
+    }
+    const parent = parents.get(best);
+    if (!parent) {
+        return createRoot(best.children);
+    }
+
+    // Irmãos do melhor bloco que também são conteúdo
+    const threshold = Math.max(10, bestScore * 0.2);
+    const content = parent.children.filter((sibling) => {
+        if (sibling === best) return true;
+        if (sibling.type === "text") return sibling.text.trim().length > 80;
+        if (/^h[1-6]$/.test(sibling.tag)) return true;
+
+        const siblingStats = stats.get(sibling);
+        if (siblingStats && siblingStats.text > 80 && linkDensity(siblingStats) < 0.25) {
+            return true;
+        }
+        return finalScore(sibling) >= threshold;
+    });
+
+    return createRoot(content);
+}
+
+/**
+ * Mede o texto de todos os elementos da árvore
+ */
+function measureText(root: HtmlElement): Map<HtmlElement, TextStats> {
+    const stats = new Map<HtmlElement, TextStats>();
+
+    const visit = (element: HtmlElement, inLink: boolean): TextStats => {
+        const total: TextStats = { text: 0, links: 0 };
+        const isLink = inLink || element.tag === "a";
+
+        for (const child of element.children) {
+            if (child.type === "text") {
+                const length = child.text.replace(/\s+/g, " ").trim().length;
+                total.text += length;
+                if (isLink) total.links += length;
+            } else {
+                const childStats = visit(child, isLink);
+                total.text += childStats.text;
+                total.links += childStats.links;
+            }
+        }
+
+        stats.set(element, total);
+        return total;
+    };
+
+    visit(root, false);
+    return stats;
+}
+
+/**
+ * Fração do texto que está dentro de links
+ */
+function linkDensity({ text, links }: TextStats): number {
+    return text > 0 ? links / text : 0;
+}
+
+/**
+ * Vírgulas no texto de um elemento (texto corrido tem mais vírgulas que menus)
+ */
+function countCommas(element: HtmlElement): number {
+    let count = 0;
+    for (const child of element.children) {
+        count += child.type === "text" ? (child.text.match(/,/g)?.length ?? 0) : countCommas(child);
+    }
+    return count;
+}
+
+/**
+ * Raiz de documento com os elementos informados
+ */
+function createRoot(children: HtmlNode[]): HtmlElement {
+    return { type: "element", tag: "#document", attributes: {}, children };
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { decodeHtmlEntities, getTextContent, type HtmlNode, parseHtml } from "./html-dom.js";
+
+/** Árvore simplificada: texto, ou [tag, atributos, ...filhos] */
+type Tree = string | [string, Record<string, string>, ...Tree[]];
+
+/**
+ * Representação compacta de um nó, para comparar árvores inteiras
+ */
+function toTree(node: HtmlNode): Tree {
+    return node.type === "text" ? node.text : [node.tag, node.attributes, ...node.children.map(toTree)];
+}
+
+describe("parseHtml", () => {
+    it("fecha implicitamente itens de lista e parágrafos", () => {
+        assert.deepEqual(toTree(parseHtml("<ul><li>one<li>two</ul><p>a<p>b")), [
+            "#document",
+            {},
+            ["ul", {}, ["li", {}, "one"], ["li", {}, "two"]],
+            ["p", {}, "a"],
+            ["p", {}, "b"],
+        ]);
+    });
+
+    it("lê atributos com > entre aspas, sem aspas e elementos vazios", () => {
+        assert.deepEqual(toTree(parseHtml("<a href=\"x?a>b\" title='t'>link</a><br><img src=i.png>after")), [
+            "#document",
+            {},
+            ["a", { href: "x?a>b", title: "t" }, "link"],
+            ["br", {}],
+            ["img", { src: "i.png" }],
+            "after",
+        ]);
+    });
+
+    it("mantém o conteúdo de <script> como texto bruto", () => {
+        assert.deepEqual(toTree(parseHtml('<script>if (a < b) { "</p>" }</script><p>text')), [
+            "#document",
+            {},
+            ["script", {}, 'if (a < b) { "</p>" }'],
+            ["p", {}, "text"],
+        ]);
+    });
+
+    it("fecha as tags abertas e ignora fechamentos sem abertura", () => {
+        assert.deepEqual(toTree(parseHtml("<div><span>open</div>rest</b>")), [
+            "#document",
+            {},
+            ["div", {}, ["span", {}, "open"]],
+            "rest",
+        ]);
+    });
+});
+
+describe("getTextContent", () => {
+    it("preserva os espaços do texto", () => {
+        assert.equal(getTextContent(parseHtml("<pre>  line 1\n  <b>line</b> 2</pre>")), "  line 1\n  line 2");
+    });
+});
+
+describe("decodeHtmlEntities", () => {
+    it("decodifica entidades nomeadas, decimais e hexadecimais", () => {
+        assert.equal(decodeHtmlEntities("&lt;b&gt; &amp; &#233; &#x41; &unknown;"), "<b> & é A &unknown;");
+        assert.equal(decodeHtmlEntities("a&nbsp;b"), "a b");
+    });
+});
@@ -0,0 +1,392 @@
+/**
+ * Parser HTML tolerante
+ * Monta a árvore do documento como um navegador faria nos casos comuns de páginas de documentação:
+ * atributos com ">" entre aspas, tags não fechadas, fechamentos implícitos (<p>, <li>, <dd>, <tr>, ...),
+ * elementos vazios (<br>, <img>) e conteúdo bruto de <script> e <style>. Os espaços do texto são preservados (<pre>)
+ */
+
+/**
+ * Elemento HTML
+ */
+export interface HtmlElement {
+    type: "element";
+    /** Nome da tag em minúsculas ("#document" na raiz) */
+    tag: string;
+    /** Atributos (nomes em minúsculas, entidades decodificadas) */
+    attributes: Record<string, string>;
+    children: HtmlNode[];
+}
+
+/**
+ * Texto entre tags (entidades decodificadas, espaços preservados)
+ */
+export interface HtmlText {
+    type: "text";
+    text: string;
+}
+
+/**
+ * Nó da árvore do documento
+ */
+export type HtmlNode = HtmlElement | HtmlText;
+
+/** Elementos sem conteúdo nem tag de fechamento */
+const VOID_ELEMENTS = new Set([
+    "area",
+    "base",
+    "br",
+    "col",
+    "embed",
+    "hr",
+    "img",
+    "input",
+    "link",
+    "meta",
+    "param",
+    "source",
+    "track",
+    "wbr",
+]);
+
+/** Elementos cujo conteúdo é texto bruto, até a tag de fechamento */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "noscript", "textarea", "title", "xmp", "iframe"]);
+
+/** Elementos que fecham um <p> aberto */
+const CLOSES_PARAGRAPH = new Set([
+    "address",
+    "article",
+    "aside",
+    "blockquote",
+    "details",
+    "div",
+    "dl",
+    "fieldset",
+    "figcaption",
+    "figure",
+    "footer",
+    "form",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "header",
+    "hgroup",
+    "hr",
+    "main",
+    "menu",
+    "nav",
+    "ol",
+    "p",
+    "pre",
+    "section",
+    "table",
+    "ul",
+]);
+
+/** Elementos que limitam a busca por um <p> aberto (um <p> fora da tabela não é fechado por ela) */
+const PARAGRAPH_SCOPE = ["table", "td", "th", "caption", "button", "template", "object"];
+
+/**
+ * Fechamentos implícitos: ao abrir a tag, fecha o elemento aberto mais próximo com um destes nomes,
+ * desde que não haja antes um dos limites (ex: <li> fecha o <li> anterior da mesma lista)
+ */
+const IMPLIED_END: Record<string, { closes: string[]; until: string[] }> = {
+    li: { closes: ["li"], until: ["ul", "ol"] },
+    dt: { closes: ["dt", "dd"], until: ["dl"] },
+    dd: { closes: ["dt", "dd"], until: ["dl"] },
+    tr: { closes: ["tr"], until: ["table", "thead", "tbody", "tfoot"] },
+    td: { closes: ["td", "th"], until: ["tr", "table"] },
+    th: { closes: ["td", "th"], until: ["tr", "table"] },
+    thead: { closes: ["thead", "tbody", "tfoot"], until: ["table"] },
+    tbody: { closes: ["thead", "tbody", "tfoot"], until: ["table"] },
+    tfoot: { closes: ["thead", "tbody", "tfoot"], until: ["table"] },
+    option: { closes: ["option"], until: ["select", "datalist"] },
+    a: { closes: ["a"], until: [] },
+};
+
+/** Início de uma tag de abertura (nome) */
+const START_TAG = /<([a-zA-Z][^\s/>]*)/y;
+
+/** Tag de fechamento */
+const END_TAG = /<\/([a-zA-Z][^\s/>]*)[^>]*>?/y;
+
+/** Atributo, com valor entre aspas (pode conter ">"), sem aspas ou ausente */
+const ATTRIBUTE = /[\s/]*([^\s"'>/=][^\s"'>/=]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]*)))?/y;
+
+/** Fim de uma tag de abertura ("/>" em elementos vazios) */
+const TAG_END = /\s*(\/?)>/y;
+
+/** Entidades nomeadas comuns em documentação */
+const NAMED_ENTITIES: Record<string, string> = {
+    nbsp: " ",
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    copy: "©",
+    reg: "®",
+    trade: "™",
+    hellip: "…",
+    mdash: "—",
+    ndash: "–",
+    lsquo: "‘",
+    rsquo: "’",
+    ldquo: "“",
+    rdquo: "”",
+    laquo: "«",
+    raquo: "»",
+    bull: "•",
+    middot: "·",
+    times: "×",
+    rarr: "→",
+    larr: "←",
+    harr: "↔",
+    uarr: "↑",
+    darr: "↓",
+};
+
+/** Referência de entidade (nomeada, decimal ou hexadecimal) */
+const ENTITY = /&(#\d+|#x[\da-f]+|[a-z][a-z\d]*);/gi;
+
+/**
+ * Monta a árvore de um documento HTML
+ * Nunca falha: marcação inválida é corrigida ou tratada como texto, e tags abertas no fim são fechadas
+ *
+ * @param html - Documento ou fragmento HTML
+ * @returns Raiz do documento (tag "#document")
+ */
+export function parseHtml(html: string): HtmlElement {
+    const root: HtmlElement = { type: "element", tag: "#document", attributes: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+    let position = 0;
+    let text = "";
+
+    const current = () => stack[stack.length - 1] as HtmlElement;
+    const flushText = () => {
+        if (text) {
+            appendText(current(), decodeHtmlEntities(text));
+            text = "";
+        }
+    };
+
+    while (position < html.length) {
+        const next = html.indexOf("<", position);
+        if (next === -1) {
+            text += html.slice(position);
+            break;
+        }
+
+        text += html.slice(position, next);
+        position = next;
+
+        // Comentários, doctype e instruções de processamento são ignorados; CDATA vira texto
+        if (html.startsWith("<!--", position)) {
+            const end = html.indexOf("-->", position + 4);
+            position = end === -1 ? html.length : end + 3;
+            continue;
+        }
+        if (html.startsWith("<![CDATA[", position)) {
+            const end = html.indexOf("]]>", position + 9);
+            flushText();
+            appendText(current(), html.slice(position + 9, end === -1 ? html.length : end));
+            position = end === -1 ? html.length : end + 3;
+            continue;
+        }
+        if (html.startsWith("<!", position) || html.startsWith("<?", position)) {
+            const end = html.indexOf(">", position + 2);
+            position = end === -1 ? html.length : end + 1;
+            continue;
+        }
+
+        END_TAG.lastIndex = position;
+        const endTag = END_TAG.exec(html);
+        if (endTag) {
+            flushText();
+            closeElement(stack, (endTag[1] as string).toLowerCase());
+            position = END_TAG.lastIndex;
+            continue;
+        }
+
+        const startTag = readStartTag(html, position);
+        if (!startTag) {
+            // "<" que não inicia uma tag (ex: "a < b")
+            text += "<";
+            position++;
+            continue;
+        }
+
+        flushText();
+        position = startTag.end;
+        const { tag, attributes } = startTag;
+        const element: HtmlElement = { type: "element", tag, attributes, children: [] };
+
+        openImpliedEnds(stack, tag);
+        current().children.push(element);
+
+        if (VOID_ELEMENTS.has(tag) || startTag.selfClosing) {
+            continue;
+        }
+
+        if (RAW_TEXT_ELEMENTS.has(tag)) {
+            // Conteúdo bruto até a tag de fechamento (ou até o fim do documento)
+            const closing = new RegExp(`</${tag}(?=[\\s/>]|$)[^>]*>?`, "gi");
+            closing.lastIndex = position;
+            const match = closing.exec(html);
+            const end = match ? match.index : html.length;
+            const content = html.slice(position, end);
+            appendText(element, tag === "textarea" || tag === "title" ? decodeHtmlEntities(content) : content);
+            position = match ? closing.lastIndex : html.length;
+            continue;
+        }
+
+        stack.push(element);
+    }
+
+    flushText();
+    return root;
+}
+
+/**
+ * Texto de um nó e de todos os descendentes, como aparece no documento (espaços preservados)
+ *
+ * @param node - Nó da árvore
+ */
+export function getTextContent(node: HtmlNode): string {
+    if (node.type === "text") {
+        return node.text;
+    }
+    if (node.tag === "br") {
+        return "\n";
+    }
+    return node.children.map(getTextContent).join("");
+}
+
+/**
+ * Decodifica as referências de entidades HTML (nomeadas comuns, decimais e hexadecimais)
+ *
+ * @param text - Texto com entidades
+ */
+export function decodeHtmlEntities(text: string): string {
+    if (!text.includes("&")) {
+        return text;
+    }
+
+    return text.replace(ENTITY, (match, entity: string) => {
+        if (entity.startsWith("#")) {
+            const hex = entity[1] === "x" || entity[1] === "X";
+            const code = Number.parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Lê uma tag de abertura a partir de "<"
+ * Atributos malformados são ignorados; uma tag sem ">" vai até o fim do documento
+ */
+function readStartTag(
+    html: string,
+    position: number,
+): { tag: string; attributes: Record<string, string>; selfClosing: boolean; end: number } | null {
+    START_TAG.lastIndex = position;
+    const name = START_TAG.exec(html);
+    if (!name) {
+        return null;
+    }
+
+    const attributes: Record<string, string> = {};
+    let index = START_TAG.lastIndex;
+
+    while (index < html.length) {
+        TAG_END.lastIndex = index;
+        const end = TAG_END.exec(html);
+        if (end) {
+            return {
+                tag: (name[1] as string).toLowerCase(),
+                attributes,
+                selfClosing: end[1] === "/",
+                end: TAG_END.lastIndex,
+            };
+        }
+
+        ATTRIBUTE.lastIndex = index;
+        const attribute = ATTRIBUTE.exec(html);
+        if (attribute) {
+            const key = (attribute[1] as string).toLowerCase();
+            if (!(key in attributes)) {
+                attributes[key] = decodeHtmlEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+            }
+            index = ATTRIBUTE.lastIndex;
+        } else {
+            // Caractere que não forma atributo (ex: aspas soltas)
+            index++;
+        }
+    }
+
+    return { tag: (name[1] as string).toLowerCase(), attributes, selfClosing: false, end: html.length };
+}
+
+/**
+ * Fecha os elementos que a nova tag fecha implicitamente
+ */
+function openImpliedEnds(stack: HtmlElement[], tag: string): void {
+    if (CLOSES_PARAGRAPH.has(tag)) {
+        closeInScope(stack, ["p"], PARAGRAPH_SCOPE);
+    }
+
+    // Um header não fica dentro de outro
+    if (/^h[1-6]$/.test(tag) && /^h[1-6]$/.test((stack[stack.length - 1] as HtmlElement).tag)) {
+        stack.pop();
+    }
+
+    const implied = IMPLIED_END[tag];
+    if (implied) {
+        closeInScope(stack, implied.closes, implied.until);
+    }
+}
+
+/**
+ * Fecha o elemento aberto mais próximo com um dos nomes (e os que estão dentro dele),
+ * se ele vier antes de um dos limites
+ */
+function closeInScope(stack: HtmlElement[], tags: string[], until: string[]): void {
+    for (let i = stack.length - 1; i > 0; i--) {
+        const tag = (stack[i] as HtmlElement).tag;
+        if (tags.includes(tag)) {
+            stack.length = i;
+            return;
+        }
+        if (until.includes(tag)) {
+            return;
+        }
+    }
+}
+
+/**
+ * Fecha o elemento aberto mais próximo com o nome (tags de fechamento sem abertura são ignoradas)
+ */
+function closeElement(stack: HtmlElement[], tag: string): void {
+    for (let i = stack.length - 1; i > 0; i--) {
+        if ((stack[i] as HtmlElement).tag === tag) {
+            stack.length = i;
+            return;
+        }
+    }
+}
+
+/**
+ * Adiciona texto ao elemento, juntando com o texto anterior
+ */
+function appendText(element: HtmlElement, text: string): void {
+    const last = element.children[element.children.length - 1];
+    if (last?.type === "text") {
+        last.text += text;
+    } else if (text) {
+        element.children.push({ type: "text", text });
+    }
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseHtml } from "./html-dom.js";
+import { domToMarkdown } from "./html-markdown.js";
+
+/**
+ * Markdown de um trecho HTML
+ */
+function toMarkdown(html: string, baseUrl?: string): string {
+    return domToMarkdown(parseHtml(html), baseUrl);
+}
+
+describe("domToMarkdown", () => {
+    it("converte headers, código inline e links relativos", () => {
+        const markdown = toMarkdown(
+            '<h1>API</h1><p>Use <code>GET /users</code> and see <a href="/docs/auth">auth</a>.</p>',
+            "https://example.com/guide/",
+        );
+
+        assert.equal(markdown, "# API\n\nUse `GET /users` and see [auth](https://example.com/docs/auth).");
+    });
+
+    it("recua listas aninhadas", () => {
+        assert.equal(
+            toMarkdown("<ul><li>one<ul><li>nested</li></ul></li><li>two</li></ul>"),
+            "- one\n  - nested\n- two",
+        );
+    });
+
+    it("cerca blocos de código com a linguagem da classe", () => {
+        const markdown = toMarkdown('<pre><code class="language-ts">const a = 1;\nconst b = 2;</code></pre>');
+
+        assert.equal(markdown, "```ts\nconst a = 1;\nconst b = 2;\n```");
+    });
+
+    it("converte listas de definição e ignora scripts", () => {
+        assert.equal(
+            toMarkdown("<dl><dt>limit</dt><dd>Max items</dd></dl><script>x()</script>"),
+            "**limit**\n: Max items",
+        );
+    });
+
+    it("converte tabelas em tabelas GFM, escapando as barras das células", () => {
+        const markdown = toMarkdown(
+            "<table><thead><tr><th>Code</th><th>Message</th></tr></thead><tbody>" +
+                "<tr><td>4001</td><td>Invalid <code>token</code></td></tr>" +
+                "<tr><td>4003</td><td>Forbidden | denied</td></tr></tbody></table>",
+        );
+
+        assert.equal(
+            markdown,
+            "| Code | Message |\n| --- | --- |\n| 4001 | Invalid `token` |\n| 4003 | Forbidden \\| denied |",
+        );
+    });
+
+    it("usa as primeiras linhas só com <th> como header quando não há <thead>", () => {
+        const markdown = toMarkdown(
+            "<table><tr><th>Name</th><th>Type</th></tr><tr><td>id</td><td>int</td></tr></table>",
+        );
+
+        assert.equal(markdown, "| Name | Type |\n| --- | --- |\n| id | int |");
+    });
+
+    it("junta as linhas de header e repete as células com colspan e rowspan", () => {
+        const grouped = toMarkdown(
+            '<table><thead><tr><th rowspan="2">Plan</th><th colspan="2">Limits</th></tr>' +
+                "<tr><th>Min</th><th>Max</th></tr></thead><tr><td>Free</td><td>1</td><td>10</td></tr></table>",
+        );
+        const spanned = toMarkdown(
+            '<table><tr><th>Region</th><th>Zone</th></tr><tr><td rowspan="2">us</td><td>a</td></tr>' +
+                "<tr><td>b</td></tr></table>",
+        );
+
+        assert.equal(grouped, "| Plan | Limits / Min | Limits / Max |\n| --- | --- | --- |\n| Free | 1 | 10 |");
+        assert.equal(spanned, "| Region | Zone |\n| --- | --- |\n| us | a |\n| us | b |");
+    });
+
+    it("mantém a legenda e renderiza tabelas de layout como o conteúdo das células", () => {
+        assert.equal(
+            toMarkdown("<table><caption>Errors</caption><tr><th>A</th></tr><tr><td>line1<br>line2</td></tr></table>"),
+            "Errors\n\n| A |\n| --- |\n| line1 line2 |",
+        );
+        assert.equal(
+            toMarkdown("<table><tr><td><h2>Layout</h2><p>Text inside.</p></td></tr></table>"),
+            "## Layout\n\nText inside.",
+        );
+    });
+});
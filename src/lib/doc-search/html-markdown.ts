@@ -0,0 +1,550 @@
+/**
+ * Conversão da árvore HTML em Markdown para o chunking
+ * Mantém a hierarquia dos headers, listas aninhadas (com recuo), código inline e em bloco,
+ * links com URL absoluta, listas de definição e tabelas (GFM)
+ */
+
+import { getTextContent, type HtmlElement, type HtmlNode } from "./html-dom.js";
+
+/** Elementos ignorados na conversão (metadados, scripts, formulários e mídia) */
+const SKIPPED_ELEMENTS = new Set([
+    "head",
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "title",
+    "svg",
+    "canvas",
+    "iframe",
+    "object",
+    "button",
+    "select",
+    "input",
+    "textarea",
+]);
+
+/** Elementos de bloco (quebram o parágrafo em que estão) */
+const BLOCK_ELEMENTS = new Set([
+    "address",
+    "article",
+    "aside",
+    "blockquote",
+    "body",
+    "caption",
+    "dd",
+    "details",
+    "dialog",
+    "div",
+    "dl",
+    "dt",
+    "fieldset",
+    "figcaption",
+    "figure",
+    "footer",
+    "form",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "header",
+    "hgroup",
+    "hr",
+    "html",
+    "li",
+    "main",
+    "menu",
+    "nav",
+    "ol",
+    "p",
+    "pre",
+    "section",
+    "summary",
+    "table",
+    "tbody",
+    "td",
+    "tfoot",
+    "th",
+    "thead",
+    "tr",
+    "ul",
+]);
+
+/** Elementos de código inline */
+const INLINE_CODE_ELEMENTS = new Set(["code", "kbd", "samp", "tt", "var"]);
+
+/** Máximo de colunas ou linhas que uma célula ocupa (colspan e rowspan) */
+const MAX_TABLE_SPAN = 100;
+
+/** Linguagem de um bloco de código pela classe ("language-ts", "lang-bash") */
+const CODE_LANGUAGE = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/;
+
+/**
+ * Contexto da conversão
+ */
+interface RenderContext {
+    /** URL do documento (links relativos viram absolutos) */
+    baseUrl?: string;
+}
+
+/**
+ * Converte a árvore HTML em Markdown
+ *
+ * @param root - Raiz do documento (ver parseHtml) ou um elemento
+ * @param baseUrl - URL do documento, para resolver links relativos
+ * @returns Markdown com os blocos separados por linhas em branco
+ */
+export function domToMarkdown(root: HtmlElement, baseUrl?: string): string {
+    return renderBlocks(root.children, { baseUrl }).join("\n\n");
+}
+
+/**
+ * Converte uma sequência de nós em blocos Markdown
+ * Texto e elementos inline consecutivos formam um parágrafo
+ */
+function renderBlocks(nodes: HtmlNode[], context: RenderContext): string[] {
+    const blocks: string[] = [];
+    let inline = "";
+
+    const flush = () => {
+        const paragraph = inline
+            .split("\n")
+            .map((line) => line.trim())
+            .join("\n")
+            .trim();
+        if (paragraph) blocks.push(paragraph);
+        inline = "";
+    };
+
+    for (const node of nodes) {
+        if (node.type === "text") {
+            inline += collapseWhitespace(node.text);
+        } else if (SKIPPED_ELEMENTS.has(node.tag)) {
+            // Ignorado
+        } else if (BLOCK_ELEMENTS.has(node.tag)) {
+            flush();
+            const block = renderBlock(node, context);
+            if (block) blocks.push(block);
+        } else {
+            inline += renderInline(node, context);
+        }
+    }
+
+    flush();
+    return blocks;
+}
+
+/**
+ * Converte um elemento de bloco em Markdown
+ */
+function renderBlock(element: HtmlElement, context: RenderContext): string {
+    const { tag } = element;
+
+    if (/^h[1-6]$/.test(tag)) {
+        const title = collapseWhitespace(getHeadingText(element)).trim();
+        return title ? `${"#".repeat(Number(tag[1]))} ${title}` : "";
+    }
+
+    switch (tag) {
+        case "pre":
+            return renderCodeBlock(element);
+        case "ul":
+        case "ol":
+        case "menu":
+            return renderList(element, context);
+        case "dl":
+            return renderDefinitionList(element, context);
+        case "blockquote":
+            return renderBlocks(element.children, context)
+                .join("\n\n")
+                .split("\n")
+                .map((line) => (line ? `> ${line}` : ">"))
+                .join("\n");
+        case "hr":
+            return "---";
+        case "table":
+            return renderTable(element, context);
+        default:
+            return renderBlocks(element.children, context).join("\n\n");
+    }
+}
+
+/**
+ * Bloco de código cercado, com a linguagem da classe do <pre> ou do <code> interno
+ * A cerca é maior que qualquer sequência de crases do código
+ */
+function renderCodeBlock(element: HtmlElement): string {
+    const code = getTextContent(element).replace(/^\n/, "").trimEnd();
+    if (!code.trim()) {
+        return "";
+    }
+
+    const inner = element.children.find((child): child is HtmlElement => child.type === "element");
+    const className = [element.attributes.class, inner?.attributes.class].filter(Boolean).join(" ");
+    const language = CODE_LANGUAGE.exec(className)?.[1] ?? "";
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+    return `${fence}${language}\n${code}\n${fence}`;
+}
+
+/**
+ * Lista Markdown; listas aninhadas ficam recuadas sob o item
+ */
+function renderList(list: HtmlElement, context: RenderContext): string {
+    const ordered = list.tag === "ol";
+    let number = Number.parseInt(list.attributes.start ?? "1", 10) || 1;
+    const items: string[] = [];
+
+    for (const child of list.children) {
+        // Conteúdo fora de <li> (marcação inválida) vira um item
+        const nodes = child.type === "element" && child.tag === "li" ? child.children : [child];
+        const body = renderBlocks(nodes, context).join("\n");
+        if (!body) continue;
+
+        const marker = ordered ? `${number++}.` : "-";
+        items.push(indentContinuation(`${marker} ${body}`, marker.length + 1));
+    }
+
+    return items.join("\n");
+}
+
+/**
+ * Lista de definição: o termo em negrito e cada definição em uma linha iniciada por ": "
+ */
+function renderDefinitionList(list: HtmlElement, context: RenderContext): string {
+    const lines: string[] = [];
+
+    for (const child of list.children) {
+        if (child.type !== "element") continue;
+
+        // <div> agrupando pares termo/definição (permitido pelo HTML)
+        if (child.tag === "div") {
+            const group = renderDefinitionList(child, context);
+            if (group) lines.push(group);
+            continue;
+        }
+
+        if (child.tag === "dt") {
+            const term = renderInlineChildren(child, context).replace(/\s+/g, " ").trim();
+            if (term) lines.push(`**${term}**`);
+        } else if (child.tag === "dd") {
+            const definition = renderBlocks(child.children, context).join("\n");
+            if (definition) lines.push(indentContinuation(`: ${definition}`, 2));
+        }
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Tabela GFM: linha de header, separador e uma linha por <tr>
+ * Tabelas de layout (com headers ou tabelas dentro das células) viram os blocos das células
+ */
+function renderTable(table: HtmlElement, context: RenderContext): string {
+    const { caption, rows } = collectTableRows(table);
+
+    if (isLayoutTable(table, rows)) {
+        const cells = rows.flatMap((row) => row.cells.map((cell) => renderBlocks(cell.children, context).join("\n\n")));
+        return [caption, ...cells].filter(Boolean).join("\n\n");
+    }
+
+    const grid = buildTableGrid(rows, context);
+    const width = Math.max(0, ...grid.map((row) => row.cells.length));
+    if (width === 0) {
+        return caption ?? "";
+    }
+
+    // Header: as linhas do <thead> ou, sem ele, as primeiras linhas só com <th> (várias linhas viram "Grupo / Coluna")
+    let headerCount = grid.findIndex((row) => !row.inHead);
+    if (headerCount === -1) headerCount = grid.length;
+    if (headerCount === 0) {
+        headerCount = grid.findIndex((row) => !row.allHeaders);
+        if (headerCount === -1) headerCount = grid.length;
+    }
+    const headerRows = grid.slice(0, headerCount);
+    const header = Array.from({ length: width }, (_, column) =>
+        [...new Set(headerRows.map((row) => row.cells[column] ?? "").filter(Boolean))].join(" / "),
+    );
+
+    const lines = [
+        formatTableRow(header),
+        formatTableRow(header.map(() => "---")),
+        ...grid
+            .slice(headerCount)
+            .filter((row) => row.cells.some(Boolean))
+            .map((row) => formatTableRow(Array.from({ length: width }, (_, column) => row.cells[column] ?? ""))),
+    ];
+
+    return [caption, lines.join("\n")].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Linha da tabela
+ */
+interface TableRow {
+    /** Células <td> e <th> */
+    cells: HtmlElement[];
+    /** Linha do <thead> */
+    inHead: boolean;
+}
+
+/**
+ * Legenda e linhas da tabela, na ordem do documento (tabelas dentro das células não entram)
+ */
+function collectTableRows(table: HtmlElement): { caption?: string; rows: TableRow[] } {
+    const rows: TableRow[] = [];
+    let caption: string | undefined;
+
+    const visit = (element: HtmlElement, inHead: boolean) => {
+        for (const child of element.children) {
+            if (child.type !== "element") continue;
+
+            if (child.tag === "tr") {
+                const cells = child.children.filter(
+                    (cell): cell is HtmlElement => cell.type === "element" && (cell.tag === "td" || cell.tag === "th"),
+                );
+                rows.push({ cells, inHead });
+            } else if (child.tag === "caption") {
+                caption = collapseWhitespace(getTextContent(child)).trim() || undefined;
+            } else if (child.tag === "thead" || child.tag === "tbody" || child.tag === "tfoot") {
+                visit(child, child.tag === "thead");
+            }
+        }
+    };
+
+    visit(table, false);
+    return { caption, rows };
+}
+
+/**
+ * Tabela usada só para layout: role="presentation", uma única célula ou células com headers ou outras tabelas
+ */
+function isLayoutTable(table: HtmlElement, rows: TableRow[]): boolean {
+    const role = table.attributes.role?.toLowerCase();
+    if (role === "presentation" || role === "none") {
+        return true;
+    }
+
+    const cells = rows.flatMap((row) => row.cells);
+    return cells.length === 1 || cells.some((cell) => containsElement(cell, /^(?:h[1-6]|table)$/));
+}
+
+/**
+ * Texto das células em grade, com colspan e rowspan expandidos
+ * Uma célula com colspan repete o texto nas colunas que ocupa no header e fica só na primeira no corpo;
+ * com rowspan, o texto se repete nas linhas seguintes (cada linha continua legível sozinha)
+ */
+function buildTableGrid(
+    rows: TableRow[],
+    context: RenderContext,
+): { cells: string[]; inHead: boolean; allHeaders: boolean }[] {
+    // Células que continuam nas linhas seguintes (rowspan), por coluna
+    const carried = new Map<number, { text: string; remaining: number }>();
+
+    return rows.map((row) => {
+        const cells: string[] = [];
+        let column = 0;
+
+        const fillCarried = () => {
+            let carry = carried.get(column);
+            while (carry) {
+                cells[column] = carry.text;
+                carry.remaining--;
+                if (carry.remaining === 0) carried.delete(column);
+                column++;
+                carry = carried.get(column);
+            }
+        };
+
+        for (const cell of row.cells) {
+            fillCarried();
+
+            const text = renderTableCell(cell, context);
+            const colspan = parseSpan(cell.attributes.colspan);
+            const rowspan = parseSpan(cell.attributes.rowspan);
+            const repeat = row.inHead || cell.tag === "th";
+
+            for (let offset = 0; offset < colspan; offset++) {
+                cells[column] = offset === 0 || repeat ? text : "";
+                if (rowspan > 1) carried.set(column, { text: cells[column] as string, remaining: rowspan - 1 });
+                column++;
+            }
+        }
+        fillCarried();
+
+        const allHeaders = row.cells.length > 0 && row.cells.every((cell) => cell.tag === "th");
+        return { cells: Array.from(cells, (text) => text ?? ""), inHead: row.inHead, allHeaders };
+    });
+}
+
+/**
+ * Texto de uma célula em uma linha, com "|" escapado
+ */
+function renderTableCell(cell: HtmlElement, context: RenderContext): string {
+    return collapseWhitespace(renderInlineChildren(cell, context)).trim().replace(/\|/g, "\\|");
+}
+
+/**
+ * Linha de tabela GFM
+ */
+function formatTableRow(cells: string[]): string {
+    return `| ${cells.join(" | ")} |`;
+}
+
+/**
+ * Valor de colspan/rowspan (1 quando ausente ou inválido, limitado a MAX_TABLE_SPAN)
+ */
+function parseSpan(value: string | undefined): number {
+    const span = Number.parseInt(value ?? "1", 10);
+    return Number.isFinite(span) && span > 1 ? Math.min(span, MAX_TABLE_SPAN) : 1;
+}
+
+/**
+ * Verifica se há um descendente com a tag
+ */
+function containsElement(element: HtmlElement, tag: RegExp): boolean {
+    return element.children.some(
+        (child) => child.type === "element" && (tag.test(child.tag) || containsElement(child, tag)),
+    );
+}
+
+/**
+ * Converte um elemento inline em Markdown
+ */
+function renderInline(element: HtmlElement, context: RenderContext): string {
+    const { tag } = element;
+
+    if (tag === "br") {
+        return "\n";
+    }
+
+    if (INLINE_CODE_ELEMENTS.has(tag)) {
+        return renderInlineCode(getTextContent(element));
+    }
+
+    if (tag === "img") {
+        return element.attributes.alt ? collapseWhitespace(element.attributes.alt) : "";
+    }
+
+    const content = renderInlineChildren(element, context);
+
+    switch (tag) {
+        case "strong":
+        case "b":
+            return wrapInline(content, "**");
+        case "em":
+        case "i":
+            return wrapInline(content, "*");
+        case "a":
+            return renderLink(content, element.attributes.href, context);
+        default:
+            return content;
+    }
+}
+
+/**
+ * Texto de um header, sem os links de permalink ("¶", "#") que as páginas colocam ao lado do título
+ */
+function getHeadingText(node: HtmlNode): string {
+    if (node.type === "text") {
+        return node.text;
+    }
+    if (SKIPPED_ELEMENTS.has(node.tag) || (node.tag === "a" && !/[\p{L}\p{N}]/u.test(getTextContent(node)))) {
+        return "";
+    }
+    return node.children.map(getHeadingText).join(" ");
+}
+
+/**
+ * Conteúdo inline de um elemento (blocos dentro de elementos inline viram texto corrido)
+ */
+function renderInlineChildren(element: HtmlElement, context: RenderContext): string {
+    return element.children
+        .map((child) => {
+            if (child.type === "text") return collapseWhitespace(child.text);
+            if (SKIPPED_ELEMENTS.has(child.tag)) return "";
+            return BLOCK_ELEMENTS.has(child.tag)
+                ? ` ${renderInlineChildren(child, context)} `
+                : renderInline(child, context);
+        })
+        .join("");
+}
+
+/**
+ * Código inline; a delimitação usa mais crases que qualquer sequência do código
+ */
+function renderInlineCode(text: string): string {
+    const code = collapseWhitespace(text).trim();
+    if (!code) {
+        return "";
+    }
+
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+    const ticks = "`".repeat(longestRun + 1);
+    const padding = code.startsWith("`") || code.endsWith("`") ? " " : "";
+
+    return `${ticks}${padding}${code}${padding}${ticks}`;
+}
+
+/**
+ * Link Markdown com a URL absoluta
+ * Links sem destino útil (javascript:, vazios) ou sem texto ficam só com o texto
+ */
+function renderLink(content: string, href: string | undefined, context: RenderContext): string {
+    const text = content.trim();
+    if (!text || !href || /^\s*javascript:/i.test(href)) {
+        return content;
+    }
+
+    const url = resolveUrl(href.trim(), context.baseUrl);
+    const spaces = content.match(/^\s*/)?.[0] ? " " : "";
+    const trailing = content.match(/\s*$/)?.[0] ? " " : "";
+
+    return `${spaces}[${text}](${url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`)})${trailing}`;
+}
+
+/**
+ * URL absoluta a partir da URL do documento (a própria href se não for possível resolver)
+ */
+function resolveUrl(href: string, baseUrl: string | undefined): string {
+    try {
+        return new URL(href, baseUrl).href;
+    } catch {
+        return href;
+    }
+}
+
+/**
+ * Envolve o texto com o marcador, mantendo os espaços das pontas fora dele ("a <b> b </b>" → "a **b** ")
+ */
+function wrapInline(content: string, marker: string): string {
+    const text = content.trim();
+    if (!text) {
+        return content;
+    }
+
+    const leading = content.match(/^\s*/)?.[0] ? " " : "";
+    const trailing = content.match(/\s*$/)?.[0] ? " " : "";
+    return `${leading}${marker}${text}${marker}${trailing}`;
+}
+
+/**
+ * Recua as linhas seguintes à primeira (continuação de um item de lista)
+ */
+function indentContinuation(text: string, width: number): string {
+    const indent = " ".repeat(width);
+    return text
+        .split("\n")
+        .map((line, index) => (index === 0 || !line ? line : `${indent}${line}`))
+        .join("\n");
+}
+
+/**
+ * Troca sequências de espaços em branco (inclusive quebras de linha do código-fonte) por um espaço
+ */
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, " ");
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseHtml } from "./html-dom.js";
+import { parseSelector, SelectorParseError, selectAll } from "./html-selector.js";
+
+const root = parseHtml(
+    '<div id="a" class="docs main"><section><p data-x="hello-world">1</p></section><p>2</p></div>' +
+        '<article><p lang="en-US">3</p></article>',
+);
+
+/**
+ * Texto dos elementos encontrados pelo seletor (tag:texto)
+ */
+function select(selector: string): string[] {
+    return selectAll(root, parseSelector(selector)).map((element) => {
+        const [first] = element.children;
+        return first?.type === "text" ? `${element.tag}:${first.text}` : element.tag;
+    });
+}
+
+describe("selectAll", () => {
+    it("diferencia descendentes de filhos diretos", () => {
+        assert.deepEqual(select("div p"), ["p:1", "p:2"]);
+        assert.deepEqual(select("div > p"), ["p:2"]);
+    });
+
+    it("combina id, classes e atributos", () => {
+        assert.deepEqual(select("#a.docs.main"), ["div"]);
+        assert.deepEqual(select("p[data-x]"), ["p:1"]);
+        assert.deepEqual(select("[data-x^=hello]"), ["p:1"]);
+        assert.deepEqual(select("[data-x$=world]"), ["p:1"]);
+        assert.deepEqual(select('[data-x*="o-w"]'), ["p:1"]);
+        assert.deepEqual(select("[class~=main]"), ["div"]);
+        assert.deepEqual(select("[lang=en-US]"), ["p:3"]);
+    });
+
+    it("não retorna elementos dentro de outro encontrado", () => {
+        assert.deepEqual(select("*"), ["div", "article"]);
+    });
+
+    it("junta as listas na ordem do documento", () => {
+        assert.deepEqual(select("article p, #a > p"), ["p:2", "p:3"]);
+    });
+});
+
+describe("parseSelector", () => {
+    it("recusa seletores incompletos e recursos não suportados", () => {
+        for (const selector of ["", "div >", "p:hover", "a + b", "div["]) {
+            assert.throws(() => parseSelector(selector), SelectorParseError, selector);
+        }
+    });
+});
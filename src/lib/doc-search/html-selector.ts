@@ -0,0 +1,262 @@
+/**
+ * Seletores CSS sobre a árvore HTML (ver html-dom)
+ * Suporta o subconjunto usado para apontar o conteúdo de uma página: tag, *, #id, .classe,
+ * [atributo], [atributo=valor] (e ~=, ^=, $=, *=), os combinadores descendente e ">" e listas separadas por ","
+ */
+
+import type { HtmlElement } from "./html-dom.js";
+
+/**
+ * Condição sobre um atributo ([name], [name=value], [name^=value], ...)
+ */
+interface AttributeCondition {
+    name: string;
+    operator?: "=" | "~=" | "^=" | "$=" | "*=";
+    value?: string;
+}
+
+/**
+ * Seletor composto (sem combinadores): "div.content#main[role=main]"
+ */
+interface CompoundSelector {
+    /** Tag em minúsculas (ausente ou "*": qualquer uma) */
+    tag?: string;
+    id?: string;
+    classes: string[];
+    attributes: AttributeCondition[];
+}
+
+/**
+ * Seletor composto e a relação com o anterior ("descendant" no primeiro)
+ */
+interface SelectorStep {
+    combinator: "descendant" | "child";
+    compound: CompoundSelector;
+}
+
+/**
+ * Lista de seletores ("main, .content"); cada seletor é a sequência de passos da esquerda para a direita
+ */
+export type SelectorList = SelectorStep[][];
+
+/**
+ * Erro de sintaxe (ou recurso não suportado) no seletor CSS
+ */
+export class SelectorParseError extends Error {
+    constructor(
+        message: string,
+        public readonly selector: string,
+    ) {
+        super(message);
+        this.name = "SelectorParseError";
+    }
+}
+
+/** Parte de um seletor composto: tag, #id, .classe ou [atributo] */
+const COMPOUND_PART =
+    /(\*|[a-zA-Z][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([\w-]+))\s*)?\]/y;
+
+/**
+ * Interpreta um seletor CSS
+ *
+ * @param selector - Seletor ou lista de seletores separados por vírgula
+ * @returns Seletores interpretados
+ * @throws {SelectorParseError} Se o seletor for inválido ou usar recursos não suportados (pseudo-classes, "+", "~")
+ */
+export function parseSelector(selector: string): SelectorList {
+    const list: SelectorList = [];
+    let steps: SelectorStep[] = [];
+    let combinator: SelectorStep["combinator"] = "descendant";
+    let pendingChild = false;
+    let position = 0;
+
+    const invalid = (reason: string) => new SelectorParseError(`Seletor CSS "${selector}": ${reason}`, selector);
+
+    const endSelector = () => {
+        if (steps.length === 0 || pendingChild) {
+            throw invalid(`seletor vazio ou incompleto na posição ${position + 1}`);
+        }
+        list.push(steps);
+        steps = [];
+        combinator = "descendant";
+    };
+
+    while (position < selector.length) {
+        const char = selector[position] as string;
+
+        if (/\s/.test(char)) {
+            position++;
+        } else if (char === ">") {
+            if (steps.length === 0 || pendingChild) throw invalid(`">" sem seletor antes, na posição ${position + 1}`);
+            combinator = "child";
+            pendingChild = true;
+            position++;
+        } else if (char === ",") {
+            endSelector();
+            position++;
+        } else {
+            const compound = readCompound(selector, position);
+            // Depois de um seletor composto só pode vir espaço, ">", "," ou o fim (ex: "a:hover" é inválido)
+            const end = compound?.end ?? position;
+            const next = selector[end];
+            if (!compound || (next !== undefined && !/[\s>,]/.test(next))) {
+                const unsupported = next ?? char;
+                const feature =
+                    unsupported === ":" ? "pseudo-classes não são suportadas" : `"${unsupported}" não é suportado`;
+                throw invalid(`${feature} (posição ${end + 1})`);
+            }
+            steps.push({ combinator, compound: compound.value });
+            combinator = "descendant";
+            pendingChild = false;
+            position = end;
+        }
+    }
+
+    endSelector();
+    return list;
+}
+
+/**
+ * Lê um seletor composto a partir da posição (null se não houver nenhuma parte reconhecida)
+ * Para no primeiro caractere que não forma uma parte
+ */
+function readCompound(selector: string, position: number): { value: CompoundSelector; end: number } | null {
+    const value: CompoundSelector = { classes: [], attributes: [] };
+    let index = position;
+    let parts = 0;
+
+    while (index < selector.length) {
+        COMPOUND_PART.lastIndex = index;
+        const match = COMPOUND_PART.exec(selector);
+        // A tag só pode ser a primeira parte ("div.a", não ".adiv" lido como ".a" + "div")
+        if (!match || (match[1] && parts > 0)) {
+            break;
+        }
+
+        const [, tag, id, className, name, operator, doubleQuoted, singleQuoted, bare] = match;
+        if (tag) {
+            value.tag = tag.toLowerCase();
+        } else if (id) {
+            value.id = id;
+        } else if (className) {
+            value.classes.push(className);
+        } else if (name) {
+            value.attributes.push({
+                name: name.toLowerCase(),
+                operator: operator as AttributeCondition["operator"],
+                value: doubleQuoted ?? singleQuoted ?? bare,
+            });
+        }
+
+        parts++;
+        index = COMPOUND_PART.lastIndex;
+    }
+
+    return parts > 0 ? { value, end: index } : null;
+}
+
+/**
+ * Elementos que satisfazem o seletor, na ordem do documento
+ * Um elemento encontrado não é percorrido: elementos dentro dele não entram no resultado (o conteúdo já está nele)
+ *
+ * @param root - Raiz da busca (ela própria não é testada)
+ * @param selector - Seletor interpretado por parseSelector
+ */
+export function selectAll(root: HtmlElement, selector: SelectorList): HtmlElement[] {
+    const found: HtmlElement[] = [];
+    const ancestors: HtmlElement[] = [];
+
+    const visit = (element: HtmlElement) => {
+        for (const child of element.children) {
+            if (child.type !== "element") continue;
+
+            if (selector.some((steps) => matchesSteps(child, steps, steps.length - 1, ancestors, ancestors.length))) {
+                found.push(child);
+                continue;
+            }
+
+            ancestors.push(child);
+            visit(child);
+            ancestors.pop();
+        }
+    };
+
+    visit(root);
+    return found;
+}
+
+/**
+ * Verifica os passos do seletor da direita para a esquerda
+ * `ancestors[0..depth)` são os ancestrais do elemento (o mais próximo por último)
+ */
+function matchesSteps(
+    element: HtmlElement,
+    steps: SelectorStep[],
+    index: number,
+    ancestors: HtmlElement[],
+    depth: number,
+): boolean {
+    const step = steps[index] as SelectorStep;
+    if (!matchesCompound(element, step.compound)) {
+        return false;
+    }
+    if (index === 0) {
+        return true;
+    }
+
+    if (step.combinator === "child") {
+        const parent = ancestors[depth - 1];
+        return parent !== undefined && matchesSteps(parent, steps, index - 1, ancestors, depth - 1);
+    }
+
+    for (let i = depth - 1; i >= 0; i--) {
+        if (matchesSteps(ancestors[i] as HtmlElement, steps, index - 1, ancestors, i)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Verifica um seletor composto em um elemento
+ */
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+    if (compound.tag && compound.tag !== "*" && compound.tag !== element.tag) {
+        return false;
+    }
+    if (compound.id !== undefined && element.attributes.id !== compound.id) {
+        return false;
+    }
+    if (compound.classes.length > 0) {
+        const classes = (element.attributes.class ?? "").split(/\s+/);
+        if (!compound.classes.every((className) => classes.includes(className))) {
+            return false;
+        }
+    }
+
+    return compound.attributes.every((condition) => matchesAttribute(element.attributes[condition.name], condition));
+}
+
+/**
+ * Verifica a condição sobre o valor de um atributo
+ */
+function matchesAttribute(actual: string | undefined, { operator, value = "" }: AttributeCondition): boolean {
+    if (actual === undefined) {
+        return false;
+    }
+
+    switch (operator) {
+        case undefined:
+            return true;
+        case "=":
+            return actual === value;
+        case "~=":
+            return actual.split(/\s+/).includes(value);
+        case "^=":
+            return value !== "" && actual.startsWith(value);
+        case "$=":
+            return value !== "" && actual.endsWith(value);
+        case "*=":
+            return value !== "" && actual.includes(value);
+    }
+}
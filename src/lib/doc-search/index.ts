@@ -3,91 +3,480 @@
  * Exporta a função principal de busca e utilitários
  */
 
+import { createHash } from "node:crypto";
+
+import { BM25_PARAMS, explainChunkScoreBm25, scoreChunksBm25 } from "./bm25.js";
+import { MAX_BUDGET_RESULTS, packResults } from "./budget.js";
 import { getExpandedContext, splitIntoChunks } from "./chunker.js";
-import { calculateRelevanceScore, extractSearchTerms } from "./scorer.js";
-import type { ChunkingOptions, DocChunk, SearchResult } from "../../types/index.js";
+import { DEFAULT_DIVERSITY, diversifyRanking } from "./diversity.js";
+import { type DocIndex, explainChunkScore, getDocIndex, scoreChunks } from "./doc-index.js";
+import { findCorrections, toTermCorrections } from "./fuzzy.js";
+import { getAnalyzer } from "./language.js";
+import { MAX_CONTEXT_SIZE } from "./patterns.js";
+import { createQueryFilter, findMatchedTerms, type ParsedQuery, parseQuery } from "./query.js";
+import { extractSearchTerms, SCORE_WEIGHTS } from "./scorer.js";
+import { extractSnippets } from "./snippets.js";
+import { createHashingProvider, type EmbeddingProvider, fuseRankings, scoreChunksSemantic } from "./semantic.js";
+import type {
+    Bm25Params,
+    ChunkingOptions,
+    DocChunk,
+    LanguageSetting,
+    ModeFallback,
+    NearMiss,
+    RankingAlgorithm,
+    ResultDetail,
+    ScoreExplanation,
+    ScoreWeights,
+    SearchHit,
+    SearchMode,
+    SearchResult,
+    TermCorrection,
+} from "../../types/index.js";
 
+// Re-exporta parâmetros do BM25
+export { BM25_PARAMS, explainChunkScoreBm25 } from "./bm25.js";
+// Re-exporta âncoras de seções
+export { createAnchorResolver, slugifyHeading, withAnchor } from "./anchors.js";
+// Re-exporta limite de texto dos resultados
+export { MAX_BUDGET_RESULTS, packResults, trimAtSentence } from "./budget.js";
+// Re-exporta diversidade dos resultados
+export { DEFAULT_DIVERSITY, diversifyRanking } from "./diversity.js";
 // Re-exporta funções de detecção de formato
 export { detectDocumentFormat, isHtmlDocument, isJsonDocument, isMarkdownDocument } from "./format-detector.js";
+// Re-exporta chunker
+export { type ChunkLimits, resolveChunkLimits, type SplitLimits, splitIntoChunks } from "./chunker.js";
+// Re-exporta análise de idioma
+export { detectLanguage, getAnalyzer, type TextAnalyzer } from "./language.js";
+// Re-exporta índice invertido
+export { buildDocIndex, type DocIndex, explainChunkScore, getDocIndex } from "./doc-index.js";
 // Re-exporta chunker HTML
-export { htmlToSimpleMarkdown, splitHtmlIntoChunks } from "./html-chunker.js";
+export { type HtmlPageOptions, htmlToSimpleMarkdown, splitHtmlIntoChunks } from "./html-chunker.js";
+// Re-exporta chunker Markdown
+export { splitMarkdownIntoChunks } from "./markdown-chunker.js";
+// Re-exporta busca semântica
+export {
+    createHashingProvider,
+    type EmbeddedCorpus,
+    type EmbeddingProvider,
+    fuseRankings,
+    getCorpusEmbeddings,
+    normalizeVector,
+} from "./semantic.js";
+// Re-exporta sintaxe de busca
+export { type ParsedQuery, parseQuery, QueryParseError } from "./query.js";
 // Re-exporta patterns
 export { HTML_PATTERNS, SEPARATION_PATTERNS } from "./patterns.js";
 // Re-exporta utilitários de scoring
-export { escapeRegex, normalizeText } from "./scorer.js";
+export { escapeRegex, normalizeText, SCORE_WEIGHTS } from "./scorer.js";
 
 /**
- * Opções para a função de busca
+ * Chunks ordenados por relevância
  */
-export interface SearchOptions extends ChunkingOptions {
+interface ChunkRanking {
+    /** Chunks com match, do mais para o menos relevante */
+    chunks: DocChunk[];
+    /** Palavras corrigidas na busca por termos */
+    corrections: TermCorrection[];
+    /** Troca do modo de busca pedido */
+    modeFallback?: ModeFallback;
+}
+
+/**
+ * Opções da busca em chunks já divididos
+ */
+export interface ChunkSearchOptions {
     /** Número máximo de resultados a retornar (padrão: 3) */
     maxResults?: number;
+    /** Tamanho máximo do contexto expandido de cada resultado */
+    maxContextSize?: number;
+    /** Pesos de relevância (sobrescreve SCORE_WEIGHTS parcialmente) */
+    scoreWeights?: Partial<ScoreWeights>;
+    /** Algoritmo de ranking (padrão: heuristic) */
+    algorithm?: RankingAlgorithm;
+    /** Parâmetros do BM25F (sobrescreve BM25_PARAMS parcialmente) */
+    bm25?: Partial<Bm25Params>;
+    /** Modo de busca (padrão: keyword) */
+    mode?: SearchMode;
+    /** Provedor de embeddings dos modos semantic e hybrid (padrão: provedor local por hashing) */
+    embeddingProvider?: EmbeddingProvider;
+    /** Idioma do documento: stemming e stopwords da busca por termos (padrão: auto) */
+    language?: LanguageSetting;
+    /** Quanto texto cada resultado traz (padrão: expanded) */
+    detail?: ResultDetail;
+    /** Peso da relevância em relação à diversidade dos resultados (0-1, padrão: 0.5; 1 desativa) */
+    diversity?: number;
+    /** Detalha a pontuação dos resultados e lista os chunks que ficaram logo abaixo (padrão: false) */
+    explain?: boolean;
+    /** Chunks já retornados em páginas anteriores da mesma busca (não se repetem, nem seus vizinhos com expanded) */
+    excludeIndices?: number[];
+    /** Limite de caracteres somando todos os resultados (sem limite, padrão; com ele, maxResults passa a 50) */
+    maxChars?: number;
 }
 
+/**
+ * Opções para a função de busca
+ */
+export interface SearchOptions extends ChunkingOptions, ChunkSearchOptions {}
+
+/** Quantos documentos recentes têm os chunks (e o índice) reaproveitados por searchInDocs */
+const RECENT_DOCUMENTS_LIMIT = 8;
+
+/** Chunks dos documentos pesquisados recentemente, por hash do conteúdo e opções de chunking */
+const recentDocuments = new Map<string, string[]>();
+
+/** Quantos chunks abaixo dos resultados são listados no modo explain */
+const NEAR_MISS_LIMIT = 3;
+
+/** Provedor de embeddings usado quando nenhum é informado */
+const defaultEmbeddingProvider = createHashingProvider();
+
 /**
  * Busca os trechos mais relevantes na documentação
  * Detecta automaticamente o formato do documento e aplica estratégia de chunking adequada
  *
  * @param document - Documento completo para buscar
  * @param searchQuery - Query de busca do usuário
- * @param options - Opções de busca (maxResults, forceFormat, enableHtmlFallback, enableJsonFallback)
+ * @param options - Opções de busca (maxResults, mode, forceFormat, enableHtmlFallback, enableJsonFallback)
  * @returns Objeto com resultados da busca
  *
  * @example
  * ```typescript
  * // Busca padrão com detecção automática de formato
- * const result = searchInDocs(documentContent, "como criar uma tool");
+ * const result = await searchInDocs(documentContent, "como criar uma tool");
  *
  * // Forçando formato HTML
- * const result = searchInDocs(htmlContent, "authentication", { forceFormat: "html" });
+ * const result = await searchInDocs(htmlContent, "authentication", { forceFormat: "html" });
  *
- * // Desabilitando fallback HTML
- * const result = searchInDocs(content, "query", { enableHtmlFallback: false });
+ * // Combinando termos e similaridade semântica
+ * const result = await searchInDocs(content, "how do I paginate", { mode: "hybrid" });
  * ```
  */
-export function searchInDocs(document: string, searchQuery: string, options: SearchOptions = {}): SearchResult {
-    const { maxResults = 3, ...chunkingOptions } = options;
+export async function searchInDocs(
+    document: string,
+    searchQuery: string,
+    options: SearchOptions = {},
+): Promise<SearchResult> {
+    const {
+        forceFormat,
+        enableHtmlFallback,
+        enableJsonFallback,
+        maxChunkSize,
+        minChunkSize,
+        overlap,
+        unit,
+        strategies,
+        baseUrl,
+        contentSelector,
+        ...searchOptions
+    } = options;
+
+    // Divide documento em chunks (com detecção automática de formato)
+    const chunks = getRecentChunks(document, {
+        forceFormat,
+        enableHtmlFallback,
+        enableJsonFallback,
+        maxChunkSize,
+        minChunkSize,
+        overlap,
+        unit,
+        strategies,
+        baseUrl,
+        contentSelector,
+    });
+
+    return searchInChunks(chunks, searchQuery, searchOptions);
+}
+
+/**
+ * Busca os trechos mais relevantes em um documento já dividido em chunks
+ * Permite reaproveitar chunks calculados antes (ex: restaurados de um snapshot).
+ * O índice invertido é construído na primeira busca e reaproveitado enquanto o mesmo array for usado
+ *
+ * @param chunks - Chunks do documento, na ordem original
+ * @param searchQuery - Query de busca do usuário (aceita "frases", -exclusões, OR e filtros campo:valor)
+ * @param options - Opções de busca (maxResults, maxContextSize, detail, maxChars, diversity, explain, excludeIndices,
+ * scoreWeights, algorithm, bm25, mode)
+ * @returns Objeto com resultados da busca
+ * @throws {QueryParseError} Se a busca tiver erro de sintaxe
+ */
+export async function searchInChunks(
+    chunks: string[],
+    searchQuery: string,
+    options: ChunkSearchOptions = {},
+): Promise<SearchResult> {
+    const {
+        maxContextSize = MAX_CONTEXT_SIZE,
+        detail = "expanded",
+        maxChars,
+        diversity = DEFAULT_DIVERSITY,
+        excludeIndices = [],
+    } = options;
+    const maxResults = options.maxResults ?? (maxChars ? MAX_BUDGET_RESULTS : 3);
+    const query = parseQuery(searchQuery);
 
-    // 1. Divide documento em chunks (com detecção automática de formato)
-    const chunks = splitIntoChunks(document, chunkingOptions);
+    // 1. Ordena os chunks com match por relevância e aplica frases, exclusões e filtros
+    const { chunks: relevantChunks, corrections, modeFallback } = await rankFilteredChunks(chunks, query, options);
 
-    // 2. Extrai termos de busca
-    const searchTerms = extractSearchTerms(searchQuery);
+    // 2. Descarta os chunks de páginas anteriores (e, com expanded, os vizinhos mostrados como contexto)
+    const usedIndices = new Set<number>();
+    for (const chunkIndex of excludeIndices) {
+        markUsed(usedIndices, chunkIndex, chunks.length, detail);
+    }
+    const unseenChunks = relevantChunks.filter((chunk) => !usedIndices.has(chunk.index));
 
-    // 3. Calcula score de relevância para cada chunk
-    const scoredChunks: DocChunk[] = chunks.map((content, index) => ({
-        content,
-        index,
-        score: calculateRelevanceScore(content, searchTerms),
-    }));
+    // 3. Afasta do topo os chunks parecidos com outros mais relevantes (buscas só com filtros mantêm a ordem)
+    const index = getDocIndex(chunks, options.language);
+    const diverseChunks = query.text ? diversifyRanking(index, unseenChunks, maxResults, diversity) : unseenChunks;
 
-    // 4. Filtra chunks com score > 0 e ordena por relevância
-    const relevantChunks = scoredChunks.filter((chunk) => chunk.score > 0).sort((a, b) => b.score - a.score);
+    // 4. Seleciona os melhores resultados com contexto expandido
+    const explainScore = options.explain ? createScoreExplainer(index, query, options) : null;
+    const selected = selectBestResults(chunks, diverseChunks, maxResults, maxContextSize, detail, usedIndices);
+    const remainingChunks = unseenChunks.filter((chunk) => !usedIndices.has(chunk.index)).length;
+    const hits = selected.map((hit): SearchHit => {
+        const matchedTerms = findMatchedTerms(index, query, corrections, hit.index);
+        const located = {
+            ...hit,
+            breadcrumb: index.metadata[hit.index]?.breadcrumb ?? [],
+            matchedTerms,
+            explanation: explainScore?.(hit.index),
+        };
 
-    // 5. Seleciona os melhores resultados com contexto expandido
-    const results = selectBestResults(chunks, relevantChunks, maxResults);
+        if (detail !== "snippet") {
+            return located;
+        }
+
+        // 5. Reduz o chunk às janelas com os termos da busca
+        const snippet = extractSnippets(hit.content, matchedTerms, getAnalyzer(index.language));
+        return { ...located, content: snippet.content, snippets: snippet.ranges };
+    });
+
+    const nearMisses = explainScore
+        ? findNearMisses(index, relevantChunks, selected, new Set(excludeIndices), detail, explainScore)
+        : undefined;
+
+    if (!maxChars) {
+        return {
+            results: hits.map((hit) => hit.content),
+            hits,
+            totalChunks: chunks.length,
+            matchedChunks: relevantChunks.length,
+            remainingChunks,
+            corrections,
+            nearMisses,
+            modeFallback,
+        };
+    }
+
+    // 6. Mantém os resultados que cabem no limite de texto
+    const packed = packResults(hits, maxChars);
 
     return {
-        results,
+        results: packed.hits.map((hit) => hit.content),
+        hits: packed.hits,
         totalChunks: chunks.length,
         matchedChunks: relevantChunks.length,
+        remainingChunks,
+        corrections,
+        budget: packed.budget,
+        nearMisses,
+        modeFallback,
+    };
+}
+
+/**
+ * Ordena os chunks e mantém apenas os que atendem às condições da busca
+ * Uma busca só com filtros (ex: "method:POST tag:billing") retorna os chunks na ordem do documento
+ */
+async function rankFilteredChunks(
+    chunks: string[],
+    query: ParsedQuery,
+    options: ChunkSearchOptions,
+): Promise<ChunkRanking> {
+    const hasConditions = query.required.length > 0 || query.excluded.length > 0;
+    const filter = hasConditions ? createQueryFilter(getDocIndex(chunks, options.language), query) : null;
+
+    if (!query.text) {
+        const matching = chunks
+            .map((content, chunkIndex) => ({ content, index: chunkIndex, score: 1 }))
+            .filter((chunk) => filter?.(chunk.index));
+        return { chunks: matching, corrections: [] };
+    }
+
+    const ranking = await rankChunks(chunks, query, options);
+    return filter ? { ...ranking, chunks: ranking.chunks.filter((chunk) => filter(chunk.index)) } : ranking;
+}
+
+/**
+ * Ordena os chunks com match conforme o modo de busca
+ * No modo hybrid, uma falha do provedor de embeddings mantém apenas o ranking por termos (informado em modeFallback)
+ */
+async function rankChunks(chunks: string[], query: ParsedQuery, options: ChunkSearchOptions): Promise<ChunkRanking> {
+    const { mode = "keyword", embeddingProvider = defaultEmbeddingProvider } = options;
+    const searchQuery = query.text;
+
+    if (mode === "semantic") {
+        return { chunks: await scoreChunksSemantic(chunks, searchQuery, embeddingProvider), corrections: [] };
+    }
+
+    const keywordRanking = rankByKeywords(getDocIndex(chunks, options.language), query, options);
+    if (mode === "keyword") {
+        return keywordRanking;
+    }
+
+    try {
+        const semanticRanking = await scoreChunksSemantic(chunks, searchQuery, embeddingProvider);
+        return { ...keywordRanking, chunks: fuseRankings([keywordRanking.chunks, semanticRanking]) };
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : "Erro desconhecido";
+        return { ...keywordRanking, modeFallback: { requested: mode, used: "keyword", reason } };
+    }
+}
+
+/**
+ * Pontua os chunks com match nos termos da busca (via índice), do mais para o menos relevante
+ * Palavras sem nenhum match no documento são trocadas pelos termos mais próximos do vocabulário
+ */
+function rankByKeywords(index: DocIndex, query: ParsedQuery, options: ChunkSearchOptions): ChunkRanking {
+    const { scoreWeights, algorithm = "heuristic", bm25 } = options;
+    const searchQuery = query.text;
+    const weights: ScoreWeights = { ...SCORE_WEIGHTS, ...scoreWeights };
+    const corrections = findCorrections(index, searchQuery);
+
+    const scoredChunks =
+        algorithm === "bm25"
+            ? scoreChunksBm25(index, searchQuery, { ...BM25_PARAMS, ...bm25 }, weights, corrections)
+            : scoreChunks(index, getHeuristicTerms(index, query), weights, corrections);
+
+    return {
+        chunks: scoredChunks.sort((a, b) => b.score - a.score),
+        corrections: toTermCorrections(index, searchQuery, corrections),
     };
 }
 
+/**
+ * Termos pontuados pela heurística: os da busca (ver extractSearchTerms) e as frases entre aspas
+ */
+function getHeuristicTerms(index: DocIndex, query: ParsedQuery): string[] {
+    return [...extractSearchTerms(query.text, index.language), ...query.phrases];
+}
+
+/**
+ * Cria a função que detalha a pontuação de um chunk, com os mesmos cálculos de rankByKeywords
+ * Nos modos semantic e hybrid a pontuação não vem dos termos, e a função não retorna detalhes
+ */
+function createScoreExplainer(
+    index: DocIndex,
+    query: ParsedQuery,
+    options: ChunkSearchOptions,
+): (chunkIndex: number) => ScoreExplanation | undefined {
+    const { mode = "keyword", scoreWeights, algorithm = "heuristic", bm25 } = options;
+    if (mode !== "keyword" || !query.text) {
+        return () => undefined;
+    }
+
+    const weights: ScoreWeights = { ...SCORE_WEIGHTS, ...scoreWeights };
+    const corrections = findCorrections(index, query.text);
+
+    if (algorithm === "bm25") {
+        const params = { ...BM25_PARAMS, ...bm25 };
+        return (chunkIndex) => explainChunkScoreBm25(index, query.text, params, weights, corrections, chunkIndex);
+    }
+
+    const terms = getHeuristicTerms(index, query);
+    return (chunkIndex) => explainChunkScore(index, terms, weights, corrections, chunkIndex);
+}
+
+/**
+ * Chunks mais bem pontuados que não entraram nos resultados, com o motivo
+ *
+ * @param index - Índice do documento
+ * @param ranked - Chunks com match, do mais para o menos relevante
+ * @param selected - Resultados escolhidos
+ * @param seen - Chunks retornados em páginas anteriores (não listados)
+ * @param detail - Modo de conteúdo (vizinhos só são pulados com expanded)
+ * @param explainScore - Função que detalha a pontuação de um chunk
+ */
+function findNearMisses(
+    index: DocIndex,
+    ranked: DocChunk[],
+    selected: DocChunk[],
+    seen: Set<number>,
+    detail: ResultDetail,
+    explainScore: (chunkIndex: number) => ScoreExplanation | undefined,
+): NearMiss[] {
+    const selectedIndices = new Set(selected.map((hit) => hit.index));
+    const lowestScore = Math.min(...selected.map((hit) => hit.score));
+    const nearMisses: NearMiss[] = [];
+
+    for (const [position, chunk] of ranked.entries()) {
+        if (nearMisses.length >= NEAR_MISS_LIMIT) break;
+        if (selectedIndices.has(chunk.index) || seen.has(chunk.index)) continue;
+
+        const isNeighbor =
+            detail === "expanded" && (selectedIndices.has(chunk.index - 1) || selectedIndices.has(chunk.index + 1));
+
+        nearMisses.push({
+            index: chunk.index,
+            score: chunk.score,
+            rank: position + 1,
+            breadcrumb: index.metadata[chunk.index]?.breadcrumb ?? [],
+            reason: isNeighbor ? "neighbor" : chunk.score >= lowestScore ? "diversity" : "cutoff",
+            explanation: explainScore(chunk.index),
+        });
+    }
+
+    return nearMisses;
+}
+
+/**
+ * Divide o documento em chunks, reaproveitando o resultado de buscas recentes no mesmo documento
+ */
+function getRecentChunks(document: string, options: ChunkingOptions): string[] {
+    const key = `${createHash("sha256").update(document).digest("hex")}:${JSON.stringify(options)}`;
+    let chunks = recentDocuments.get(key);
+
+    if (chunks) {
+        // Move para o fim (mais recente)
+        recentDocuments.delete(key);
+    } else {
+        chunks = splitIntoChunks(document, options);
+    }
+
+    recentDocuments.set(key, chunks);
+
+    // Descarta o documento usado há mais tempo
+    if (recentDocuments.size > RECENT_DOCUMENTS_LIMIT) {
+        const oldest = recentDocuments.keys().next().value;
+        if (oldest !== undefined) recentDocuments.delete(oldest);
+    }
+
+    return chunks;
+}
+
 /**
  * Versão simplificada mantida para compatibilidade
  * @deprecated Use searchInDocs com options ao invés
  */
-export function searchInDocsLegacy(document: string, searchQuery: string, maxResults = 3): SearchResult {
+export function searchInDocsLegacy(document: string, searchQuery: string, maxResults = 3): Promise<SearchResult> {
     return searchInDocs(document, searchQuery, { maxResults });
 }
 
 /**
  * Seleciona os melhores resultados, evitando sobreposição de contexto
+ * Com detail "expanded", o conteúdo de cada resultado é o contexto expandido do chunk e chunks vizinhos
+ * de um resultado já escolhido são pulados; nos demais modos, o conteúdo é o próprio chunk.
+ * usedIndices traz os chunks já mostrados em páginas anteriores e recebe os cobertos pelos novos resultados
  */
-function selectBestResults(chunks: string[], relevantChunks: DocChunk[], maxResults: number): string[] {
-    const results: string[] = [];
-    const usedIndices = new Set<number>();
+function selectBestResults(
+    chunks: string[],
+    relevantChunks: DocChunk[],
+    maxResults: number,
+    maxContextSize: number,
+    detail: ResultDetail,
+    usedIndices: Set<number>,
+): DocChunk[] {
+    const results: DocChunk[] = [];
 
     for (const chunk of relevantChunks) {
         // Para quando atingir o máximo de resultados
@@ -96,19 +485,32 @@ function selectBestResults(chunks: string[], relevantChunks: DocChunk[], maxResu
         // Pula se este índice já foi usado (evita sobreposição)
         if (usedIndices.has(chunk.index)) continue;
 
-        // Marca índices usados (incluindo adjacentes)
-        usedIndices.add(chunk.index);
-        if (chunk.index > 0) {
-            usedIndices.add(chunk.index - 1);
-        }
-        if (chunk.index < chunks.length - 1) {
-            usedIndices.add(chunk.index + 1);
+        markUsed(usedIndices, chunk.index, chunks.length, detail);
+
+        if (detail !== "expanded") {
+            results.push(chunk);
+            continue;
         }
 
         // Adiciona contexto expandido ao resultado
-        const expandedContext = getExpandedContext(chunks, chunk.index);
-        results.push(expandedContext);
+        const expandedContext = getExpandedContext(chunks, chunk.index, maxContextSize);
+        results.push({ ...chunk, content: expandedContext });
     }
 
     return results;
 }
+
+/**
+ * Marca um resultado como usado; com detail "expanded", também os vizinhos (já mostrados como contexto)
+ */
+function markUsed(usedIndices: Set<number>, chunkIndex: number, chunkCount: number, detail: ResultDetail): void {
+    usedIndices.add(chunkIndex);
+    if (detail !== "expanded") return;
+
+    if (chunkIndex > 0) {
+        usedIndices.add(chunkIndex - 1);
+    }
+    if (chunkIndex < chunkCount - 1) {
+        usedIndices.add(chunkIndex + 1);
+    }
+}
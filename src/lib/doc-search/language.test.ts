@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { searchInChunks } from "./index.js";
+import { detectLanguage, getAnalyzer, resolveLanguage } from "./language.js";
+
+const PT_CHUNK =
+    "Para criar um usuário, envie os dados com o token de acesso. Os campos são obrigatórios e a resposta é um JSON.";
+const EN_CHUNK =
+    "To create a user, send the data with the access token. The fields are required and the response is a JSON.";
+
+describe("getAnalyzer", () => {
+    it("reduz variações da mesma palavra em português ao mesmo termo", () => {
+        const pt = getAnalyzer("pt");
+
+        assert.deepEqual(pt.analyze("Criando os usuários"), pt.analyze("criar usuário"));
+        assert.deepEqual(pt.analyze("Listando as páginas"), pt.analyze("listar página"));
+        assert.deepEqual(pt.analyze("configurações de autenticação"), pt.analyze("configuração da autenticação"));
+    });
+
+    it("reduz variações da mesma palavra em inglês ao mesmo termo", () => {
+        const en = getAnalyzer("en");
+
+        assert.deepEqual(en.analyze("Creating the users"), en.analyze("create a user"));
+        assert.deepEqual(en.analyze("How to paginate results"), en.analyze("pagination of result"));
+    });
+
+    it("remove as stopwords do idioma", () => {
+        assert.equal(getAnalyzer("pt").analyzeWord("para"), null);
+        assert.equal(getAnalyzer("en").analyzeWord("with"), null);
+        assert.equal(getAnalyzer("en").analyzeWord("para"), "para");
+    });
+
+    it("mantém as palavras sem idioma", () => {
+        assert.deepEqual(getAnalyzer(null).analyze("Criando os usuários"), ["criando", "os", "usuarios"]);
+    });
+});
+
+describe("detectLanguage", () => {
+    it("detecta o idioma pelas stopwords", () => {
+        assert.equal(detectLanguage([PT_CHUNK]), "pt");
+        assert.equal(detectLanguage([EN_CHUNK]), "en");
+    });
+
+    it("não escolhe idioma sem stopwords suficientes", () => {
+        assert.equal(detectLanguage(["GET /users POST /users DELETE /users/{id}"]), null);
+    });
+
+    it("respeita o idioma configurado", () => {
+        assert.equal(resolveLanguage("none", [PT_CHUNK]), null);
+        assert.equal(resolveLanguage("en", [PT_CHUNK]), "en");
+        assert.equal(resolveLanguage("auto", [PT_CHUNK]), "pt");
+    });
+});
+
+describe("searchInChunks (idioma)", () => {
+    const chunks = [
+        `# Usuários\n\n${PT_CHUNK}`,
+        "# Pedidos\n\nA listagem de pedidos é paginada e filtrada por status.",
+    ];
+
+    it("encontra a forma flexionada com stemming", async () => {
+        const result = await searchInChunks(chunks, "criando", { language: "pt" });
+
+        assert.deepEqual(
+            result.hits.map((hit) => hit.index),
+            [0],
+        );
+    });
+
+    it("busca apenas a palavra exata sem idioma", async () => {
+        const result = await searchInChunks(chunks, "criando", { language: "none" });
+
+        assert.equal(result.matchedChunks, 0);
+    });
+});
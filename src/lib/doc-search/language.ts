@@ -0,0 +1,124 @@
+/**
+ * Análise de texto por idioma
+ * Remove stopwords e reduz as palavras ao radical, no índice e na busca, para que variações
+ * da mesma palavra ("criando"/"criar", "users"/"user") se encontrem
+ */
+
+import { normalizeText } from "./scorer.js";
+import { stemEnglish, stemPortuguese } from "./stemmers.js";
+import { STOPWORDS } from "./stopwords.js";
+import { tokenizeText } from "./tokenizer.js";
+import type { DocLanguage, LanguageSetting } from "../../types/index.js";
+
+/** Stemmer de cada idioma */
+const STEMMERS: Record<DocLanguage, (word: string) => string> = {
+    pt: stemPortuguese,
+    en: stemEnglish,
+};
+
+/** Quantos tokens do documento são amostrados na detecção do idioma */
+const DETECTION_SAMPLE = 20_000;
+
+/** Mínimo de stopwords na amostra para considerar um idioma detectado */
+const MIN_DETECTION_HITS = 5;
+
+/**
+ * Analisador de texto de um idioma
+ */
+export interface TextAnalyzer {
+    /** Idioma aplicado (null: sem stemming e sem stopwords) */
+    language: DocLanguage | null;
+    /** Converte uma palavra normalizada no termo indexado (null: stopword) */
+    analyzeWord(word: string): string | null;
+    /** Retorna os termos indexados do texto: palavras normalizadas e tokens de identificadores (ver tokenizeText) */
+    analyze(text: string): string[];
+}
+
+/** Analisador sem idioma (sem stemming e sem stopwords) */
+const PLAIN_ANALYZER: TextAnalyzer = {
+    language: null,
+    analyzeWord: (word) => word,
+    analyze: tokenizeText,
+};
+
+/** Analisadores já criados, por idioma */
+const analyzers = new Map<DocLanguage, TextAnalyzer>();
+
+/**
+ * Retorna o analisador de um idioma
+ *
+ * @param language - Idioma (null: sem stemming e sem stopwords)
+ */
+export function getAnalyzer(language: DocLanguage | null): TextAnalyzer {
+    if (!language) {
+        return PLAIN_ANALYZER;
+    }
+
+    let analyzer = analyzers.get(language);
+
+    if (!analyzer) {
+        const stopwords = STOPWORDS[language];
+        const stem = STEMMERS[language];
+        const stems = new Map<string, string>();
+
+        const analyzeWord = (word: string): string | null => {
+            if (stopwords.has(word)) return null;
+
+            let stemmed = stems.get(word);
+            if (stemmed === undefined) {
+                stemmed = stem(word);
+                stems.set(word, stemmed);
+            }
+            return stemmed;
+        };
+
+        analyzer = {
+            language,
+            analyzeWord,
+            analyze: (text) =>
+                PLAIN_ANALYZER.analyze(text)
+                    .map(analyzeWord)
+                    .filter((term): term is string => term !== null),
+        };
+        analyzers.set(language, analyzer);
+    }
+
+    return analyzer;
+}
+
+/**
+ * Resolve o idioma configurado para um documento
+ *
+ * @param setting - Idioma configurado ("auto" detecta pelo conteúdo, "none" desativa)
+ * @param chunks - Chunks do documento (usados na detecção)
+ */
+export function resolveLanguage(setting: LanguageSetting, chunks: string[]): DocLanguage | null {
+    if (setting === "none") return null;
+    if (setting === "auto") return detectLanguage(chunks);
+    return setting;
+}
+
+/**
+ * Detecta o idioma de um documento pela frequência de stopwords de cada idioma
+ *
+ * @param chunks - Chunks do documento
+ * @returns Idioma predominante, ou null se nenhum tiver stopwords suficientes
+ */
+export function detectLanguage(chunks: string[]): DocLanguage | null {
+    const hits: Record<DocLanguage, number> = { pt: 0, en: 0 };
+    let sampled = 0;
+
+    for (const chunk of chunks) {
+        for (const word of normalizeText(chunk).split(" ")) {
+            if (STOPWORDS.pt.has(word)) hits.pt++;
+            if (STOPWORDS.en.has(word)) hits.en++;
+            sampled++;
+        }
+        if (sampled >= DETECTION_SAMPLE) break;
+    }
+
+    if (Math.max(hits.pt, hits.en) < MIN_DETECTION_HITS) {
+        return null;
+    }
+    return hits.pt > hits.en ? "pt" : "en";
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { extractChunkMetadata } from "./chunk-metadata.js";
+import { splitMarkdownIntoChunks } from "./markdown-chunker.js";
+
+const limits = { maxChunkSize: 200, minChunkSize: 10 };
+
+/**
+ * Número de cercas de código (``` ou ~~~) no início de linha
+ */
+function countFences(chunk: string): number {
+    return chunk.match(/^(?:```|~~~)/gm)?.length ?? 0;
+}
+
+describe("splitMarkdownIntoChunks", () => {
+    it("não divide em comentários dentro de blocos de código", () => {
+        const document = [
+            "# Install",
+            "Run the installer below.",
+            "```bash\n# comment, not a header\nnpm install tdocs7\n```",
+            "# Usage",
+            "Call the tool with a query.",
+        ].join("\n\n");
+
+        const chunks = splitMarkdownIntoChunks(document, limits);
+
+        assert.equal(chunks.length, 2);
+        assert.match(chunks[0] ?? "", /^# Install[\s\S]*# comment, not a header\nnpm install tdocs7\n```/);
+        assert.match(chunks[1] ?? "", /^# Usage/);
+    });
+
+    it("divide blocos grandes em linhas em branco, cercando cada parte", () => {
+        const code = Array.from({ length: 6 }, (_, i) => `const value${i} = compute(${i});\nconsole.log(value${i});`);
+        const document = `# Example\n\nThis example shows many values.\n\n\`\`\`ts\n${code.join("\n\n")}\n\`\`\``;
+
+        const chunks = splitMarkdownIntoChunks(document, limits);
+
+        assert.equal(chunks.length, 2);
+        assert.match(chunks[0] ?? "", /^# Example\n\nThis example shows many values\.\n\n```ts\nconst value0/);
+        assert.match(chunks[1] ?? "", /^```ts\nconst value3[\s\S]*console\.log\(value5\);\n```$/);
+        for (const chunk of chunks) {
+            assert.ok(chunk.length <= limits.maxChunkSize, `${chunk.length} > ${limits.maxChunkSize}`);
+            assert.equal(countFences(chunk), 2);
+        }
+    });
+
+    it("mantém o código junto do parágrafo anterior", () => {
+        const chunks = splitMarkdownIntoChunks(
+            "Intro paragraph with enough text here.\n\n```js\nrun();\n```\n\nSecond paragraph with enough text too.",
+            limits,
+        );
+
+        assert.deepEqual(chunks, [
+            "Intro paragraph with enough text here.\n\n```js\nrun();\n```",
+            "Second paragraph with enough text too.",
+        ]);
+    });
+
+    it("trata um bloco sem fechamento como código até o fim do documento", () => {
+        const document = "Unclosed fence follows here.\n\n```sh\n# not a header\necho hi";
+
+        assert.deepEqual(splitMarkdownIntoChunks(document, limits), [document]);
+    });
+
+    it("reconhece código indentado apenas fora de listas", () => {
+        const code = splitMarkdownIntoChunks(
+            "Plain paragraph with text.\n\n    line one\n\n    line two\n\nNext paragraph here.",
+            limits,
+        );
+        const list = splitMarkdownIntoChunks("- item one with text\n\n    continuation of the item\n", limits);
+
+        // O código indentado, com a linha em branco no meio, fica inteiro junto do parágrafo
+        assert.deepEqual(code, ["Plain paragraph with text.\n\n    line one\n\n    line two", "Next paragraph here."]);
+        // Na lista, a linha indentada é texto: não se junta ao item como código
+        assert.deepEqual(list, ["- item one with text", "continuation of the item"]);
+    });
+
+    it("mantém headers seguidos no chunk do conteúdo e o caminho nas continuações", () => {
+        const body = "Send the new account fields in the body. ".repeat(8);
+        const document = `# API\n\n## Users\n\n### Create user\n\n${body}\n\n\`\`\`bash\n# not a heading\ncurl -X POST\n\`\`\``;
+
+        const chunks = splitMarkdownIntoChunks(document, limits);
+
+        assert.equal(chunks.length, 3);
+        assert.match(chunks[0] ?? "", /^# API\n\n## Users\n\n### Create user\n\nSend/);
+        assert.deepEqual(
+            extractChunkMetadata(chunks).map((chunk) => chunk.breadcrumb),
+            [["API"], ["API", "Users", "Create user"], ["API", "Users", "Create user"]],
+        );
+    });
+});
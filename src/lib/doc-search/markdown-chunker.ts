@@ -0,0 +1,425 @@
+/**
+ * Módulo de chunking para documentação Markdown/texto
+ * Reconhece headers, separadores e parágrafos apenas fora de blocos de código (``` / ~~~ ou indentados):
+ * um "# comentário" em um exemplo de bash não inicia uma seção, e um bloco de código nunca é cortado no meio
+ */
+
+import type { SplitLimits } from "./chunker.js";
+import { CHUNK_STRATEGIES, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, SEPARATION_PATTERNS } from "./patterns.js";
+import type { ChunkStrategy } from "../../types/index.js";
+
+/**
+ * Bloco de um documento Markdown
+ */
+interface MarkdownBlock {
+    /** Tipo do bloco (texto inclui listas, tabelas e citações) */
+    type: "header" | "rule" | "code" | "text";
+    /** Primeira linha do bloco */
+    start: number;
+    /** Linha seguinte à última linha do bloco */
+    end: number;
+    /** Linhas de abertura e fechamento, se for um bloco de código cercado (closed: se a cerca fecha no documento) */
+    fence?: { open: string; close: string; closed: boolean };
+}
+
+/**
+ * Grupo de blocos mantidos juntos: header, o texto logo depois dele e o código logo depois do texto
+ */
+interface BlockGroup {
+    blocks: MarkdownBlock[];
+    /** Se o grupo já tem um bloco de código */
+    hasCode: boolean;
+    /** Se o grupo já tem texto além do header */
+    hasText: boolean;
+}
+
+/** Abertura de bloco cercado (``` ou ~~~, com até 3 espaços de recuo) */
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+
+/** Header Markdown (mesmo critério de SEPARATION_PATTERNS.headers) */
+const HEADER_LINE = /^#{1,6}\s+\S/;
+
+/** Separador horizontal (mesmo critério de SEPARATION_PATTERNS.horizontalRules) */
+const RULE_LINE = /^(?:---+|\*{3,}|={3,})$/;
+
+/** Linha de código indentado (4 espaços ou tab) */
+const INDENTED_LINE = /^(?: {4}|\t)/;
+
+/** Item de lista (linhas indentadas depois dele são continuação, não código) */
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Texto separado em linhas e blocos
+ */
+interface ParsedText {
+    lines: string[];
+    blocks: MarkdownBlock[];
+    /** Texto original entre duas linhas (a segunda não incluída) */
+    slice: (start: number, end: number) => string;
+}
+
+/**
+ * Divide documento Markdown/texto em chunks usando padrões de separação hierárquicos
+ * Prioridade padrão: Headers > Separadores horizontais > Parágrafos > Sentenças (ver limits.strategies).
+ * O documento é dividido pela primeira estratégia que o separa; chunks que ainda excedem o tamanho máximo
+ * são subdivididos pelas estratégias seguintes.
+ * Um bloco de código é uma unidade: fica junto com o texto logo antes dele e, se não couber no chunk,
+ * é dividido apenas em linhas em branco (cada parte volta a ser cercada por ```)
+ *
+ * @param document - Documento Markdown ou texto
+ * @param limits - Tamanhos máximo e mínimo dos chunks (em caracteres) e estratégias de divisão
+ * @returns Array de chunks de texto
+ */
+export function splitMarkdownIntoChunks(
+    document: string,
+    limits: SplitLimits = { maxChunkSize: MAX_CHUNK_SIZE, minChunkSize: MIN_CHUNK_SIZE },
+): string[] {
+    const { maxChunkSize, minChunkSize, strategies = CHUNK_STRATEGIES } = limits;
+    const parsed = parseText(document);
+
+    // 1. Divide pela primeira estratégia que separa o documento (mesmo que ele caiba em um chunk)
+    let chunks = [document];
+    let remaining: ChunkStrategy[] = [];
+
+    for (const [position, strategy] of strategies.entries()) {
+        const parts = applyStrategy(parsed, strategy, maxChunkSize);
+        if (parts.length > 1) {
+            chunks = parts;
+            remaining = strategies.slice(position + 1);
+            break;
+        }
+    }
+
+    // 2. Refina chunks muito grandes com as estratégias seguintes
+    const refinedChunks = chunks.flatMap((chunk) => refineChunk(chunk, remaining, maxChunkSize));
+
+    // 3. Remove chunks muito pequenos
+    return refinedChunks.filter((chunk) => chunk.trim().length > minChunkSize);
+}
+
+/**
+ * Subdivide um chunk que excede o tamanho máximo pela primeira estratégia que o separa,
+ * e cada parte ainda grande demais pelas estratégias seguintes
+ */
+function refineChunk(chunk: string, strategies: ChunkStrategy[], maxChunkSize: number): string[] {
+    if (chunk.length <= maxChunkSize || strategies.length === 0) {
+        return [chunk];
+    }
+
+    const parsed = parseText(chunk);
+
+    for (const [position, strategy] of strategies.entries()) {
+        const parts = applyStrategy(parsed, strategy, maxChunkSize);
+        if (parts.length > 1) {
+            const next = strategies.slice(position + 1);
+            return parts.flatMap((part) => refineChunk(part, next, maxChunkSize));
+        }
+    }
+
+    return [chunk];
+}
+
+/**
+ * Divide o texto por uma estratégia
+ * - headers: no início de cada header (o header fica com o conteúdo)
+ * - rules: nos separadores horizontais (removidos)
+ * - paragraphs: em grupos de blocos (ver groupBlocks)
+ * - sentences: grupos grandes demais por sentenças (texto) ou em linhas em branco (código)
+ */
+function applyStrategy(parsed: ParsedText, strategy: ChunkStrategy, maxChunkSize: number): string[] {
+    const { lines, blocks, slice } = parsed;
+
+    switch (strategy) {
+        case "headers":
+        case "rules":
+            return splitAtBlocks(blocks, strategy === "headers" ? "header" : "rule", lines.length, slice);
+        case "paragraphs":
+            return groupBlocks(blocks).map((group) => sliceGroup(group, slice).trim());
+        case "sentences":
+            return splitGroups(parsed, maxChunkSize);
+    }
+}
+
+/**
+ * Separa o texto em linhas e blocos
+ */
+function parseText(text: string): ParsedText {
+    const lines = text.split("\n");
+    const offsets = getLineOffsets(lines);
+
+    return {
+        lines,
+        blocks: parseBlocks(lines),
+        slice: (start, end) => text.slice(offsets[start], offsets[end]),
+    };
+}
+
+/**
+ * Posição de início de cada linha no documento (com uma posição extra para o fim)
+ */
+function getLineOffsets(lines: string[]): number[] {
+    const offsets = [0];
+    for (const line of lines) {
+        offsets.push((offsets[offsets.length - 1] as number) + line.length + 1);
+    }
+    return offsets;
+}
+
+/**
+ * Separa as linhas em blocos; linhas em branco ficam entre os blocos
+ */
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i] as string;
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        // Bloco cercado: vai até a cerca de fechamento (ou até o fim do documento, se não fechar)
+        const fence = FENCE_OPEN.exec(line)?.[1];
+        if (fence) {
+            const closing = new RegExp(`^ {0,3}${fence[0] === "`" ? "`" : "~"}{${fence.length},}\\s*$`);
+            let end = i + 1;
+            while (end < lines.length && !closing.test(lines[end] as string)) end++;
+
+            const closed = end < lines.length;
+            const close = closed ? (lines[end] as string) : fence;
+            blocks.push({ type: "code", start: i, end: closed ? end + 1 : end, fence: { open: line, close, closed } });
+            i = end + 1;
+            continue;
+        }
+
+        if (HEADER_LINE.test(line)) {
+            blocks.push({ type: "header", start: i, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        if (RULE_LINE.test(line)) {
+            blocks.push({ type: "rule", start: i, end: i + 1 });
+            i++;
+            continue;
+        }
+
+        // Código indentado: só depois de uma linha em branco e fora de listas
+        const previous = blocks[blocks.length - 1];
+        const afterBlank = i === 0 || !(lines[i - 1] as string).trim();
+        const inList = previous?.type === "text" && LIST_ITEM.test(lines[previous.start] as string);
+
+        if (INDENTED_LINE.test(line) && afterBlank && !inList) {
+            let end = i + 1;
+            let last = i;
+            while (end < lines.length && (INDENTED_LINE.test(lines[end] as string) || !(lines[end] as string).trim())) {
+                if ((lines[end] as string).trim()) last = end;
+                end++;
+            }
+
+            blocks.push({ type: "code", start: i, end: last + 1 });
+            i = last + 1;
+            continue;
+        }
+
+        // Texto: até uma linha em branco ou o início de outro tipo de bloco
+        let end = i + 1;
+        while (end < lines.length) {
+            const next = lines[end] as string;
+            if (!next.trim() || FENCE_OPEN.test(next) || HEADER_LINE.test(next) || RULE_LINE.test(next)) break;
+            end++;
+        }
+
+        blocks.push({ type: "text", start: i, end });
+        i = end;
+    }
+
+    return blocks;
+}
+
+/**
+ * Divide o documento no início de cada bloco do tipo (headers) ou nos próprios blocos (separadores, removidos)
+ * Headers sem conteúdo até o próximo ficam no mesmo chunk ("## Users" logo antes de "### Create user"),
+ * para não virarem chunks pequenos demais, descartados junto com o caminho da seção
+ * Retorna no máximo um chunk quando não há divisão possível
+ */
+function splitAtBlocks(
+    blocks: MarkdownBlock[],
+    type: "header" | "rule",
+    lineCount: number,
+    slice: (start: number, end: number) => string,
+): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+    let hasContent = false;
+
+    for (const block of blocks) {
+        if (block.type !== type) {
+            hasContent ||= block.type !== "header";
+            continue;
+        }
+        if (type === "header" && !hasContent) continue;
+
+        chunks.push(slice(start, block.start));
+        start = type === "header" ? block.start : block.end;
+        hasContent = false;
+    }
+    chunks.push(slice(start, lineCount));
+
+    return chunks.filter((chunk) => chunk.trim());
+}
+
+/**
+ * Agrupa os blocos: cada header, parágrafo ou separador inicia um grupo; headers seguidos, o texto logo depois
+ * de um header e o código logo depois do texto entram no mesmo grupo. Separadores são descartados
+ */
+function groupBlocks(blocks: MarkdownBlock[]): BlockGroup[] {
+    const groups: BlockGroup[] = [];
+    let current: BlockGroup | null = null;
+
+    for (const block of blocks) {
+        if (block.type === "rule") {
+            current = null;
+            continue;
+        }
+
+        const joinsCurrent =
+            current !== null &&
+            ((block.type === "code" && !current.hasCode) ||
+                (block.type !== "code" && !current.hasText && !current.hasCode));
+
+        if (current && joinsCurrent) {
+            current.blocks.push(block);
+        } else {
+            current = { blocks: [block], hasCode: false, hasText: false };
+            groups.push(current);
+        }
+
+        current.hasCode ||= block.type === "code";
+        current.hasText ||= block.type === "text";
+    }
+
+    return groups;
+}
+
+/**
+ * Texto original de um grupo, do primeiro ao último bloco
+ */
+function sliceGroup(group: BlockGroup, slice: (start: number, end: number) => string): string {
+    const first = group.blocks[0] as MarkdownBlock;
+    const last = group.blocks[group.blocks.length - 1] as MarkdownBlock;
+    return slice(first.start, last.end);
+}
+
+/**
+ * Divide os grupos de blocos (ver groupBlocks) que excedem o tamanho máximo: por sentenças (texto)
+ * ou em linhas em branco (código). Um texto sem código é dividido inteiro por sentenças
+ */
+function splitGroups(parsed: ParsedText, maxChunkSize: number): string[] {
+    const { lines, blocks } = parsed;
+    const slice = (start: number, end: number) => parsed.slice(start, end).trim();
+    const groups = groupBlocks(blocks);
+
+    // Último recurso para um único bloco de texto: divide por sentenças
+    if (groups.length <= 1 && !groups[0]?.hasCode) {
+        return splitBySentences(parsed.slice(0, lines.length), maxChunkSize);
+    }
+
+    return groups.flatMap((group) => {
+        const text = slice((group.blocks[0] as MarkdownBlock).start, (group.blocks.at(-1) as MarkdownBlock).end);
+        if (text.length <= maxChunkSize) {
+            return [text];
+        }
+
+        const code = group.blocks.find((block) => block.type === "code");
+        const prose = group.blocks.filter((block) => block.type !== "code");
+        const lead =
+            prose.length > 0 ? slice((prose[0] as MarkdownBlock).start, (prose.at(-1) as MarkdownBlock).end) : "";
+
+        if (!code) {
+            return splitBySentences(lead, maxChunkSize);
+        }
+
+        // O texto fica com a primeira parte do código, se couber; senão, segue sozinho
+        const codeParts = splitCodeBlock(lines, code, maxChunkSize);
+        const first = codeParts[0] ?? "";
+
+        if (lead && lead.length + first.length + 2 <= maxChunkSize) {
+            return [`${lead}\n\n${first}`, ...codeParts.slice(1)];
+        }
+
+        const leadChunks = lead.length > maxChunkSize ? splitBySentences(lead, maxChunkSize) : lead ? [lead] : [];
+        return [...leadChunks, ...codeParts];
+    });
+}
+
+/**
+ * Divide um bloco de código em linhas em branco, agrupando os trechos até o tamanho máximo
+ * Trechos sem linha em branco maiores que o máximo ficam inteiros. Cada parte de um bloco cercado
+ * recebe as cercas de abertura (com a linguagem) e de fechamento
+ */
+function splitCodeBlock(lines: string[], block: MarkdownBlock, maxChunkSize: number): string[] {
+    const bodyStart = block.fence ? block.start + 1 : block.start;
+    const bodyEnd = block.fence?.closed ? block.end - 1 : block.end;
+    const body = lines.slice(bodyStart, bodyEnd);
+    const fenceSize = block.fence ? block.fence.open.length + block.fence.close.length + 2 : 0;
+
+    // Trechos separados por linhas em branco
+    const pieces: string[] = [];
+    let piece: string[] = [];
+    for (const line of body) {
+        if (!line.trim() && piece.length > 0) {
+            pieces.push(piece.join("\n"));
+            piece = [];
+        } else if (line.trim()) {
+            piece.push(line);
+        }
+    }
+    if (piece.length > 0) pieces.push(piece.join("\n"));
+
+    const parts: string[] = [];
+    let current = "";
+    for (const text of pieces) {
+        if (current && current.length + text.length + 2 + fenceSize > maxChunkSize) {
+            parts.push(current);
+            current = text;
+        } else {
+            current += (current ? "\n\n" : "") + text;
+        }
+    }
+    if (current) parts.push(current);
+
+    return block.fence ? parts.map((part) => `${block.fence?.open}\n${part}\n${block.fence?.close}`) : parts;
+}
+
+/**
+ * Divide um texto por sentenças, agrupando para não exceder o tamanho máximo
+ *
+ * @param chunk - Texto para dividir
+ * @param maxChunkSize - Tamanho máximo de um chunk
+ * @returns Array de chunks divididos por sentenças
+ */
+function splitBySentences(chunk: string, maxChunkSize: number): string[] {
+    const sentences = chunk.split(SEPARATION_PATTERNS.sentences);
+    const result: string[] = [];
+    let currentChunk = "";
+
+    for (const sentence of sentences) {
+        const wouldExceed = (currentChunk + sentence).length > maxChunkSize && currentChunk;
+
+        if (wouldExceed) {
+            result.push(currentChunk.trim());
+            currentChunk = sentence;
+        } else {
+            currentChunk += (currentChunk ? " " : "") + sentence;
+        }
+    }
+
+    if (currentChunk.trim()) {
+        result.push(currentChunk.trim());
+    }
+
+    return result;
+}
@@ -2,7 +2,7 @@
  * Padrões de separação para divisão de documentação em chunks
  */
 
-import type { HtmlPatterns, SeparationPatterns } from "../../types/index.js";
+import type { ChunkStrategy, HtmlPatterns, SeparationPatterns } from "../../types/index.js";
 
 /**
  * Padrões regex para identificar e dividir seções de documentação
@@ -82,7 +82,22 @@ export const MAX_CHUNK_SIZE = 2000;
  */
 export const MIN_CHUNK_SIZE = 10;
 
+/**
+ * Estratégias de divisão padrão, na ordem em que são tentadas
+ */
+export const CHUNK_STRATEGIES: ChunkStrategy[] = ["headers", "rules", "paragraphs", "sentences"];
+
+/**
+ * Sobreposição padrão entre chunks consecutivos (sem sobreposição)
+ */
+export const CHUNK_OVERLAP = 0;
+
 /**
  * Tamanho máximo do contexto expandido (chunk + adjacentes)
  */
 export const MAX_CONTEXT_SIZE = 3000;
+
+/**
+ * Caracteres por token, em média (estimativa usada para converter max_tokens e tamanhos de chunk em caracteres)
+ */
+export const CHARS_PER_TOKEN = 4;
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildDocIndex } from "./doc-index.js";
+import { createQueryFilter, findMatchedTerms, parseQuery, QueryParseError } from "./query.js";
+
+const chunks = [
+    "# Users\n\n**POST** `/users`\n\n*Tags:* `accounts`\n\nCreates a user account.",
+    "**GET** `/users/{id}`\n\n```ts\nconst user = await client.getUser(id);\n```",
+    "# Billing\n\n**DELETE** `/invoices/{id}`\n\nDeletes a draft invoice (deprecated).",
+];
+
+/**
+ * Índices dos chunks que atendem à busca
+ */
+function matchingChunks(query: string): number[] {
+    const filter = createQueryFilter(buildDocIndex(chunks), parseQuery(query));
+    return chunks.map((_, index) => index).filter(filter);
+}
+
+/**
+ * Trecho da busca apontado pelo erro de sintaxe
+ */
+function parseErrorToken(query: string): string {
+    try {
+        parseQuery(query);
+    } catch (error) {
+        assert.ok(error instanceof QueryParseError);
+        return error.token;
+    }
+    assert.fail(`parseQuery deveria ter falhado: ${query}`);
+}
+
+describe("parseQuery", () => {
+    it("separa o texto de ranking das frases, filtros e exclusões", () => {
+        const parsed = parseQuery('create "user account" method:post -deprecated');
+
+        assert.equal(parsed.text, "create user account");
+        assert.deepEqual(parsed.phrases, ["user account"]);
+        assert.deepEqual(parsed.required, [
+            [{ type: "phrase", value: "user account" }],
+            [{ type: "field", field: "method", value: "POST" }],
+        ]);
+        assert.deepEqual(parsed.excluded, [{ type: "word", value: "deprecated" }]);
+    });
+
+    it("agrupa alternativas ligadas por OR", () => {
+        const parsed = parseQuery('method:get OR method:delete "draft"');
+
+        assert.deepEqual(parsed.required, [
+            [
+                { type: "field", field: "method", value: "GET" },
+                { type: "field", field: "method", value: "DELETE" },
+            ],
+            [{ type: "phrase", value: "draft" }],
+        ]);
+    });
+
+    it("mantém palavras soltas opcionais", () => {
+        assert.deepEqual(parseQuery("users OR accounts").required, []);
+    });
+
+    it("normaliza os valores dos filtros", () => {
+        assert.deepEqual(parseQuery('path:Users heading:"Billing API" lang:TypeScript').required, [
+            [{ type: "field", field: "path", value: "/users" }],
+            [{ type: "field", field: "heading", value: "billing api" }],
+            [{ type: "field", field: "lang", value: "ts" }],
+        ]);
+    });
+
+    const syntaxErrors: [string, string][] = [
+        ['"user account', '"user account'],
+        ["OR users", "OR"],
+        ["users OR", "OR"],
+        ["users OR OR accounts", "OR"],
+        ["users -", "-"],
+        ["users -draft OR -beta", "-draft"],
+        ["-deprecated", "-deprecated"],
+        ["users -the", "-the"],
+        ["usuarios -de", "-de"],
+        ["method:FETCH", "method:FETCH"],
+        ["path:", "path:"],
+        ['users ""', '""'],
+    ];
+
+    for (const [query, token] of syntaxErrors) {
+        it(`aponta o erro de sintaxe em: ${query}`, () => {
+            assert.equal(parseErrorToken(query), token);
+        });
+    }
+});
+
+describe("createQueryFilter", () => {
+    it("exige a frase exata", () => {
+        assert.deepEqual(matchingChunks('"user account"'), [0]);
+    });
+
+    it("filtra por método, caminho, tag, seção e linguagem", () => {
+        assert.deepEqual(matchingChunks("method:post"), [0]);
+        assert.deepEqual(matchingChunks("path:/users"), [0, 1]);
+        assert.deepEqual(matchingChunks("tag:accounts"), [0]);
+        assert.deepEqual(matchingChunks("heading:users"), [0, 1]);
+        assert.deepEqual(matchingChunks("lang:typescript"), [1]);
+    });
+
+    it("compara o caminho por segmentos inteiros", () => {
+        const index = buildDocIndex(["`/users/{id}`", "`/users-archive`", "`/users`"]);
+        const matches = (query: string) => [0, 1, 2].filter(createQueryFilter(index, parseQuery(query)));
+
+        assert.deepEqual(matches("path:/users"), [0, 2]);
+        assert.deepEqual(matches("path:/users/"), [0, 2]);
+        assert.deepEqual(matches("path:/user"), []);
+        assert.deepEqual(matches("path:/"), [0, 1, 2]);
+    });
+
+    it("aceita qualquer alternativa do grupo OR", () => {
+        assert.deepEqual(matchingChunks("method:get OR method:delete"), [1, 2]);
+    });
+
+    it("remove os trechos excluídos", () => {
+        assert.deepEqual(matchingChunks("method:get OR method:delete -deprecated"), [1]);
+        assert.deepEqual(matchingChunks('heading:users -"user account"'), [1]);
+    });
+});
+
+describe("findMatchedTerms", () => {
+    it("lista as frases e palavras da busca presentes no chunk", () => {
+        const index = buildDocIndex(chunks);
+        const query = parseQuery('"user account" creates invoice method:post');
+
+        assert.deepEqual(findMatchedTerms(index, query, [], 0), ["user account", "user", "account", "creates"]);
+        assert.deepEqual(findMatchedTerms(index, query, [], 2), ["invoice"]);
+    });
+
+    it("usa os termos corrigidos das palavras sem match", () => {
+        const index = buildDocIndex(chunks);
+
+        const matched = findMatchedTerms(
+            index,
+            parseQuery("invoise"),
+            [{ term: "invoise", replacements: ["invoice"] }],
+            2,
+        );
+
+        assert.deepEqual(matched, ["invoice"]);
+    });
+});
@@ -0,0 +1,394 @@
+/**
+ * Sintaxe de busca
+ *
+ * - `"frase exata"`: o trecho precisa conter a frase
+ * - `-termo` / `-"frase"`: exclui trechos que contêm o termo
+ * - `a OR b`: basta uma das alternativas (entre frases e filtros)
+ * - `campo:valor`: filtros method:, path:, tag:, heading: e lang: (aceitam `campo:"valor com espaços"`)
+ *
+ * Palavras soltas continuam opcionais: servem ao ranking, como antes
+ */
+
+import { HTTP_METHODS, normalizeCodeLanguage } from "./chunk-metadata.js";
+import { type DocIndex, findChunksContaining } from "./doc-index.js";
+import { getAnalyzer } from "./language.js";
+import { normalizeText } from "./scorer.js";
+import { STOPWORDS } from "./stopwords.js";
+import type { TermCorrection } from "../../types/index.js";
+
+/** Campos aceitos nos filtros */
+export const QUERY_FIELDS = ["method", "path", "tag", "heading", "lang"] as const;
+
+/** Campo de filtro */
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+/**
+ * Condição que um trecho satisfaz ou não
+ */
+export type QueryCondition =
+    | { type: "word"; value: string }
+    | { type: "phrase"; value: string }
+    | { type: "field"; field: QueryField; value: string };
+
+/**
+ * Busca interpretada
+ */
+export interface ParsedQuery {
+    /** Texto usado no ranking: palavras e frases positivas, sem operadores */
+    text: string;
+    /** Frases positivas (também pontuadas como termos próprios) */
+    phrases: string[];
+    /** Grupos obrigatórios: o trecho precisa satisfazer ao menos uma condição de cada grupo */
+    required: QueryCondition[][];
+    /** Condições de exclusão: o trecho não pode satisfazer nenhuma */
+    excluded: QueryCondition[];
+}
+
+/**
+ * Erro de sintaxe na busca, com o trecho da busca que o causou
+ */
+export class QueryParseError extends Error {
+    constructor(
+        message: string,
+        public readonly token: string,
+    ) {
+        super(message);
+        this.name = "QueryParseError";
+    }
+}
+
+/**
+ * Elemento da busca já separado
+ */
+interface QueryToken {
+    /** Texto original do elemento */
+    raw: string;
+    /** Operador OR */
+    or: boolean;
+    /** Precedido de "-" */
+    negated: boolean;
+    /** Condição representada (ausente no OR) */
+    condition?: QueryCondition;
+}
+
+/**
+ * Interpreta a sintaxe da busca
+ *
+ * @param query - Busca do usuário
+ * @returns Texto para ranking, condições obrigatórias e exclusões
+ * @throws {QueryParseError} Se a busca tiver erro de sintaxe
+ */
+export function parseQuery(query: string): ParsedQuery {
+    const tokens = tokenizeQuery(query);
+
+    // Agrupa elementos ligados por OR
+    const groups: QueryToken[][] = [];
+    let pendingOr: QueryToken | null = null;
+
+    for (const token of tokens) {
+        if (token.or) {
+            if (groups.length === 0 || pendingOr) {
+                throw new QueryParseError('"OR" precisa de um termo antes e depois', token.raw);
+            }
+            pendingOr = token;
+            continue;
+        }
+
+        const lastGroup = groups[groups.length - 1];
+        if (pendingOr && lastGroup) {
+            lastGroup.push(token);
+            pendingOr = null;
+        } else {
+            groups.push([token]);
+        }
+    }
+
+    if (pendingOr) {
+        throw new QueryParseError('"OR" precisa de um termo antes e depois', pendingOr.raw);
+    }
+
+    const parsed: ParsedQuery = { text: "", phrases: [], required: [], excluded: [] };
+    const textParts: string[] = [];
+
+    for (const group of groups) {
+        const negated = group.find((token) => token.negated);
+        if (negated && group.length > 1) {
+            throw new QueryParseError(`"OR" não pode ligar exclusões: ${negated.raw}`, negated.raw);
+        }
+
+        const conditions = group.map((token) => token.condition as QueryCondition);
+
+        if (negated) {
+            // Stopwords não são indexadas: a exclusão não removeria nenhum trecho
+            const [condition] = conditions;
+            if (condition?.type === "word" && isStopwordInAnyLanguage(condition.value)) {
+                throw new QueryParseError(`Stopwords não podem ser excluídas: ${negated.raw}`, negated.raw);
+            }
+            parsed.excluded.push(...conditions);
+            continue;
+        }
+
+        for (const condition of conditions) {
+            if (condition.type === "phrase") parsed.phrases.push(condition.value);
+            if (condition.type !== "field") textParts.push(condition.value);
+        }
+
+        // Palavras soltas (ou só palavras ligadas por OR) apenas pontuam
+        if (conditions.some((condition) => condition.type !== "word")) {
+            parsed.required.push(conditions);
+        }
+    }
+
+    parsed.text = textParts.join(" ");
+
+    if (!parsed.text && parsed.required.length === 0 && tokens[0]) {
+        throw new QueryParseError(
+            `A busca precisa de ao menos um termo ou filtro além das exclusões: ${tokens[0].raw}`,
+            tokens[0].raw,
+        );
+    }
+
+    return parsed;
+}
+
+/**
+ * Cria o filtro de trechos de uma busca
+ *
+ * @param index - Índice do documento
+ * @param query - Busca interpretada
+ * @returns Função que diz se o chunk atende às condições obrigatórias e a nenhuma exclusão
+ */
+export function createQueryFilter(index: DocIndex, query: ParsedQuery): (chunkIndex: number) => boolean {
+    const required = query.required.map((group) => group.map((condition) => findMatchingChunks(index, condition)));
+    const excluded = query.excluded.map((condition) => findMatchingChunks(index, condition));
+
+    return (chunkIndex) =>
+        required.every((group) => group.some((matches) => matches.has(chunkIndex))) &&
+        !excluded.some((matches) => matches.has(chunkIndex));
+}
+
+/**
+ * Palavras e frases da busca presentes em um chunk
+ * Palavras comparam pelo termo indexado (radical); uma palavra corrigida conta pelo termo que a substituiu
+ *
+ * @param index - Índice do documento
+ * @param query - Busca interpretada
+ * @param corrections - Palavras corrigidas na busca
+ * @param chunkIndex - Chunk avaliado
+ * @returns Termos normalizados, na ordem da busca
+ */
+export function findMatchedTerms(
+    index: DocIndex,
+    query: ParsedQuery,
+    corrections: TermCorrection[],
+    chunkIndex: number,
+): string[] {
+    const analyzer = getAnalyzer(index.language);
+    const replacements = new Map(corrections.map(({ term, replacements }) => [term, replacements]));
+    const matched = new Set<string>();
+
+    const hasWord = (word: string) => {
+        const token = analyzer.analyzeWord(word);
+        return token !== null && (index.postings.get(token)?.has(chunkIndex) ?? false);
+    };
+
+    for (const phrase of query.phrases) {
+        const normalized = normalizeText(phrase);
+        if (findChunksContaining(index, normalized).has(chunkIndex)) matched.add(normalized);
+    }
+
+    for (const word of normalizeText(query.text).split(" ")) {
+        if (!word) continue;
+
+        if (hasWord(word)) {
+            matched.add(word);
+        } else {
+            for (const replacement of replacements.get(word) ?? []) {
+                if (hasWord(normalizeText(replacement))) matched.add(normalizeText(replacement));
+            }
+        }
+    }
+
+    return [...matched];
+}
+
+/**
+ * Separa a busca em palavras, frases, filtros e operadores
+ */
+function tokenizeQuery(query: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let position = 0;
+
+    while (position < query.length) {
+        // Espaços entre elementos
+        if (/\s/.test(query[position] as string)) {
+            position++;
+            continue;
+        }
+
+        const start = position;
+        const negated = query[position] === "-";
+        if (negated) {
+            position++;
+            if (position >= query.length || /\s/.test(query[position] as string)) {
+                throw new QueryParseError('"-" sem termo a excluir', "-");
+            }
+        }
+
+        // Filtro campo:valor
+        const field = QUERY_FIELDS.find((name) => query.startsWith(`${name}:`, position));
+        if (field) {
+            position += field.length + 1;
+            const value = readValue(query, position, start);
+            position = value.end;
+
+            const raw = query.slice(start, position);
+            tokens.push({ raw, or: false, negated, condition: createFieldCondition(field, value.text, raw) });
+            continue;
+        }
+
+        // Frase entre aspas ou palavra
+        const value = readValue(query, position, start);
+        position = value.end;
+        const raw = query.slice(start, position);
+
+        if (value.quoted) {
+            if (!normalizeText(value.text)) {
+                throw new QueryParseError(`Frase vazia: ${raw}`, raw);
+            }
+            tokens.push({ raw, or: false, negated, condition: { type: "phrase", value: value.text } });
+        } else if (value.text === "OR" && !negated) {
+            tokens.push({ raw, or: true, negated: false });
+        } else {
+            tokens.push({ raw, or: false, negated, condition: { type: "word", value: value.text } });
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Verifica se todas as palavras do termo são stopwords de algum idioma
+ */
+function isStopwordInAnyLanguage(value: string): boolean {
+    return normalizeText(value)
+        .split(" ")
+        .every((word) => Object.values(STOPWORDS).some((stopwords) => stopwords.has(word)));
+}
+
+/**
+ * Lê uma palavra ou um texto entre aspas a partir da posição
+ *
+ * @param query - Busca completa
+ * @param position - Início do valor
+ * @param tokenStart - Início do elemento (para a mensagem de erro)
+ */
+function readValue(
+    query: string,
+    position: number,
+    tokenStart: number,
+): { text: string; end: number; quoted: boolean } {
+    if (query[position] === '"') {
+        const closing = query.indexOf('"', position + 1);
+        if (closing === -1) {
+            const raw = query.slice(tokenStart);
+            throw new QueryParseError(`Aspas sem fechamento: ${raw}`, raw);
+        }
+        return { text: query.slice(position + 1, closing), end: closing + 1, quoted: true };
+    }
+
+    let end = position;
+    while (end < query.length && !/\s/.test(query[end] as string)) end++;
+
+    return { text: query.slice(position, end), end, quoted: false };
+}
+
+/**
+ * Valida e normaliza o valor de um filtro
+ */
+function createFieldCondition(field: QueryField, value: string, raw: string): QueryCondition {
+    const trimmed = value.trim();
+    if (!trimmed) {
+        throw new QueryParseError(`Filtro sem valor: ${raw}`, raw);
+    }
+
+    switch (field) {
+        case "method": {
+            const method = trimmed.toUpperCase();
+            if (!HTTP_METHODS.includes(method)) {
+                throw new QueryParseError(`Método HTTP inválido: ${raw} (use ${HTTP_METHODS.join(", ")})`, raw);
+            }
+            return { type: "field", field, value: method };
+        }
+        case "path":
+            return { type: "field", field, value: (trimmed.startsWith("/") ? trimmed : `/${trimmed}`).toLowerCase() };
+        case "lang":
+            return { type: "field", field, value: normalizeCodeLanguage(trimmed) };
+        case "tag":
+        case "heading": {
+            const normalized = normalizeText(trimmed);
+            if (!normalized) {
+                throw new QueryParseError(`Filtro sem valor: ${raw}`, raw);
+            }
+            return { type: "field", field, value: normalized };
+        }
+    }
+}
+
+/**
+ * Chunks que satisfazem uma condição
+ */
+function findMatchingChunks(index: DocIndex, condition: QueryCondition): Set<number> {
+    switch (condition.type) {
+        case "phrase":
+            return findChunksContaining(index, normalizeText(condition.value));
+
+        case "word": {
+            // Compara pelo termo indexado (radical), como o ranking
+            const analyzer = getAnalyzer(index.language);
+            const matches = new Set<number>();
+            for (const word of normalizeText(condition.value).split(" ")) {
+                const token = word ? analyzer.analyzeWord(word) : null;
+                for (const chunkIndex of (token !== null && index.postings.get(token)?.keys()) || []) {
+                    matches.add(chunkIndex);
+                }
+            }
+            return matches;
+        }
+
+        case "field": {
+            const matches = new Set<number>();
+            index.metadata.forEach((metadata, chunkIndex) => {
+                if (matchesField(metadata, condition.field, condition.value)) matches.add(chunkIndex);
+            });
+            return matches;
+        }
+    }
+}
+
+/**
+ * Verifica se os metadados de um chunk atendem a um filtro
+ */
+function matchesField(metadata: DocIndex["metadata"][number], field: QueryField, value: string): boolean {
+    switch (field) {
+        case "method":
+            return metadata.methods.has(value);
+        case "path":
+            return metadata.paths.some((path) => matchesPathPrefix(path, value));
+        case "tag":
+            return metadata.tags.some((tag) => tag.includes(value));
+        case "heading":
+            return metadata.headings.some((heading) => heading.includes(value));
+        case "lang":
+            return metadata.languages.has(value);
+    }
+}
+
+/**
+ * Verifica se o caminho começa pelo prefixo em um limite de segmento
+ * ("/users" atende "/users" e "/users/{id}", mas não "/users-archive")
+ */
+function matchesPathPrefix(path: string, prefix: string): boolean {
+    const base = prefix.replace(/\/+$/, "");
+    return path === base || path.startsWith(`${base}/`);
+}
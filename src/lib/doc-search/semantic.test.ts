@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { searchInChunks } from "./index.js";
+import {
+    createHashingProvider,
+    type EmbeddingProvider,
+    fuseRankings,
+    getCorpusEmbeddings,
+    scoreChunksSemantic,
+} from "./semantic.js";
+import type { DocChunk } from "../../types/index.js";
+
+const chunks = [
+    "Pagination: use the page and limit parameters to walk through results.",
+    "Authentication requires a bearer token in the Authorization header.",
+    "Errors are returned as JSON with a code and a message.",
+];
+
+/**
+ * Provedor que conta as vetorizações e pode falhar
+ */
+function createCountingProvider(id: string, fail = false): EmbeddingProvider & { calls: number } {
+    const hashing = createHashingProvider(64);
+    return {
+        id,
+        calls: 0,
+        async embedCorpus(texts) {
+            this.calls++;
+            if (fail) throw new Error("servidor fora do ar");
+            return hashing.embedCorpus(texts);
+        },
+    };
+}
+
+/**
+ * Chunk mínimo para montar rankings
+ */
+function chunk(index: number): DocChunk {
+    return { content: `chunk ${index}`, index, score: 1 };
+}
+
+describe("scoreChunksSemantic", () => {
+    it("aproxima variações da mesma palavra com o provedor local", async () => {
+        const ranking = await scoreChunksSemantic(chunks, "how do I paginate", createHashingProvider());
+
+        assert.equal(ranking[0]?.index, 0);
+    });
+
+    it("ordena por similaridade e descarta buscas vazias", async () => {
+        const ranking = await scoreChunksSemantic(chunks, "bearer token header", createHashingProvider());
+
+        assert.equal(ranking[0]?.index, 1);
+        assert.deepEqual(
+            ranking.map((item) => item.score),
+            ranking.map((item) => item.score).sort((a, b) => b - a),
+        );
+        assert.deepEqual(await scoreChunksSemantic(chunks, " ?! ", createHashingProvider()), []);
+    });
+});
+
+describe("getCorpusEmbeddings", () => {
+    it("vetoriza cada versão do documento uma única vez por provedor", async () => {
+        const provider = createCountingProvider("counting-cache");
+
+        await getCorpusEmbeddings(chunks, provider);
+        await getCorpusEmbeddings([...chunks], provider);
+        await getCorpusEmbeddings([...chunks, "novo chunk"], provider);
+
+        assert.equal(provider.calls, 2);
+    });
+
+    it("não guarda falhas em cache", async () => {
+        const provider = createCountingProvider("counting-failure", true);
+
+        await assert.rejects(getCorpusEmbeddings(chunks, provider), /servidor fora do ar/);
+        await assert.rejects(getCorpusEmbeddings(chunks, provider), /servidor fora do ar/);
+
+        assert.equal(provider.calls, 2);
+    });
+});
+
+describe("fuseRankings", () => {
+    it("prioriza chunks presentes nos dois rankings", () => {
+        const fused = fuseRankings([
+            [chunk(3), chunk(1)],
+            [chunk(2), chunk(1)],
+        ]);
+
+        assert.deepEqual(
+            fused.map((item) => item.index),
+            [1, 2, 3],
+        );
+        assert.equal(fused[0]?.score, 2 / 62);
+    });
+});
+
+describe("searchInChunks (hybrid)", () => {
+    it("usa apenas os termos quando o provedor de embeddings falha", async () => {
+        const provider = createCountingProvider("counting-hybrid", true);
+
+        const result = await searchInChunks(chunks, "bearer token", { mode: "hybrid", embeddingProvider: provider });
+
+        assert.equal(provider.calls, 1);
+        assert.deepEqual(
+            result.hits.map((hit) => hit.index),
+            [1],
+        );
+        assert.deepEqual(result.modeFallback, { requested: "hybrid", used: "keyword", reason: "servidor fora do ar" });
+    });
+
+    it("não informa troca de modo quando o provedor responde", async () => {
+        const result = await searchInChunks(chunks, "bearer token", {
+            mode: "hybrid",
+            embeddingProvider: createCountingProvider("counting-hybrid-ok"),
+        });
+
+        assert.equal(result.modeFallback, undefined);
+    });
+});
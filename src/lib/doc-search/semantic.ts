@@ -0,0 +1,276 @@
+/**
+ * Busca semântica por similaridade entre embeddings
+ * Os vetores dos chunks são calculados uma vez por versão do documento (hash dos chunks) e provedor
+ */
+
+import { createHash } from "node:crypto";
+
+import { normalizeText } from "./scorer.js";
+import type { DocChunk } from "../../types/index.js";
+
+/**
+ * Vetores dos chunks de um documento
+ */
+export interface EmbeddedCorpus {
+    /** Vetor normalizado (norma 1) de cada chunk, na ordem do documento */
+    vectors: Float32Array[];
+    /** Vetoriza uma busca no mesmo espaço dos chunks */
+    embedQuery(query: string): Promise<Float32Array>;
+}
+
+/**
+ * Provedor de embeddings
+ */
+export interface EmbeddingProvider {
+    /** Identifica o provedor e o modelo (parte da chave do cache de vetores) */
+    id: string;
+    /** Vetoriza os chunks de um documento */
+    embedCorpus(texts: string[]): Promise<EmbeddedCorpus>;
+}
+
+/** Dimensão padrão dos vetores do provedor local */
+export const HASHING_DIMENSIONS = 1024;
+
+/** Peso dos trigramas em relação às palavras inteiras no provedor local */
+const TRIGRAM_WEIGHT = 0.5;
+
+/** Quantos chunks mais similares entram no ranking semântico */
+const SEMANTIC_CANDIDATES = 50;
+
+/** Constante da reciprocal rank fusion (valor usual na literatura) */
+const RRF_K = 60;
+
+/** Quantos documentos têm os vetores mantidos em memória */
+const EMBEDDED_DOCUMENTS_LIMIT = 8;
+
+/** Vetores dos documentos pesquisados recentemente, por provedor e hash dos chunks */
+const embeddedDocuments = new Map<string, Promise<EmbeddedCorpus>>();
+
+/** Hash de cada array de chunks (um array por versão do documento) */
+const chunkHashes = new WeakMap<string[], string>();
+
+/**
+ * Cria o provedor local de embeddings (sem rede)
+ * Palavras e trigramas de cada palavra são projetados em um vetor de tamanho fixo (feature hashing) e
+ * ponderados por TF-IDF calculado sobre os chunks do documento. Aproxima variações da mesma palavra
+ * ("paginate" e "pagination"), mas não sinônimos: para isso, use um modelo de embeddings
+ *
+ * @param dimensions - Dimensão dos vetores
+ */
+export function createHashingProvider(dimensions = HASHING_DIMENSIONS): EmbeddingProvider {
+    return {
+        id: `hashing:${dimensions}`,
+
+        async embedCorpus(texts: string[]): Promise<EmbeddedCorpus> {
+            const features = texts.map(extractFeatures);
+
+            // Frequência de documento de cada feature
+            const documentFrequency = new Map<string, number>();
+            for (const chunkFeatures of features) {
+                for (const feature of chunkFeatures.keys()) {
+                    documentFrequency.set(feature, (documentFrequency.get(feature) ?? 0) + 1);
+                }
+            }
+
+            const idf = (feature: string) =>
+                Math.log((texts.length + 1) / ((documentFrequency.get(feature) ?? 0) + 1)) + 1;
+
+            return {
+                vectors: features.map((chunkFeatures) => hashFeatures(chunkFeatures, idf, dimensions)),
+                embedQuery: async (query) => hashFeatures(extractFeatures(query), idf, dimensions),
+            };
+        },
+    };
+}
+
+/**
+ * Retorna os vetores dos chunks de um documento, calculando-os na primeira chamada
+ * Falhas não ficam em cache (a próxima busca tenta de novo)
+ *
+ * @param chunks - Chunks do documento
+ * @param provider - Provedor de embeddings
+ */
+export function getCorpusEmbeddings(chunks: string[], provider: EmbeddingProvider): Promise<EmbeddedCorpus> {
+    const key = `${provider.id}:${getChunksHash(chunks)}`;
+    let corpus = embeddedDocuments.get(key);
+
+    if (corpus) {
+        // Move para o fim (mais recente)
+        embeddedDocuments.delete(key);
+    } else {
+        corpus = provider.embedCorpus(chunks);
+        corpus.catch(() => embeddedDocuments.delete(key));
+    }
+
+    embeddedDocuments.set(key, corpus);
+
+    // Descarta o documento usado há mais tempo
+    if (embeddedDocuments.size > EMBEDDED_DOCUMENTS_LIMIT) {
+        const oldest = embeddedDocuments.keys().next().value;
+        if (oldest !== undefined) embeddedDocuments.delete(oldest);
+    }
+
+    return corpus;
+}
+
+/**
+ * Pontua os chunks pela similaridade de cosseno com a busca
+ *
+ * @param chunks - Chunks do documento
+ * @param query - Busca do usuário
+ * @param provider - Provedor de embeddings
+ * @returns Chunks mais similares (similaridade > 0), do mais para o menos similar
+ */
+export async function scoreChunksSemantic(
+    chunks: string[],
+    query: string,
+    provider: EmbeddingProvider,
+): Promise<DocChunk[]> {
+    if (!normalizeText(query) || chunks.length === 0) {
+        return [];
+    }
+
+    const corpus = await getCorpusEmbeddings(chunks, provider);
+    const queryVector = await corpus.embedQuery(query);
+    const scored: DocChunk[] = [];
+
+    corpus.vectors.forEach((vector, index) => {
+        const score = dotProduct(vector, queryVector);
+        if (score > 0) {
+            scored.push({ content: chunks[index] as string, index, score });
+        }
+    });
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, SEMANTIC_CANDIDATES);
+}
+
+/**
+ * Combina rankings por reciprocal rank fusion: cada chunk soma 1 / (RRF_K + posição) em cada ranking
+ *
+ * @param rankings - Rankings ordenados do mais para o menos relevante
+ * @returns Chunks de todos os rankings, ordenados pela pontuação combinada
+ */
+export function fuseRankings(rankings: DocChunk[][]): DocChunk[] {
+    const fused = new Map<number, DocChunk>();
+
+    for (const ranking of rankings) {
+        ranking.forEach((chunk, position) => {
+            const score = 1 / (RRF_K + position + 1);
+            const current = fused.get(chunk.index);
+            fused.set(chunk.index, { ...chunk, score: (current?.score ?? 0) + score });
+        });
+    }
+
+    return [...fused.values()].sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Normaliza um vetor para norma 1 (similaridade de cosseno = produto escalar)
+ */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+    const normalized = Float32Array.from(vector);
+
+    let squares = 0;
+    for (const value of normalized) {
+        squares += value * value;
+    }
+    const norm = Math.sqrt(squares);
+
+    if (norm > 0) {
+        for (let i = 0; i < normalized.length; i++) {
+            normalized[i] = (normalized[i] as number) / norm;
+        }
+    }
+
+    return normalized;
+}
+
+/**
+ * Produto escalar de dois vetores (vetores de tamanhos diferentes não são comparáveis)
+ */
+function dotProduct(a: Float32Array, b: Float32Array): number {
+    if (a.length !== b.length) {
+        return 0;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        sum += (a[i] as number) * (b[i] as number);
+    }
+    return sum;
+}
+
+/**
+ * Extrai as features de um texto: palavras e trigramas de cada palavra, com a frequência ponderada
+ */
+function extractFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const normalized = normalizeText(text);
+    if (!normalized) {
+        return features;
+    }
+
+    for (const word of normalized.split(" ")) {
+        features.set(`w:${word}`, (features.get(`w:${word}`) ?? 0) + 1);
+
+        // Trigramas com marcadores de início/fim ("#pa", "pag", ..., "te#")
+        const padded = `#${word}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            const trigram = `t:${padded.slice(i, i + 3)}`;
+            features.set(trigram, (features.get(trigram) ?? 0) + TRIGRAM_WEIGHT);
+        }
+    }
+
+    return features;
+}
+
+/**
+ * Projeta as features em um vetor de tamanho fixo, com TF sublinear × IDF
+ */
+function hashFeatures(
+    features: Map<string, number>,
+    idf: (feature: string) => number,
+    dimensions: number,
+): Float32Array {
+    const vector = new Float32Array(dimensions);
+
+    for (const [feature, frequency] of features) {
+        const hash = fnv1a(feature);
+        // Um bit do hash define o sinal (colisões tendem a se cancelar)
+        const sign = hash & 0x80000000 ? -1 : 1;
+        const position = hash % dimensions;
+        vector[position] = (vector[position] as number) + sign * Math.log1p(frequency) * idf(feature);
+    }
+
+    return normalizeVector(vector);
+}
+
+/**
+ * Hash FNV-1a de 32 bits
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Hash do conteúdo dos chunks (identifica a versão do documento no cache de vetores)
+ */
+function getChunksHash(chunks: string[]): string {
+    let hash = chunkHashes.get(chunks);
+
+    if (!hash) {
+        const digest = createHash("sha256");
+        for (const chunk of chunks) {
+            digest.update(chunk).update("\0");
+        }
+        hash = digest.digest("hex");
+        chunkHashes.set(chunks, hash);
+    }
+
+    return hash;
+}
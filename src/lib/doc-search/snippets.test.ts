@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { searchInChunks } from "./index.js";
+import { getAnalyzer } from "./language.js";
+import { extractSnippets } from "./snippets.js";
+
+/**
+ * Texto de enchimento com palavras distintas
+ */
+function filler(count: number): string {
+    return Array.from({ length: count }, (_, i) => `word${i}`).join(" ");
+}
+
+const TEXT = `${filler(40)} token expires here. ${filler(60)} refresh the token and token again. ${filler(40)}`;
+
+describe("extractSnippets", () => {
+    it("escolhe as janelas com mais termos e destaca as ocorrências", () => {
+        const snippet = extractSnippets(TEXT, ["token", "refresh"], getAnalyzer(null), 80);
+
+        const windows = snippet.content.split("\n…\n");
+        assert.equal(windows.length, 2);
+        assert.match(windows[0] ?? "", /^….*\*\*token\*\* expires here.*…$/);
+        assert.match(windows[1] ?? "", /\*\*refresh\*\* the \*\*token\*\* and \*\*token\*\* again/);
+        assert.ok((snippet.ranges[0]?.end ?? 0) < (snippet.ranges[1]?.start ?? 0));
+    });
+
+    it("aponta as janelas no texto original", () => {
+        const snippet = extractSnippets(TEXT, ["refresh"], getAnalyzer(null), 80);
+
+        const [range] = snippet.ranges;
+        assert.equal(snippet.ranges.length, 1);
+        assert.match(TEXT.slice(range?.start, range?.end), /refresh the token/);
+    });
+
+    it("compara as palavras pelo radical do idioma", () => {
+        const snippet = extractSnippets(
+            "Creating users is easy. The user gets created.",
+            ["create"],
+            getAnalyzer("en"),
+        );
+
+        assert.equal(snippet.content, "**Creating** users is easy. The user gets **created**.");
+    });
+
+    it("retorna o início do texto quando nenhum termo aparece", () => {
+        const snippet = extractSnippets(TEXT, [], getAnalyzer(null), 50);
+
+        assert.equal(snippet.ranges[0]?.start, 0);
+        assert.match(snippet.content, /^word0 word1 .*…$/);
+    });
+});
+
+describe("searchInChunks (detail)", () => {
+    const chunks = ["# Tokens", TEXT, "# Outros"];
+
+    it("retorna apenas as janelas no modo snippet", async () => {
+        const result = await searchInChunks(chunks, "refresh", { detail: "snippet", language: "none" });
+
+        assert.ok((result.hits[0]?.snippets?.length ?? 0) > 0);
+        assert.ok((result.hits[0]?.content.length ?? 0) < TEXT.length);
+        assert.match(result.hits[0]?.content ?? "", /\*\*refresh\*\*/);
+    });
+
+    it("inclui os chunks vizinhos no modo expanded", async () => {
+        const result = await searchInChunks(chunks, "refresh", { detail: "expanded", language: "none" });
+
+        assert.match(result.hits[0]?.content ?? "", /^# Tokens/);
+        assert.equal(result.hits[0]?.snippets, undefined);
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Trechos focados dentro de um chunk
+ * Escolhe as janelas com mais termos da busca e destaca os termos com **negrito**,
+ * para retornar só a parte relevante de seções longas
+ */
+
+import type { TextAnalyzer } from "./language.js";
+import { normalizeText } from "./scorer.js";
+import type { TextRange } from "../../types/index.js";
+
+/** Tamanho aproximado de cada janela (caracteres) */
+const SNIPPET_SIZE = 400;
+
+/** Máximo de janelas por chunk */
+const MAX_SNIPPETS = 2;
+
+/** Separador entre janelas não contíguas */
+const SNIPPET_SEPARATOR = "\n…\n";
+
+/** Palavras do texto original (inclui identificadores com "_") */
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Trecho focado de um chunk
+ */
+export interface Snippet {
+    /** Janelas com os termos destacados, unidas por "…" */
+    content: string;
+    /** Posição de cada janela no chunk original (sem os destaques) */
+    ranges: TextRange[];
+}
+
+/**
+ * Ocorrência de um termo da busca no texto
+ */
+interface TermMatch extends TextRange {
+    /** Termo indexado (radical) */
+    token: string;
+}
+
+/**
+ * Extrai as melhores janelas de um chunk para os termos da busca
+ * Sem nenhum termo no chunk (ex: resultado da busca semântica), retorna o início do chunk
+ *
+ * @param text - Conteúdo do chunk
+ * @param terms - Palavras e frases da busca presentes no chunk
+ * @param analyzer - Analisador do idioma do documento (compara palavras pelo radical)
+ * @param size - Tamanho aproximado de cada janela
+ * @param maxSnippets - Máximo de janelas
+ */
+export function extractSnippets(
+    text: string,
+    terms: string[],
+    analyzer: TextAnalyzer,
+    size = SNIPPET_SIZE,
+    maxSnippets = MAX_SNIPPETS,
+): Snippet {
+    const tokens = new Set(terms.flatMap((term) => analyzer.analyze(term)));
+    const matches: TermMatch[] = [];
+
+    for (const match of text.matchAll(WORD)) {
+        const token = analyzer.analyzeWord(normalizeText(match[0]));
+        if (token !== null && tokens.has(token)) {
+            matches.push({ start: match.index, end: match.index + match[0].length, token });
+        }
+    }
+
+    if (matches.length === 0) {
+        const range = snapToWords(text, { start: 0, end: Math.min(text.length, size) });
+        return { content: renderWindows(text, [range], []), ranges: [range] };
+    }
+
+    // Escolhe as janelas uma a uma, entre as ocorrências ainda não cobertas
+    const windows: TextRange[] = [];
+    let remaining = matches;
+
+    while (windows.length < maxSnippets && remaining.length > 0) {
+        const window = findBestWindow(text, remaining, size);
+        windows.push(window);
+        remaining = remaining.filter((match) => match.end <= window.start || match.start >= window.end);
+    }
+
+    // Janelas que se sobrepõem (pela margem em volta das ocorrências) viram uma só
+    const ranges: TextRange[] = [];
+    for (const window of windows.sort((a, b) => a.start - b.start)) {
+        const previous = ranges[ranges.length - 1];
+        if (previous && window.start <= previous.end) {
+            previous.end = Math.max(previous.end, window.end);
+        } else {
+            ranges.push({ ...window });
+        }
+    }
+
+    return { content: renderWindows(text, ranges, matches), ranges };
+}
+
+/**
+ * Janela com mais termos distintos (e, no empate, mais ocorrências), centralizada nas ocorrências
+ */
+function findBestWindow(text: string, matches: TermMatch[], size: number): TextRange {
+    let best = { first: 0, last: 0, distinct: 0, count: 0 };
+
+    for (let first = 0; first < matches.length; first++) {
+        const start = (matches[first] as TermMatch).start;
+        const distinct = new Set<string>();
+        let last = first;
+
+        for (let j = first; j < matches.length && (matches[j] as TermMatch).end - start <= size; j++) {
+            distinct.add((matches[j] as TermMatch).token);
+            last = j;
+        }
+
+        const count = last - first + 1;
+        if (distinct.size > best.distinct || (distinct.size === best.distinct && count > best.count)) {
+            best = { first, last, distinct: distinct.size, count };
+        }
+    }
+
+    // Distribui o espaço que sobra antes e depois das ocorrências
+    const spanStart = (matches[best.first] as TermMatch).start;
+    const spanEnd = (matches[best.last] as TermMatch).end;
+    const padding = Math.max(0, Math.floor((size - (spanEnd - spanStart)) / 2));
+    const start = Math.max(0, spanStart - padding);
+    const end = Math.min(text.length, Math.max(spanEnd, start + size));
+
+    return snapToWords(text, { start, end });
+}
+
+/**
+ * Ajusta a janela para não cortar palavras
+ */
+function snapToWords(text: string, range: TextRange): TextRange {
+    let { start, end } = range;
+
+    while (start > 0 && /\S/.test(text[start - 1] as string) && range.start - start < 30) start--;
+    while (end < text.length && /\S/.test(text[end] as string) && end - range.end < 30) end++;
+
+    return { start, end };
+}
+
+/**
+ * Monta o texto das janelas com os termos destacados
+ */
+function renderWindows(text: string, windows: TextRange[], matches: TermMatch[]): string {
+    const parts = windows.map(({ start, end }) => {
+        let content = "";
+        let position = start;
+
+        for (const match of matches) {
+            if (match.start < start || match.end > end) continue;
+            content += `${text.slice(position, match.start)}**${text.slice(match.start, match.end)}**`;
+            position = match.end;
+        }
+        content += text.slice(position, end);
+
+        return `${start > 0 ? "…" : ""}${content.trim()}${end < text.length ? "…" : ""}`;
+    });
+
+    return parts.join(SNIPPET_SEPARATOR);
+}
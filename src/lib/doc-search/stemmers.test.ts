@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { stemEnglish, stemPortuguese } from "./stemmers.js";
+
+describe("stemEnglish", () => {
+    const expected: [string, string][] = [
+        ["caresses", "caress"],
+        ["ponies", "poni"],
+        ["running", "run"],
+        ["hopping", "hop"],
+        ["relational", "relat"],
+        ["generalization", "gener"],
+        ["users", "user"],
+        ["go", "go"],
+    ];
+
+    for (const [word, stem] of expected) {
+        it(`${word} → ${stem}`, () => {
+            assert.equal(stemEnglish(word), stem);
+        });
+    }
+});
+
+describe("stemPortuguese", () => {
+    const expected: [string, string][] = [
+        ["usuarios", "usuari"],
+        ["paginas", "pagin"],
+        ["configuracoes", "configur"],
+        ["listando", "list"],
+        ["buscamos", "busc"],
+        ["sol", "sol"],
+        ["pedido", "pedid"],
+        ["pedidos", "pedid"],
+        ["recebido", "receb"],
+        ["criacao", "criacao"],
+        ["criacoes", "criacao"],
+        ["autenticacao", "autentic"],
+        ["cartao", "cartao"],
+        ["cartoes", "cartao"],
+    ];
+
+    for (const [word, stem] of expected) {
+        it(`${word} → ${stem}`, () => {
+            assert.equal(stemPortuguese(word), stem);
+        });
+    }
+});
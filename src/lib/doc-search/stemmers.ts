@@ -0,0 +1,364 @@
+/**
+ * Stemmers de inglês e português
+ * Reduzem as palavras (já normalizadas: minúsculas e sem acentos) a um radical comum,
+ * para que "creating" encontre "create" e "criando usuarios" encontre "criar usuario"
+ */
+
+// ============================================================================
+// Inglês (algoritmo de Porter)
+// ============================================================================
+
+/** Sufixos do passo 2 do Porter → substituição */
+const PORTER_STEP2: [string, string][] = [
+    ["ational", "ate"],
+    ["tional", "tion"],
+    ["enci", "ence"],
+    ["anci", "ance"],
+    ["izer", "ize"],
+    ["bli", "ble"],
+    ["alli", "al"],
+    ["entli", "ent"],
+    ["eli", "e"],
+    ["ousli", "ous"],
+    ["ization", "ize"],
+    ["ation", "ate"],
+    ["ator", "ate"],
+    ["alism", "al"],
+    ["iveness", "ive"],
+    ["fulness", "ful"],
+    ["ousness", "ous"],
+    ["aliti", "al"],
+    ["iviti", "ive"],
+    ["biliti", "ble"],
+    ["logi", "log"],
+];
+
+/** Sufixos do passo 3 do Porter → substituição */
+const PORTER_STEP3: [string, string][] = [
+    ["icate", "ic"],
+    ["ative", ""],
+    ["alize", "al"],
+    ["iciti", "ic"],
+    ["ical", "ic"],
+    ["ful", ""],
+    ["ness", ""],
+];
+
+/** Sufixos removidos no passo 4 do Porter (quando o radical tem medida > 1) */
+const PORTER_STEP4 = [
+    "al",
+    "ance",
+    "ence",
+    "er",
+    "ic",
+    "able",
+    "ible",
+    "ant",
+    "ement",
+    "ment",
+    "ent",
+    "ion",
+    "ou",
+    "ism",
+    "ate",
+    "iti",
+    "ous",
+    "ive",
+    "ize",
+];
+
+/**
+ * Radical de uma palavra em inglês (Porter, 1980)
+ *
+ * @param word - Palavra normalizada
+ */
+export function stemEnglish(word: string): string {
+    if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+        return word;
+    }
+
+    let stem = word;
+
+    // Passo 1a: plurais
+    if (stem.endsWith("sses") || stem.endsWith("ies")) {
+        stem = stem.slice(0, -2);
+    } else if (stem.endsWith("s") && !stem.endsWith("ss")) {
+        stem = stem.slice(0, -1);
+    }
+
+    // Passo 1b: -eed, -ed, -ing
+    if (stem.endsWith("eed")) {
+        if (measure(stem.slice(0, -3)) > 0) stem = stem.slice(0, -1);
+    } else {
+        const suffix = stem.endsWith("ed") ? "ed" : stem.endsWith("ing") ? "ing" : null;
+        const base = suffix ? stem.slice(0, -suffix.length) : "";
+
+        if (suffix && hasVowel(base)) {
+            stem = base;
+            if (stem.endsWith("at") || stem.endsWith("bl") || stem.endsWith("iz")) {
+                stem += "e";
+            } else if (endsWithDoubleConsonant(stem) && !/[lsz]$/.test(stem)) {
+                stem = stem.slice(0, -1);
+            } else if (measure(stem) === 1 && endsWithCvc(stem)) {
+                stem += "e";
+            }
+        }
+    }
+
+    // Passo 1c: -y → -i
+    if (stem.endsWith("y") && hasVowel(stem.slice(0, -1))) {
+        stem = `${stem.slice(0, -1)}i`;
+    }
+
+    // Passos 2 e 3: sufixos derivacionais
+    stem = replaceSuffix(stem, PORTER_STEP2);
+    stem = replaceSuffix(stem, PORTER_STEP3);
+
+    // Passo 4: remove sufixos em radicais longos
+    for (const suffix of PORTER_STEP4) {
+        if (!stem.endsWith(suffix)) continue;
+        const base = stem.slice(0, -suffix.length);
+        if (measure(base) > 1 && (suffix !== "ion" || /[st]$/.test(base))) {
+            stem = base;
+        }
+        break;
+    }
+
+    // Passo 5: -e final e -ll
+    if (stem.endsWith("e")) {
+        const base = stem.slice(0, -1);
+        const m = measure(base);
+        if (m > 1 || (m === 1 && !endsWithCvc(base))) stem = base;
+    }
+    if (stem.endsWith("ll") && measure(stem) > 1) {
+        stem = stem.slice(0, -1);
+    }
+
+    return stem;
+}
+
+/**
+ * Troca o primeiro sufixo da lista encontrado na palavra, se o radical tiver medida > 0
+ */
+function replaceSuffix(word: string, rules: [string, string][]): string {
+    for (const [suffix, replacement] of rules) {
+        if (!word.endsWith(suffix)) continue;
+        const base = word.slice(0, -suffix.length);
+        return measure(base) > 0 ? base + replacement : word;
+    }
+    return word;
+}
+
+/**
+ * Se a letra na posição é consoante ("y" é consoante quando vem depois de vogal ou no início)
+ */
+function isConsonant(word: string, i: number): boolean {
+    const char = word[i];
+    if (char === "a" || char === "e" || char === "i" || char === "o" || char === "u") return false;
+    if (char === "y") return i === 0 || !isConsonant(word, i - 1);
+    return true;
+}
+
+/**
+ * Medida de Porter: número de sequências vogal-consoante ([C](VC)^m[V])
+ */
+function measure(word: string): number {
+    let m = 0;
+    let previousVowel = false;
+
+    for (let i = 0; i < word.length; i++) {
+        const vowel = !isConsonant(word, i);
+        if (previousVowel && !vowel) m++;
+        previousVowel = vowel;
+    }
+
+    return m;
+}
+
+/**
+ * Se a palavra contém alguma vogal
+ */
+function hasVowel(word: string): boolean {
+    for (let i = 0; i < word.length; i++) {
+        if (!isConsonant(word, i)) return true;
+    }
+    return false;
+}
+
+/**
+ * Se a palavra termina com duas consoantes iguais
+ */
+function endsWithDoubleConsonant(word: string): boolean {
+    const last = word.length - 1;
+    return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+}
+
+/**
+ * Se a palavra termina em consoante-vogal-consoante, com a última diferente de w, x e y
+ */
+function endsWithCvc(word: string): boolean {
+    const last = word.length - 1;
+    return (
+        last >= 2 &&
+        isConsonant(word, last - 2) &&
+        !isConsonant(word, last - 1) &&
+        isConsonant(word, last) &&
+        !/[wxy]$/.test(word)
+    );
+}
+
+// ============================================================================
+// Português (redução de plural, sufixos nominais e verbais)
+// ============================================================================
+
+/** Plurais → singular, do mais para o menos específico */
+const PT_PLURALS: [string, string][] = [
+    ["oes", "ao"],
+    ["aes", "ao"],
+    ["ais", "al"],
+    ["eis", "el"],
+    ["ois", "ol"],
+    ["ns", "m"],
+    ["res", "r"],
+    ["zes", "z"],
+    ["les", "l"],
+    ["s", ""],
+];
+
+/** Sufixos nominais, do mais longo para o mais curto */
+const PT_NOUN_SUFFIXES = [
+    "amentos",
+    "imentos",
+    "amento",
+    "imento",
+    "idades",
+    "idade",
+    "mente",
+    "acoes",
+    "icoes",
+    "acao",
+    "icao",
+    "avel",
+    "ivel",
+    "ismo",
+    "ista",
+    "ador",
+    "edor",
+    "idor",
+    "ante",
+    "ente",
+    "inte",
+];
+
+/** Terminações verbais, da mais longa para a mais curta */
+const PT_VERB_SUFFIXES = [
+    "ariamos",
+    "eriamos",
+    "iriamos",
+    "assemos",
+    "essemos",
+    "issemos",
+    "aramos",
+    "eramos",
+    "iramos",
+    "avamos",
+    "aremos",
+    "eremos",
+    "iremos",
+    "ariam",
+    "eriam",
+    "iriam",
+    "assem",
+    "essem",
+    "issem",
+    "arao",
+    "erao",
+    "irao",
+    "ando",
+    "endo",
+    "indo",
+    "aram",
+    "eram",
+    "iram",
+    "avam",
+    "amos",
+    "emos",
+    "imos",
+    "aria",
+    "eria",
+    "iria",
+    "asse",
+    "esse",
+    "isse",
+    "ado",
+    "ido",
+    "ada",
+    "ida",
+    "ava",
+    "ara",
+    "era",
+    "ira",
+    "am",
+    "em",
+    "ar",
+    "er",
+    "ir",
+    "ou",
+    "ei",
+];
+
+/** Tamanho mínimo do radical que sobra após remover um sufixo */
+const PT_MIN_STEM = 3;
+
+/**
+ * Sufixos que também terminam palavras curtas sem relação com eles ("pedido", "criacao"):
+ * só são removidos quando sobra um radical mais longo
+ */
+const PT_LONG_STEM_SUFFIXES = new Set(["acoes", "icoes", "acao", "icao", "ado", "ido", "ada", "ida"]);
+
+/** Tamanho mínimo do radical que sobra após remover um dos sufixos acima */
+const PT_MIN_LONG_STEM = 4;
+
+/**
+ * Radical de uma palavra em português
+ * Versão enxuta do RSLP: plural, um sufixo nominal ou verbal e a vogal temática final
+ *
+ * @param word - Palavra normalizada (sem acentos)
+ */
+export function stemPortuguese(word: string): string {
+    if (word.length <= PT_MIN_STEM || !/^[a-z]+$/.test(word)) {
+        return word;
+    }
+
+    let stem = word;
+
+    // Plural (exceto a 1ª pessoa do plural dos verbos: "buscamos", "criaremos")
+    const verbPlural = /[aei]mos$/.test(stem) && stem.length - 4 >= PT_MIN_STEM;
+    for (const [suffix, replacement] of verbPlural ? [] : PT_PLURALS) {
+        if (stem.endsWith(suffix) && stem.length - suffix.length >= PT_MIN_STEM && !stem.endsWith("ss")) {
+            stem = stem.slice(0, -suffix.length) + replacement;
+            break;
+        }
+    }
+
+    // Um sufixo nominal ou, na falta dele, uma terminação verbal
+    const suffix = PT_NOUN_SUFFIXES.find((s) => canRemove(stem, s)) ?? PT_VERB_SUFFIXES.find((s) => canRemove(stem, s));
+    if (suffix) {
+        stem = stem.slice(0, -suffix.length);
+    }
+
+    // Vogal temática final ("usuario" → "usuari", "cria" → "cri"), exceto no ditongo "ao" ("cartao")
+    if (/[aeo]$/.test(stem) && !stem.endsWith("ao") && stem.length > PT_MIN_STEM) {
+        stem = stem.slice(0, -1);
+    }
+
+    return stem;
+}
+
+/**
+ * Se o sufixo pode ser removido sem deixar o radical curto demais
+ */
+function canRemove(word: string, suffix: string): boolean {
+    const minStem = PT_LONG_STEM_SUFFIXES.has(suffix) ? PT_MIN_LONG_STEM : PT_MIN_STEM;
+    return word.endsWith(suffix) && word.length - suffix.length >= minStem;
+}
@@ -0,0 +1,40 @@
+/**
+ * Stopwords do português e do inglês
+ * Palavras frequentes demais para indicar o assunto de um trecho ("para", "como", "with")
+ */
+
+import type { DocLanguage } from "../../types/index.js";
+
+/** Stopwords do português (sem acentos, como saem de normalizeText) */
+const PT_STOPWORDS = new Set(
+    (
+        "a ao aos as com como da das de do dos e ela elas ele eles em entre era essa essas esse esses esta estas este " +
+        "estes eu foi ha isso isto ja la lhe mais mas me mesmo na nas nao no nos o os ou para pela pelas pelo pelos " +
+        "por qual quando que quem se sem ser seu seus sua suas sao tambem te tem um uma umas uns voce voces"
+    ).split(" "),
+);
+
+/** Stopwords do inglês */
+const EN_STOPWORDS = new Set(
+    (
+        "a about an and are as at be been but by can do does for from has have how i if in into is it its me my " +
+        "no not of on or our so than that the their them then there these they this to too us was we were what " +
+        "when where which who why will with you your"
+    ).split(" "),
+);
+
+/** Stopwords de cada idioma */
+export const STOPWORDS: Record<DocLanguage, Set<string>> = {
+    pt: PT_STOPWORDS,
+    en: EN_STOPWORDS,
+};
+
+/**
+ * Verifica se a palavra é uma stopword do idioma
+ *
+ * @param word - Palavra normalizada
+ * @param language - Idioma (null: nenhuma palavra é stopword)
+ */
+export function isStopword(word: string, language: DocLanguage | null): boolean {
+    return language !== null && STOPWORDS[language].has(word);
+}
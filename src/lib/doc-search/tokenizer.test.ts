@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildDocIndex, scoreChunks } from "./doc-index.js";
+import { SCORE_WEIGHTS } from "./scorer.js";
+import { extractIdentifierTokens, tokenizeText } from "./tokenizer.js";
+
+describe("extractIdentifierTokens", () => {
+    it("mantém caminhos inteiros com parâmetros canônicos", () => {
+        assert.deepEqual(extractIdentifierTokens("GET /users/{id} and /users/:id/"), ["/users/{}", "/users/{}"]);
+        assert.deepEqual(extractIdentifierTokens("See /users."), ["/users"]);
+    });
+
+    it("ignora URLs completas, datas e caminhos sem letras", () => {
+        assert.deepEqual(extractIdentifierTokens("https://api.example.com/v1/users em 2024/01 ou /2024"), []);
+    });
+
+    it("mantém nomes com hífen inteiros", () => {
+        assert.deepEqual(extractIdentifierTokens("Header X-Request-Id"), ["x-request-id"]);
+    });
+
+    it("separa camelCase e snake_case", () => {
+        assert.deepEqual(extractIdentifierTokens("call getUserById with user_id"), [
+            "get",
+            "user",
+            "by",
+            "id",
+            "user",
+            "id",
+        ]);
+        assert.deepEqual(extractIdentifierTokens("configuraçãoDeUsuário"), []);
+    });
+
+    it("reconhece códigos de status citados como tal", () => {
+        assert.deepEqual(extractIdentifierTokens("Returns HTTP 429 or status code 404 or `201`, up to 500 items"), [
+            "http:429",
+            "http:404",
+            "http:201",
+        ]);
+    });
+});
+
+describe("tokenizeText", () => {
+    it("retorna as palavras normalizadas seguidas dos identificadores", () => {
+        assert.deepEqual(tokenizeText("POST /users"), ["post", "users", "/users"]);
+    });
+});
+
+describe("scoreChunks (identificadores)", () => {
+    it("diferencia caminhos que têm as mesmas palavras", () => {
+        const index = buildDocIndex(["`/users/{id}/orders`", "`/orders/{id}/users`"]);
+
+        const [best] = scoreChunks(index, ["/users/:userId/orders"], SCORE_WEIGHTS).sort((a, b) => b.score - a.score);
+
+        assert.equal(best?.index, 0);
+    });
+
+    it("encontra identificadores em camelCase pelas palavras", () => {
+        const index = buildDocIndex(["client.getUserById(id)", "Lista os pedidos"]);
+
+        const scored = scoreChunks(index, ["user by id"], SCORE_WEIGHTS);
+
+        assert.deepEqual(
+            scored.map((chunk) => chunk.index),
+            [0],
+        );
+    });
+});
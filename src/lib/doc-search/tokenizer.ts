@@ -0,0 +1,99 @@
+/**
+ * Tokens de identificadores
+ * normalizeText troca toda pontuação por espaço: "/users/{id}", "X-Request-Id" e "getUserById" viram palavras soltas.
+ * Estes tokens complementam as palavras normalizadas, no índice e na busca, preservando a estrutura:
+ *
+ * - caminhos de URL inteiros, com parâmetros canônicos ("/users/{id}", "/users/:id" → "/users/{}")
+ * - nomes com hífen inteiros ("X-Request-Id" → "x-request-id")
+ * - partes de camelCase e snake_case ("getUserById" → get, user, by, id; "user_id" → user, id)
+ * - códigos de status HTTP citados como tal ("HTTP 429", "status 404", "`201`" → "http:429", ...)
+ */
+
+import { normalizeText } from "./scorer.js";
+
+/** Caminhos de URL (não precedidos de letra, "/" ou ":", o que exclui URLs completas e datas) */
+const URL_PATH = /(?<![\w/:.-])\/[\w.~{}:<>-]+(?:\/[\w.~{}:<>-]+)*\/?/g;
+
+/** Parâmetros de caminho: {id}, :id e <id> */
+const PATH_PARAMETER = /\{[^}/]*\}|(?<=\/):\w+|<[^>/]*>/g;
+
+/** Nomes com hífen ("X-Request-Id", "content-type") */
+const HYPHENATED = /(?<![\w-])[A-Za-z][A-Za-z0-9]*(?:-[A-Za-z0-9]+)+(?![\w-])/g;
+
+/** Identificadores em camelCase, PascalCase ou snake_case (ASCII, como nomes em código) */
+const IDENTIFIER = /(?<![\w\u00C0-\u024F])[A-Za-z\d]*(?:_|[a-z\d][A-Z]|[A-Z]{2}[a-z])\w*/g;
+
+/** Letras acentuadas (um identificador não pode fazer parte de uma palavra com acento) */
+const ACCENTED_LETTER = /[\u00C0-\u024F]/;
+
+/** Transições de caixa dentro de um identificador ("userId", "HTTPServer") */
+const CASE_BOUNDARY = /([a-z\d])([A-Z])|([A-Z])([A-Z][a-z])/g;
+
+/** Código de status precedido de "HTTP", "HTTP/1.1", "status", "status code" ou "código" */
+const QUALIFIED_STATUS = /\b(?:https?(?:\/\d(?:\.\d)?)?|status(?:\s+code)?|c[oó]digo)\s*:?\s+([1-5]\d\d)\b/gi;
+
+/** Código de status entre crases ("`404`") */
+const QUOTED_STATUS = /`([1-5]\d\d)`/g;
+
+/**
+ * Extrai os tokens de identificadores de um texto (além das palavras de normalizeText)
+ *
+ * @param text - Texto original (a caixa das letras é usada para separar camelCase)
+ * @returns Tokens normalizados, na ordem em que aparecem por tipo
+ */
+export function extractIdentifierTokens(text: string): string[] {
+    const tokens: string[] = [];
+
+    for (const [match] of text.matchAll(URL_PATH)) {
+        const path = canonicalizePath(match);
+        if (path) tokens.push(path);
+    }
+
+    // Partes dos caminhos (ex: "{userId}") já estão no token do caminho e nas palavras normalizadas
+    const words = text.replace(URL_PATH, " ");
+
+    for (const [match] of words.matchAll(HYPHENATED)) {
+        tokens.push(match.toLowerCase());
+    }
+
+    for (const match of words.matchAll(IDENTIFIER)) {
+        const [identifier] = match;
+        if (ACCENTED_LETTER.test(words[match.index + identifier.length] ?? "")) continue;
+
+        const parts = normalizeText(identifier.replace(CASE_BOUNDARY, "$1$3 $2$4").replace(/_+/g, " ")).split(" ");
+        if (parts.length > 1) tokens.push(...parts.filter(Boolean));
+    }
+
+    for (const match of text.matchAll(QUALIFIED_STATUS)) {
+        tokens.push(`http:${match[1]}`);
+    }
+    for (const match of text.matchAll(QUOTED_STATUS)) {
+        tokens.push(`http:${match[1]}`);
+    }
+
+    return tokens;
+}
+
+/**
+ * Palavras normalizadas do texto seguidas dos tokens de identificadores
+ *
+ * @param text - Texto original
+ */
+export function tokenizeText(text: string): string[] {
+    const normalized = normalizeText(text);
+    return [...(normalized ? normalized.split(" ") : []), ...extractIdentifierTokens(text)];
+}
+
+/**
+ * Forma canônica de um caminho: minúsculo, sem "/" ou pontuação final e com parâmetros como "{}"
+ * Retorna null para textos sem letras ("/", "/2024")
+ */
+function canonicalizePath(path: string): string | null {
+    const canonical = path
+        .replace(/[.,:;]+$/, "")
+        .replace(PATH_PARAMETER, "{}")
+        .replace(/\/+$/, "")
+        .toLowerCase();
+
+    return /[a-z]/.test(canonical.replace(/\{\}/g, "")) ? canonical : null;
+}
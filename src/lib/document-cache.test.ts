@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import type { DocSource } from "../types/index.js";
+import { fetchDocumentCached } from "./document-cache.js";
+
+describe("fetchDocumentCached", () => {
+    let server: Server;
+    let baseUrl: string;
+    let version: number;
+    let down: boolean;
+    let downloads: number;
+    let conditionalRequests: number;
+    let sourceCount = 0;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            if (down) {
+                response.writeHead(503);
+                response.end();
+                return;
+            }
+
+            const etag = `"v${version}"`;
+            if (request.headers["if-none-match"] !== undefined) {
+                conditionalRequests++;
+                if (request.headers["if-none-match"] === etag) {
+                    response.writeHead(304);
+                    response.end();
+                    return;
+                }
+            }
+
+            downloads++;
+            response.writeHead(200, { "Content-Type": "text/markdown", ETag: etag });
+            response.end(`# Docs v${version}`);
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        version = 1;
+        down = false;
+        downloads = 0;
+        conditionalRequests = 0;
+    });
+
+    /**
+     * Opções de fetch com uma fonte nova (o cache é separado por fonte)
+     */
+    function createOptions(ttl: number) {
+        sourceCount++;
+        const source: DocSource = {
+            name: `source-${sourceCount}`,
+            url: `${baseUrl}/docs.md`,
+            auth: { type: "none" },
+            requestTimeout: 5000,
+            headers: {},
+            language: "auto",
+            chunking: {},
+        };
+        return { source, useSmartFetch: false, cache: { enabled: true, ttl, persist: false, directory: "" } };
+    }
+
+    it("serve o documento do cache dentro do TTL", async () => {
+        const options = createOptions(60_000);
+
+        const first = await fetchDocumentCached(options.source.url, options);
+        const second = await fetchDocumentCached(options.source.url, options);
+
+        assert.equal(first.status, "miss");
+        assert.equal(second.status, "hit");
+        assert.equal(second.document, first.document);
+        assert.equal(downloads, 1);
+    });
+
+    it("revalida com If-None-Match depois do TTL e mantém a cópia em um 304", async () => {
+        const options = createOptions(0);
+
+        await fetchDocumentCached(options.source.url, options);
+        const revalidated = await fetchDocumentCached(options.source.url, options);
+
+        assert.equal(revalidated.status, "revalidated");
+        assert.equal(revalidated.document.content, "# Docs v1");
+        assert.equal(conditionalRequests, 1);
+        assert.equal(downloads, 1);
+    });
+
+    it("baixa de novo o documento que mudou na origem", async () => {
+        const options = createOptions(0);
+
+        await fetchDocumentCached(options.source.url, options);
+        version = 2;
+        const refreshed = await fetchDocumentCached(options.source.url, options);
+
+        assert.equal(refreshed.status, "refreshed");
+        assert.equal(refreshed.document.content, "# Docs v2");
+        assert.equal(refreshed.document.etag, '"v2"');
+    });
+
+    it("serve a cópia antiga quando a origem está indisponível", async () => {
+        const options = createOptions(0);
+
+        await fetchDocumentCached(options.source.url, options);
+        down = true;
+        const stale = await fetchDocumentCached(options.source.url, options);
+
+        assert.equal(stale.status, "stale");
+        assert.equal(stale.document.content, "# Docs v1");
+        assert.ok(stale.error);
+    });
+
+    it("falha quando a origem está indisponível e não há cópia", async () => {
+        down = true;
+        const options = createOptions(0);
+
+        await assert.rejects(fetchDocumentCached(options.source.url, options), /503/);
+    });
+});
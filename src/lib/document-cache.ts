@@ -0,0 +1,192 @@
+/**
+ * Cache de documentos em memória
+ * Evita repetir o fetch (e a renderização headless) a cada busca na mesma documentação
+ *
+ * Dentro do TTL o documento é servido direto do cache. Depois dele, é revalidado com
+ * If-None-Match/If-Modified-Since; se a origem estiver indisponível, a cópia antiga continua sendo servida.
+ */
+
+import { createHash } from "node:crypto";
+
+import axios from "axios";
+
+import type { CacheSettings, DocSource, FetchedDocument } from "../types/index.js";
+import { type FetchDocumentOptions, fetchDocumentDetailed, getHttpClient } from "./http-client.js";
+
+/**
+ * Documento armazenado no cache
+ */
+export interface CachedDocument extends FetchedDocument {
+    /** Momento em que o conteúdo foi baixado (ms desde epoch) */
+    fetchedAt: number;
+    /** Última vez que o conteúdo foi confirmado pela origem (ms desde epoch) */
+    validatedAt: number;
+    /** Hash SHA-256 do conteúdo */
+    contentHash: string;
+    /** Se o conteúdo foi restaurado de um snapshot em disco */
+    fromSnapshot?: boolean;
+}
+
+/**
+ * Como o documento foi obtido
+ * - miss: baixado agora (não havia cópia)
+ * - hit: servido do cache dentro do TTL
+ * - revalidated: a origem confirmou que a cópia continua válida (304)
+ * - refreshed: a cópia expirou e o conteúdo foi baixado de novo
+ * - stale: a origem falhou e a cópia antiga foi servida
+ */
+export type CacheStatus = "miss" | "hit" | "revalidated" | "refreshed" | "stale";
+
+/**
+ * Resultado de uma busca com cache
+ */
+export interface CachedFetchResult {
+    /** Documento servido */
+    document: CachedDocument;
+    /** Como o documento foi obtido */
+    status: CacheStatus;
+    /** Erro da origem quando status é "stale" */
+    error?: unknown;
+}
+
+/**
+ * Opções da busca com cache
+ */
+export interface CachedFetchOptions extends FetchDocumentOptions {
+    /** Configuração do cache */
+    cache: CacheSettings;
+}
+
+/** Documentos em cache, por fonte e URL */
+const documents = new Map<string, CachedDocument>();
+
+/** Buscas em andamento, para que chamadas simultâneas compartilhem o mesmo fetch */
+const pendingFetches = new Map<string, Promise<CachedFetchResult>>();
+
+/**
+ * Busca um documento usando o cache
+ *
+ * @param url - URL da documentação
+ * @param options - Opções de fetch e configuração do cache
+ * @returns Documento e como ele foi obtido
+ * @throws {Error} Se o fetch falhar e não houver cópia em cache
+ */
+export async function fetchDocumentCached(url: string, options: CachedFetchOptions): Promise<CachedFetchResult> {
+    const { cache, ...fetchOptions } = options;
+
+    if (!cache.enabled) {
+        return { document: toCachedDocument(await fetchDocumentDetailed(url, fetchOptions)), status: "miss" };
+    }
+
+    const key = getCacheKey(url, fetchOptions.source);
+    const cached = documents.get(key);
+
+    if (cached && Date.now() - cached.validatedAt < cache.ttl) {
+        return { document: cached, status: "hit" };
+    }
+
+    let pending = pendingFetches.get(key);
+    if (!pending) {
+        pending = refreshDocument(key, url, fetchOptions, cached).finally(() => {
+            pendingFetches.delete(key);
+        });
+        pendingFetches.set(key, pending);
+    }
+
+    return pending;
+}
+
+/**
+ * Revalida ou baixa novamente um documento expirado (ou ausente)
+ */
+async function refreshDocument(
+    key: string,
+    url: string,
+    options: FetchDocumentOptions,
+    cached: CachedDocument | undefined,
+): Promise<CachedFetchResult> {
+    try {
+        if (cached && (await isNotModified(cached, options))) {
+            cached.validatedAt = Date.now();
+            return { document: cached, status: "revalidated" };
+        }
+
+        const document = toCachedDocument(await fetchDocumentDetailed(url, options));
+        documents.set(key, document);
+        return { document, status: cached ? "refreshed" : "miss" };
+    } catch (error) {
+        if (!cached) {
+            throw error;
+        }
+
+        const message = error instanceof Error ? error.message : "Erro desconhecido";
+        console.error(`Origem indisponível (${url}): ${message}. Usando cópia em cache.`);
+        return { document: cached, status: "stale", error };
+    }
+}
+
+/**
+ * Pergunta à origem se o documento mudou (requisição condicional)
+ * O conteúdo vindo de uma spec OpenAPI é revalidado pela URL da spec
+ *
+ * @returns true se a origem respondeu 304; false se o documento mudou ou não há validadores (ex: renderização headless)
+ * @throws {Error} Se a origem estiver indisponível
+ */
+async function isNotModified(cached: CachedDocument, options: FetchDocumentOptions): Promise<boolean> {
+    if (!cached.etag && !cached.lastModified) {
+        return false;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached.etag) headers["If-None-Match"] = cached.etag;
+    if (cached.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    // A spec é baixada sem o cliente da fonte (ver fetchOpenApiSpec); a revalidação segue o mesmo caminho
+    const client = cached.specUrl ? axios : getHttpClient(options.source);
+
+    const response = await client.get(cached.specUrl ?? cached.url, {
+        headers,
+        timeout: options.httpTimeout,
+        validateStatus: (status) => status === 304 || (status >= 200 && status < 300),
+    });
+
+    return response.status === 304;
+}
+
+/**
+ * Adiciona ao cache um documento obtido fora da rede (ex: snapshot em disco)
+ * Não substitui uma cópia já presente; o documento é revalidado na primeira busca
+ *
+ * @param url - URL da documentação
+ * @param source - Fonte da documentação
+ * @param document - Documento a adicionar
+ */
+export function seedDocumentCache(url: string, source: DocSource | undefined, document: CachedDocument): void {
+    const key = getCacheKey(url, source);
+
+    if (!documents.has(key)) {
+        documents.set(key, { ...document, validatedAt: 0 });
+    }
+}
+
+/**
+ * Calcula o hash SHA-256 (hex) de um conteúdo
+ */
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Chave do cache: a mesma URL pode ser servida com credenciais diferentes por fontes diferentes
+ */
+function getCacheKey(url: string, source: DocSource | undefined): string {
+    return `${source?.name ?? ""}\n${url}`;
+}
+
+/**
+ * Adiciona os instantes de fetch e validação e o hash a um documento recém-baixado
+ */
+function toCachedDocument(document: FetchedDocument): CachedDocument {
+    const now = Date.now();
+    return { ...document, fetchedAt: now, validatedAt: now, contentHash: hashContent(document.content) };
+}
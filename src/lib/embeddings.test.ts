@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import { createEmbeddingProvider } from "./embeddings.js";
+
+/**
+ * Requisição recebida pelo servidor de embeddings de teste
+ */
+interface EmbeddingsRequest {
+    authorization?: string;
+    model: string;
+    input: string[];
+}
+
+describe("createEmbeddingProvider (openai-compatible)", () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: EmbeddingsRequest[];
+    /** Se o servidor responde com menos vetores que textos */
+    let truncate: boolean;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => {
+                body += chunk;
+            });
+            request.on("end", () => {
+                const { model, input } = JSON.parse(body) as EmbeddingsRequest;
+                requests.push({ authorization: request.headers.authorization, model, input });
+
+                // Vetor [comprimento, 1] de cada texto, em ordem invertida (o índice define a posição)
+                const data = input.map((text, index) => ({ index, embedding: [text.length, 1] })).reverse();
+                response.writeHead(200, { "Content-Type": "application/json" });
+                response.end(JSON.stringify({ data: truncate ? data.slice(1) : data }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        requests = [];
+        truncate = false;
+    });
+
+    it("envia os chunks em lotes e ordena os vetores pelo índice", async () => {
+        const provider = createEmbeddingProvider({
+            provider: "openai-compatible",
+            url: baseUrl,
+            model: "nomic-embed-text",
+            apiKey: "secret",
+            batchSize: 2,
+        });
+
+        const corpus = await provider.embedCorpus(["a", "bbb", "cc"]);
+
+        assert.deepEqual(
+            requests.map((request) => request.input),
+            [["a", "bbb"], ["cc"]],
+        );
+        assert.equal(requests[0]?.model, "nomic-embed-text");
+        assert.equal(requests[0]?.authorization, "Bearer secret");
+        // Vetores normalizados: [3, 1] / √10
+        assert.ok(Math.abs((corpus.vectors[1]?.[0] ?? 0) - 3 / Math.sqrt(10)) < 1e-6);
+        assert.equal(corpus.vectors.length, 3);
+    });
+
+    it("vetoriza a busca com o mesmo modelo", async () => {
+        const provider = createEmbeddingProvider({ provider: "openai-compatible", url: baseUrl, model: "m" });
+        const corpus = await provider.embedCorpus(["texto"]);
+
+        const vector = await corpus.embedQuery("busca");
+
+        assert.equal(vector.length, 2);
+        assert.deepEqual(requests.at(-1)?.input, ["busca"]);
+        assert.equal(requests.at(-1)?.authorization, undefined);
+    });
+
+    it("rejeita respostas com menos vetores que textos", async () => {
+        truncate = true;
+        const provider = createEmbeddingProvider({ provider: "openai-compatible", url: baseUrl, model: "m" });
+
+        await assert.rejects(provider.embedCorpus(["a", "b"]), /Resposta inválida.*esperados 2 vetores/);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Provedores de embeddings da busca semântica
+ * O provedor local (hashing) funciona sem rede; o compatível com OpenAI usa um servidor de modelos
+ * (ex: Ollama, LM Studio, llama.cpp) pelo endpoint /embeddings
+ */
+
+import axios from "axios";
+
+import type { EmbeddingsSettings, OpenAICompatibleEmbeddingsSettings } from "../types/index.js";
+import { createHashingProvider, type EmbeddingProvider, normalizeVector } from "./doc-search/index.js";
+
+/** Textos por requisição ao endpoint /embeddings */
+const DEFAULT_BATCH_SIZE = 64;
+
+/** Timeout padrão das requisições de embeddings (ms) */
+const DEFAULT_EMBEDDINGS_TIMEOUT = 60_000;
+
+/**
+ * Resposta do endpoint /embeddings
+ */
+interface EmbeddingsResponse {
+    data?: { embedding?: unknown; index?: number }[];
+}
+
+/**
+ * Cria o provedor de embeddings configurado
+ *
+ * @param settings - Configuração de embeddings
+ */
+export function createEmbeddingProvider(settings: EmbeddingsSettings): EmbeddingProvider {
+    switch (settings.provider) {
+        case "hashing":
+            return createHashingProvider(settings.dimensions);
+
+        case "openai-compatible":
+            return createOpenAICompatibleProvider(settings);
+    }
+}
+
+/**
+ * Descreve o provedor de embeddings para logs
+ */
+export function describeEmbeddings(settings: EmbeddingsSettings): string {
+    switch (settings.provider) {
+        case "hashing":
+            return "hashing (local)";
+        case "openai-compatible":
+            return `${settings.model} em ${settings.url}`;
+    }
+}
+
+/**
+ * Provedor compatível com o endpoint /embeddings da OpenAI
+ * Chunks e buscas são vetorizados pelo mesmo modelo; os chunks são enviados em lotes
+ */
+function createOpenAICompatibleProvider(settings: OpenAICompatibleEmbeddingsSettings): EmbeddingProvider {
+    const endpoint = `${settings.url.replace(/\/+$/, "")}/embeddings`;
+    const batchSize = settings.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    const embed = (texts: string[]) => requestEmbeddings(endpoint, settings, texts);
+
+    return {
+        id: `openai-compatible:${endpoint}:${settings.model}`,
+
+        async embedCorpus(texts) {
+            const vectors: Float32Array[] = [];
+
+            // Lotes sequenciais (servidores locais costumam processar uma requisição por vez)
+            for (let start = 0; start < texts.length; start += batchSize) {
+                vectors.push(...(await embed(texts.slice(start, start + batchSize))));
+            }
+
+            return {
+                vectors,
+                embedQuery: async (query) => {
+                    const [vector] = await embed([query]);
+                    return vector ?? new Float32Array();
+                },
+            };
+        },
+    };
+}
+
+/**
+ * Envia um lote de textos ao endpoint e retorna os vetores normalizados, na ordem dos textos
+ *
+ * @throws {Error} Se o servidor falhar ou responder em formato inesperado
+ */
+async function requestEmbeddings(
+    endpoint: string,
+    settings: OpenAICompatibleEmbeddingsSettings,
+    texts: string[],
+): Promise<Float32Array[]> {
+    let data: EmbeddingsResponse;
+
+    try {
+        const response = await axios.post<EmbeddingsResponse>(
+            endpoint,
+            { model: settings.model, input: texts },
+            {
+                headers: settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+                timeout: settings.timeout ?? DEFAULT_EMBEDDINGS_TIMEOUT,
+            },
+        );
+        data = response.data;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Erro desconhecido";
+        throw new Error(`Falha ao gerar embeddings em ${endpoint}: ${message}`);
+    }
+
+    const items = Array.isArray(data?.data) ? data.data : [];
+    const vectors = items
+        .map((item, position) => ({ embedding: item.embedding, index: item.index ?? position }))
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+
+    if (vectors.length !== texts.length || !vectors.every(isNumberArray)) {
+        throw new Error(`Resposta inválida do servidor de embeddings (${endpoint}): esperados ${texts.length} vetores`);
+    }
+
+    return vectors.map(normalizeVector);
+}
+
+/**
+ * Verifica se o valor é um array de números
+ */
+function isNumberArray(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === "number");
+}
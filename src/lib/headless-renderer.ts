@@ -202,8 +202,12 @@ export async function renderPage(url: string, options: RenderOptions = {}): Prom
 /**
  * Renderiza página Swagger e extrai spec via window.ui.spec()
  * O Swagger UI expõe a spec completa carregada em memória
+ *
+ * @param url - URL da página Swagger
+ * @param timeout - Timeout de navegação em ms
+ * @param extraWaitTime - Espera após o load para o Swagger UI carregar (ms)
  */
-export async function renderSwaggerPage(url: string, timeout = 30000): Promise<RenderResult> {
+export async function renderSwaggerPage(url: string, timeout = 30000, extraWaitTime = 2000): Promise<RenderResult> {
     // Verifica se puppeteer está disponível
     const available = await isPuppeteerAvailable();
     if (!available || !puppeteerModule) {
@@ -236,7 +240,7 @@ export async function renderSwaggerPage(url: string, timeout = 30000): Promise<R
         });
 
         // Espera o Swagger UI carregar
-        await new Promise((resolve) => setTimeout(resolve, 2000));
+        await new Promise((resolve) => setTimeout(resolve, extraWaitTime));
 
         // Tenta extrair a spec via window.ui.spec()
         // O Swagger UI usa Immutable.js, então precisamos chamar .toJS() para converter
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+
+import type { AuthConfig, DocSource } from "../types/index.js";
+import { formatHttpError, getHttpClient } from "./http-client.js";
+
+describe("getHttpClient", () => {
+    let server: Server;
+    let baseUrl: string;
+    /** Token aceito pela documentação */
+    let validToken: string;
+    /** Header Authorization de cada requisição à documentação */
+    let docRequests: (string | undefined)[];
+    /** Corpo de cada requisição ao endpoint de renovação */
+    let refreshRequests: URLSearchParams[];
+    let sourceCount = 0;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk) => {
+                body += chunk;
+            });
+            request.on("end", () => {
+                if (request.url === "/refresh") {
+                    const params = new URLSearchParams(body);
+                    refreshRequests.push(params);
+                    const generation = refreshRequests.length;
+                    validToken = `access-${generation}`;
+                    response.writeHead(200, { "Content-Type": "application/json" });
+                    response.end(JSON.stringify({ access_token: validToken, refresh_token: `refresh-${generation}` }));
+                    return;
+                }
+
+                docRequests.push(request.headers.authorization);
+                response.writeHead(request.headers.authorization === `Bearer ${validToken}` ? 200 : 401);
+                response.end("docs");
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        validToken = "valid";
+        docRequests = [];
+        refreshRequests = [];
+    });
+
+    /**
+     * Fonte com nome único (o cliente HTTP é reutilizado por nome)
+     */
+    function createSource(auth: AuthConfig): DocSource {
+        sourceCount++;
+        return {
+            name: `source-${sourceCount}`,
+            url: `${baseUrl}/docs`,
+            auth,
+            requestTimeout: 5000,
+            headers: {},
+            language: "auto",
+            chunking: {},
+        };
+    }
+
+    it("renova o token com o comando e repete a requisição após um 401", async () => {
+        validToken = "fresh";
+        const source = createSource({
+            type: "bearer",
+            token: "expired",
+            refresh: { type: "command", command: "echo fresh" },
+        });
+
+        const response = await getHttpClient(source).get(source.url);
+
+        assert.equal(response.status, 200);
+        assert.deepEqual(docRequests, ["Bearer expired", "Bearer fresh"]);
+    });
+
+    it("usa o refresh token mais recente retornado pelo endpoint", async () => {
+        const source = createSource({
+            type: "bearer",
+            token: "expired",
+            refresh: { type: "token-endpoint", url: `${baseUrl}/refresh`, refreshToken: "initial", clientId: "app" },
+        });
+        const client = getHttpClient(source);
+
+        await client.get(source.url);
+        validToken = "rotated-by-server";
+        await client.get(source.url);
+
+        assert.deepEqual(
+            refreshRequests.map((params) => params.get("refresh_token")),
+            ["initial", "refresh-1"],
+        );
+        assert.equal(refreshRequests[0]?.get("client_id"), "app");
+    });
+
+    it("compartilha a renovação entre requisições simultâneas", async () => {
+        const source = createSource({
+            type: "bearer",
+            token: "expired",
+            refresh: { type: "token-endpoint", url: `${baseUrl}/refresh`, refreshToken: "initial" },
+        });
+        const client = getHttpClient(source);
+
+        const responses = await Promise.all([client.get(source.url), client.get(source.url), client.get(source.url)]);
+
+        assert.deepEqual(
+            responses.map((response) => response.status),
+            [200, 200, 200],
+        );
+        assert.equal(refreshRequests.length, 1);
+    });
+
+    it("repete a requisição uma única vez quando o token renovado também é recusado", async () => {
+        const source = createSource({
+            type: "bearer",
+            token: "expired",
+            refresh: { type: "command", command: "echo still-invalid" },
+        });
+
+        const error = await getHttpClient(source)
+            .get(source.url)
+            .catch((error: unknown) => error);
+
+        assert.deepEqual(docRequests, ["Bearer expired", "Bearer still-invalid"]);
+        assert.match(formatHttpError(error, source.url, source).userMessage, /token renovado também foi recusado/);
+    });
+
+    it("não repete requisições de fontes sem renovação", async () => {
+        const source = createSource({ type: "bearer", token: "expired" });
+
+        await assert.rejects(getHttpClient(source).get(source.url), /401/);
+        assert.equal(docRequests.length, 1);
+    });
+});
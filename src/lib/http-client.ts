@@ -2,32 +2,128 @@
  * Cliente HTTP configurado para requisições à API de documentação
  */
 
-import axios, { type AxiosError, type AxiosInstance } from "axios";
+import axios, { type AxiosError, type AxiosInstance, type AxiosResponse } from "axios";
 
 import { getConfig } from "../config/index.js";
+import type { DocSource, FetchedDocument, FetchSettings } from "../types/index.js";
+import { type AuthStrategy, createAuthStrategy } from "./auth.js";
 
-let httpClientInstance: AxiosInstance | null = null;
+/** Instâncias do cliente HTTP, uma por fonte */
+const httpClientInstances = new Map<string, AxiosInstance>();
+
+/** Estratégias de autenticação, uma por fonte */
+const authStrategies = new Map<string, AuthStrategy>();
+
+declare module "axios" {
+    interface AxiosRequestConfig {
+        /** Marca a requisição já repetida após renovação de credenciais */
+        _authRetried?: boolean;
+        /** Renovações de credenciais já feitas quando a requisição foi enviada */
+        _authGeneration?: number;
+    }
+}
 
 /**
- * Retorna instância configurada do cliente HTTP (singleton)
- * Configurado com JWT e timeout da configuração do MCP
+ * Retorna instância configurada do cliente HTTP para uma fonte (singleton por fonte)
+ * Configurado com a autenticação, headers e timeout da fonte; sem fonte, usa a primeira configurada
+ *
+ * @param source - Fonte de documentação
  */
-export function getHttpClient(): AxiosInstance {
-    if (!httpClientInstance) {
-        const config = getConfig();
+export function getHttpClient(source: DocSource = getDefaultSource()): AxiosInstance {
+    let httpClientInstance = httpClientInstances.get(source.name);
 
+    if (!httpClientInstance) {
         httpClientInstance = axios.create({
             headers: {
-                Authorization: `Bearer ${config.jwtToken}`,
                 "Content-Type": "application/json",
+                ...source.headers,
             },
-            timeout: config.requestTimeout,
+            timeout: source.requestTimeout,
         });
+        const strategy = getAuthStrategy(source);
+        strategy.install(httpClientInstance);
+        installAuthRetry(httpClientInstance, strategy);
+        httpClientInstances.set(source.name, httpClientInstance);
     }
 
     return httpClientInstance;
 }
 
+/**
+ * Retorna a estratégia de autenticação de uma fonte (singleton por fonte)
+ *
+ * @param source - Fonte de documentação
+ */
+export function getAuthStrategy(source: DocSource): AuthStrategy {
+    let strategy = authStrategies.get(source.name);
+
+    if (!strategy) {
+        strategy = createAuthStrategy(source.auth, source.name, source.requestTimeout);
+        authStrategies.set(source.name, strategy);
+    }
+
+    return strategy;
+}
+
+/**
+ * Em um 401, renova as credenciais uma única vez e repete a requisição
+ * Só é instalado quando a estratégia suporta renovação. Um 401 de uma requisição enviada antes da última
+ * renovação apenas repete a requisição (as credenciais já foram renovadas por outra)
+ *
+ * @param client - Cliente HTTP da fonte
+ * @param strategy - Estratégia de autenticação da fonte
+ */
+function installAuthRetry(client: AxiosInstance, strategy: AuthStrategy): void {
+    const { refresh } = strategy;
+    if (!refresh) return;
+
+    let generation = 0;
+    let pendingRefresh: Promise<void> | null = null;
+
+    client.interceptors.request.use((request) => {
+        request._authGeneration = generation;
+        return request;
+    });
+
+    client.interceptors.response.use(undefined, async (error: unknown) => {
+        if (
+            !axios.isAxiosError(error) ||
+            error.response?.status !== 401 ||
+            !error.config ||
+            error.config._authRetried
+        ) {
+            throw error;
+        }
+
+        const request = error.config;
+        if (request._authGeneration === generation) {
+            pendingRefresh ??= refresh(client)
+                .then(() => {
+                    generation++;
+                })
+                .finally(() => {
+                    pendingRefresh = null;
+                });
+            await pendingRefresh;
+        }
+
+        // Remove o header antigo para que a repetição use o do cliente (ou o do interceptor de autenticação)
+        request.headers.delete("Authorization");
+        return client.request({ ...request, _authRetried: true });
+    });
+}
+
+/**
+ * Retorna a primeira fonte configurada
+ */
+function getDefaultSource(): DocSource {
+    const [source] = getConfig().sources;
+    if (!source) {
+        throw new Error("Nenhuma fonte de documentação configurada");
+    }
+    return source;
+}
+
 /**
  * Interface para erro formatado
  */
@@ -42,9 +138,10 @@ export interface FormattedError {
  *
  * @param error - Erro capturado
  * @param url - URL que foi requisitada
+ * @param source - Fonte consultada (para dicas específicas da autenticação em 401/403)
  * @returns Objeto com mensagens de erro formatadas
  */
-export function formatHttpError(error: unknown, url: string): FormattedError {
+export function formatHttpError(error: unknown, url: string, source?: DocSource): FormattedError {
     const defaultMessage = error instanceof Error ? error.message : "Erro desconhecido";
 
     if (!axios.isAxiosError(error)) {
@@ -77,7 +174,9 @@ export function formatHttpError(error: unknown, url: string): FormattedError {
     if (status === 401) {
         return {
             message: defaultMessage,
-            userMessage: `Token JWT inválido ou expirado. Verifique MCP_JWT_TOKEN.`,
+            userMessage: source
+                ? getAuthStrategy(source).errorHint(401)
+                : `Token JWT inválido ou expirado. Verifique MCP_JWT_TOKEN.`,
             statusCode: status,
         };
     }
@@ -85,7 +184,9 @@ export function formatHttpError(error: unknown, url: string): FormattedError {
     if (status === 403) {
         return {
             message: defaultMessage,
-            userMessage: `Acesso negado à documentação. Verifique as permissões do token JWT.`,
+            userMessage: source
+                ? getAuthStrategy(source).errorHint(403)
+                : `Acesso negado à documentação. Verifique as permissões do token JWT.`,
             statusCode: status,
         };
     }
@@ -116,13 +217,17 @@ export function formatHttpError(error: unknown, url: string): FormattedError {
 /**
  * Opções para fetch de documento
  */
-export interface FetchDocumentOptions {
+export interface FetchDocumentOptions extends Omit<FetchSettings, "useSmartFetch"> {
     /** Usa fetch inteligente com detecção de Swagger/SPA (padrão: true) */
     useSmartFetch?: boolean;
     /** Timeout para requisições HTTP (ms) */
     httpTimeout?: number;
     /** Timeout para renderização headless (ms) */
     headlessTimeout?: number;
+    /** Espera adicional após o load da página na renderização headless (ms) */
+    headlessWaitTime?: number;
+    /** Fonte de documentação (define credenciais e timeout do cliente HTTP) */
+    source?: DocSource;
 }
 
 /**
@@ -134,20 +239,37 @@ export interface FetchDocumentOptions {
  * @returns Conteúdo da resposta como string
  */
 export async function fetchDocument(url: string, options: FetchDocumentOptions = {}): Promise<string> {
-    const { useSmartFetch = true, httpTimeout, headlessTimeout } = options;
+    const { content } = await fetchDocumentDetailed(url, options);
+    return content;
+}
+
+/**
+ * Busca conteúdo de uma URL com os metadados do fetch
+ * (método usado, URL da spec e validadores de cache)
+ *
+ * @param url - URL para buscar
+ * @param options - Opções de fetch
+ * @returns Conteúdo e metadados do documento
+ */
+export async function fetchDocumentDetailed(url: string, options: FetchDocumentOptions = {}): Promise<FetchedDocument> {
+    const { useSmartFetch = true, source, ...smartFetchOptions } = options;
 
     // Se smart fetch está habilitado, usa ele
     if (useSmartFetch) {
         // Importa dinamicamente para evitar dependência circular
         const { smartFetch } = await import("./smart-fetch.js");
 
-        const result = await smartFetch(url, {
-            httpTimeout,
-            headlessTimeout,
-        });
+        const result = await smartFetch(url, { ...smartFetchOptions, source });
 
         if (result.success && result.content) {
-            return result.content;
+            return {
+                content: result.content,
+                method: result.method,
+                url,
+                specUrl: result.specUrl,
+                etag: result.etag,
+                lastModified: result.lastModified,
+            };
         }
 
         // Se falhou, tenta método tradicional
@@ -157,13 +279,26 @@ export async function fetchDocument(url: string, options: FetchDocumentOptions =
     }
 
     // Método tradicional
-    const client = getHttpClient();
+    const client = getHttpClient(source);
     const response = await client.get<string | object>(url);
 
     // Garante que o retorno seja string
-    if (typeof response.data === "string") {
-        return response.data;
-    }
+    const content = typeof response.data === "string" ? response.data : JSON.stringify(response.data, null, 2);
+
+    return { content, method: "direct", url, ...getCacheValidators(response.headers) };
+}
 
-    return JSON.stringify(response.data, null, 2);
+/**
+ * Extrai os validadores de cache (ETag e Last-Modified) dos headers de uma resposta
+ *
+ * @param headers - Headers da resposta
+ */
+export function getCacheValidators(headers: AxiosResponse["headers"]): Pick<FetchedDocument, "etag" | "lastModified"> {
+    const etag = headers.etag;
+    const lastModified = headers["last-modified"];
+
+    return {
+        etag: typeof etag === "string" ? etag : undefined,
+        lastModified: typeof lastModified === "string" ? lastModified : undefined,
+    };
 }
@@ -301,6 +301,11 @@ function formatOperation(
         parts.push(`*Operation ID:* \`${operation.operationId}\``);
     }
 
+    // Tags (usadas pelo filtro tag: da busca)
+    if (operation.tags?.length) {
+        parts.push(`*Tags:* ${operation.tags.map((tag) => `\`${tag}\``).join(", ")}`);
+    }
+
     // Parâmetros (combina path params com operation params)
     const allParams = [...(pathParams || []), ...(operation.parameters || [])];
     if (allParams.length) {
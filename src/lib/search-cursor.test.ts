@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createQueryKey, decodeSearchCursor, encodeSearchCursor, SearchCursorError } from "./search-cursor.js";
+
+describe("encodeSearchCursor / decodeSearchCursor", () => {
+    it("recupera o estado da paginação", () => {
+        const cursor = {
+            queryKey: createQueryKey(["token", null, "keyword", "expanded"]),
+            sources: { default: { version: "abc123", seen: [4, 0, 9] }, api: { version: "def456", seen: [] } },
+        };
+
+        const decoded = decodeSearchCursor(encodeSearchCursor(cursor));
+
+        assert.deepEqual(decoded, {
+            queryKey: cursor.queryKey,
+            sources: { default: { version: "abc123", seen: [0, 4, 9] }, api: { version: "def456", seen: [] } },
+        });
+    });
+
+    it("gera texto seguro para URLs", () => {
+        const encoded = encodeSearchCursor({ queryKey: "k", sources: { "fonte/á": { version: "v", seen: [1] } } });
+
+        assert.match(encoded, /^[A-Za-z0-9_-]+$/);
+    });
+
+    it("recusa cursores malformados", () => {
+        const invalid = [
+            "não é base64",
+            Buffer.from("{").toString("base64url"),
+            Buffer.from(JSON.stringify({ v: 99, q: "k", s: {} })).toString("base64url"),
+            Buffer.from(JSON.stringify({ v: 1, q: "k", s: { a: { d: "v", i: [-1] } } })).toString("base64url"),
+        ];
+
+        for (const value of invalid) {
+            assert.throws(() => decodeSearchCursor(value), SearchCursorError, value);
+        }
+    });
+});
+
+describe("createQueryKey", () => {
+    it("muda com qualquer parâmetro da busca", () => {
+        const key = createQueryKey(["token", null, "keyword", "expanded"]);
+
+        assert.equal(key, createQueryKey(["token", null, "keyword", "expanded"]));
+        assert.notEqual(key, createQueryKey(["token", "api", "keyword", "expanded"]));
+        assert.notEqual(key, createQueryKey(["token", null, "keyword", "snippet"]));
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Cursores de paginação da busca
+ * Opacos para o assistente: guardam a busca que os originou, a versão do documento de cada fonte e os chunks
+ * já retornados, para que a próxima página continue sem repetir trechos (sem estado no servidor)
+ */
+
+import { createHash } from "node:crypto";
+
+import * as z from "zod";
+
+/**
+ * Versão do formato do cursor
+ * Incrementar quando o formato mudar de forma incompatível
+ */
+const CURSOR_VERSION = 1;
+
+/**
+ * Schema do cursor decodificado (chaves curtas: o cursor trafega a cada página)
+ */
+const CursorSchema = z.object({
+    v: z.literal(CURSOR_VERSION),
+    /** Chave da busca (ver createQueryKey) */
+    q: z.string(),
+    /** Fonte → versão do documento e chunks já retornados */
+    s: z.record(z.string(), z.object({ d: z.string(), i: z.array(z.int().min(0)) })),
+});
+
+/**
+ * Estado da paginação de uma busca
+ */
+export interface SearchCursor {
+    /** Chave da busca (ver createQueryKey) */
+    queryKey: string;
+    /** Por fonte: versão do documento e chunks já retornados */
+    sources: Record<string, { version: string; seen: number[] }>;
+}
+
+/**
+ * Cursor malformado ou de outra busca
+ */
+export class SearchCursorError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SearchCursorError";
+    }
+}
+
+/**
+ * Codifica o cursor em texto opaco (base64url)
+ *
+ * @param cursor - Estado da paginação
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+    const sources = Object.fromEntries(
+        Object.entries(cursor.sources).map(([name, { version, seen }]) => [
+            name,
+            { d: version, i: [...seen].sort((a, b) => a - b) },
+        ]),
+    );
+
+    return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, q: cursor.queryKey, s: sources })).toString("base64url");
+}
+
+/**
+ * Decodifica um cursor gerado por encodeSearchCursor
+ *
+ * @param value - Texto do cursor
+ * @throws {SearchCursorError} Se o cursor estiver malformado
+ */
+export function decodeSearchCursor(value: string): SearchCursor {
+    let data: unknown;
+    try {
+        data = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+    } catch {
+        throw new SearchCursorError("Cursor inválido");
+    }
+
+    const parsed = CursorSchema.safeParse(data);
+    if (!parsed.success) {
+        throw new SearchCursorError("Cursor inválido");
+    }
+
+    const sources = Object.fromEntries(
+        Object.entries(parsed.data.s).map(([name, { d, i }]) => [name, { version: d, seen: i }]),
+    );
+
+    return { queryKey: parsed.data.q, sources };
+}
+
+/**
+ * Chave curta que identifica uma busca (o cursor só vale para a mesma busca)
+ *
+ * @param parts - Parâmetros que definem a ordem dos resultados (busca, fonte, modo, ...)
+ */
+export function createQueryKey(parts: unknown[]): string {
+    return createHash("sha256").update(JSON.stringify(parts)).digest("base64url").slice(0, 16);
+}
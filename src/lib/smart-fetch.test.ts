@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import { register } from "node:module";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import type { DocSource } from "../types/index.js";
+import { fetchDocumentCached } from "./document-cache.js";
+
+/**
+ * Puppeteer falso: cada renderização da página retorna um texto novo
+ * (a primeira avaliação é a busca pela spec do Swagger UI, que não existe na página)
+ */
+const FAKE_PUPPETEER = `
+let renders = 0;
+export async function launch() {
+    const render = ++renders;
+    let evaluations = 0;
+    return {
+        newPage: async () => ({
+            goto: async () => {},
+            content: async () => "<html></html>",
+            evaluate: async () => (++evaluations === 1 ? null : "Rendered docs " + render),
+        }),
+        version: async () => "fake",
+        close: async () => {},
+    };
+}
+`;
+
+register(
+    `data:text/javascript,${encodeURIComponent(`
+        export async function resolve(specifier, context, nextResolve) {
+            if (specifier === "puppeteer") {
+                return { url: ${JSON.stringify(`data:text/javascript,${encodeURIComponent(FAKE_PUPPETEER)}`)}, shortCircuit: true };
+            }
+            return nextResolve(specifier, context);
+        }
+    `)}`,
+);
+
+describe("smartFetch com renderização headless", () => {
+    let server: Server;
+    let baseUrl: string;
+    let conditionalRequests = 0;
+
+    before(async () => {
+        // Shell de SPA: o HTML (e o ETag) não muda quando o conteúdo renderizado muda
+        server = createServer((request, response) => {
+            if (request.headers["if-none-match"] === '"shell"') {
+                conditionalRequests++;
+                response.writeHead(304);
+                response.end();
+                return;
+            }
+            response.writeHead(200, { "Content-Type": "text/html", ETag: '"shell"' });
+            response.end('<html><body><div id="root"></div><script src="/app.js"></script></body></html>');
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    it("não revalida o conteúdo renderizado com os validadores do shell", async () => {
+        const source: DocSource = {
+            name: "spa",
+            url: `${baseUrl}/docs`,
+            auth: { type: "none" },
+            requestTimeout: 5000,
+            headers: {},
+            language: "auto",
+            chunking: {},
+        };
+        const options = {
+            source,
+            tryOpenApiSpec: false,
+            headlessWaitTime: 0,
+            cache: { enabled: true, ttl: 0, persist: false, directory: "" },
+        };
+
+        const first = await fetchDocumentCached(source.url, options);
+        const second = await fetchDocumentCached(source.url, options);
+
+        assert.equal(first.document.method, "headless");
+        assert.equal(first.document.etag, undefined);
+        assert.equal(first.document.lastModified, undefined);
+        assert.equal(second.status, "refreshed");
+        assert.equal(second.document.content, "Rendered docs 2");
+        assert.equal(conditionalRequests, 0);
+    });
+});
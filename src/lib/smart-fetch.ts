@@ -4,9 +4,10 @@
  */
 
 import { isPuppeteerAvailable, renderSwaggerPage } from "./headless-renderer.js";
-import { getHttpClient } from "./http-client.js";
+import { getCacheValidators, getHttpClient } from "./http-client.js";
 import { openApiToMarkdown } from "./openapi-parser.js";
 import { detectSwagger, fetchOpenApiSpec, isValidOpenApiSpec, probeCommonSpecEndpoints } from "./swagger-detector.js";
+import type { DocSource, FetchMethod } from "../types/index.js";
 
 /**
  * Resultado do fetch inteligente
@@ -19,13 +20,17 @@ export interface SmartFetchResult {
     /** Tipo de conteúdo detectado */
     contentType: "markdown" | "html" | "json" | "openapi" | "text" | "unknown";
     /** Método usado para extrair */
-    method: "direct" | "openapi_spec" | "headless" | "html_extract";
+    method: FetchMethod;
     /** Mensagem de erro se falhou */
     error?: string;
     /** URL original */
     url: string;
     /** URL da spec OpenAPI se detectada */
     specUrl?: string;
+    /** ETag do recurso de onde o conteúdo veio (url ou specUrl) */
+    etag?: string;
+    /** Last-Modified do recurso de onde o conteúdo veio (url ou specUrl) */
+    lastModified?: string;
 }
 
 /**
@@ -36,6 +41,8 @@ export interface SmartFetchOptions {
     httpTimeout?: number;
     /** Timeout para renderização headless (ms) */
     headlessTimeout?: number;
+    /** Espera adicional após o load da página na renderização headless (ms) */
+    headlessWaitTime?: number;
     /** Se deve tentar buscar spec OpenAPI */
     tryOpenApiSpec?: boolean;
     /** Se deve usar renderização headless como fallback */
@@ -44,11 +51,19 @@ export interface SmartFetchOptions {
     probeCommonEndpoints?: boolean;
     /** Headers customizados */
     headers?: Record<string, string>;
+    /** Fonte de documentação (define o cliente HTTP usado) */
+    source?: DocSource;
 }
 
-const DEFAULT_OPTIONS: Required<SmartFetchOptions> = {
+/**
+ * Opções do fetch inteligente com valores padrão aplicados
+ */
+type ResolvedSmartFetchOptions = Required<Omit<SmartFetchOptions, "source">> & Pick<SmartFetchOptions, "source">;
+
+const DEFAULT_OPTIONS: Required<Omit<SmartFetchOptions, "source">> = {
     httpTimeout: 10000,
     headlessTimeout: 30000,
+    headlessWaitTime: 2000,
     tryOpenApiSpec: true,
     useHeadlessFallback: true,
     probeCommonEndpoints: true,
@@ -70,7 +85,7 @@ const DEFAULT_OPTIONS: Required<SmartFetchOptions> = {
  * @returns Resultado com conteúdo extraído
  */
 export async function smartFetch(url: string, options: SmartFetchOptions = {}): Promise<SmartFetchResult> {
-    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const opts: ResolvedSmartFetchOptions = { ...DEFAULT_OPTIONS, ...withoutUndefined(options) };
 
     try {
         // 1. Primeira tentativa: requisição HTTP direta
@@ -90,6 +105,8 @@ export async function smartFetch(url: string, options: SmartFetchOptions = {}):
         }
 
         // 3. Tenta renderização headless se disponível
+        // Sem validadores: o shell HTML da SPA não muda quando o conteúdo renderizado muda,
+        // então o resultado é renderizado de novo ao fim do TTL do cache
         if (opts.useHeadlessFallback) {
             const headlessResult = await tryHeadlessRender(url, opts);
             if (headlessResult.success) {
@@ -111,11 +128,18 @@ export async function smartFetch(url: string, options: SmartFetchOptions = {}):
     }
 }
 
+/**
+ * Remove chaves com valor undefined para não sobrescrever os padrões
+ */
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
 /**
  * Faz requisição HTTP básica
  */
-async function fetchWithHttp(url: string, opts: Required<SmartFetchOptions>): Promise<SmartFetchResult> {
-    const client = getHttpClient();
+async function fetchWithHttp(url: string, opts: ResolvedSmartFetchOptions): Promise<SmartFetchResult> {
+    const client = getHttpClient(opts.source);
 
     const response = await client.get<string | object>(url, {
         timeout: opts.httpTimeout,
@@ -123,6 +147,7 @@ async function fetchWithHttp(url: string, opts: Required<SmartFetchOptions>): Pr
     });
 
     const data = response.data;
+    const validators = getCacheValidators(response.headers);
 
     // Se é objeto (JSON), converte
     if (typeof data === "object") {
@@ -135,6 +160,7 @@ async function fetchWithHttp(url: string, opts: Required<SmartFetchOptions>): Pr
                 contentType: "openapi",
                 method: "direct",
                 url,
+                ...validators,
             };
         }
 
@@ -144,6 +170,7 @@ async function fetchWithHttp(url: string, opts: Required<SmartFetchOptions>): Pr
             contentType: "json",
             method: "direct",
             url,
+            ...validators,
         };
     }
 
@@ -156,6 +183,7 @@ async function fetchWithHttp(url: string, opts: Required<SmartFetchOptions>): Pr
         contentType,
         method: "direct",
         url,
+        ...validators,
     };
 }
 
@@ -232,7 +260,7 @@ function looksLikeSpa(html: string): boolean {
 async function trySwaggerExtraction(
     url: string,
     html: string,
-    opts: Required<SmartFetchOptions>,
+    opts: ResolvedSmartFetchOptions,
 ): Promise<SmartFetchResult> {
     // Detecta Swagger no HTML
     const detection = detectSwagger(html, url);
@@ -249,9 +277,9 @@ async function trySwaggerExtraction(
 
     // Tenta buscar spec pela URL detectada
     if (detection.specUrl) {
-        const spec = await fetchOpenApiSpec(detection.specUrl, opts.httpTimeout);
-        if (spec && isValidOpenApiSpec(spec)) {
-            const markdown = openApiToMarkdown(spec);
+        const fetched = await fetchOpenApiSpec(detection.specUrl, opts.httpTimeout);
+        if (fetched && isValidOpenApiSpec(fetched.spec)) {
+            const markdown = openApiToMarkdown(fetched.spec);
             return {
                 success: true,
                 content: markdown,
@@ -259,6 +287,8 @@ async function trySwaggerExtraction(
                 method: "openapi_spec",
                 url,
                 specUrl: detection.specUrl,
+                etag: fetched.etag,
+                lastModified: fetched.lastModified,
             };
         }
     }
@@ -267,9 +297,9 @@ async function trySwaggerExtraction(
     if (opts.probeCommonEndpoints) {
         const probeResult = await probeCommonSpecEndpoints(url, opts.httpTimeout / 2);
         if (probeResult) {
-            const spec = await fetchOpenApiSpec(probeResult.specUrl, opts.httpTimeout);
-            if (spec && isValidOpenApiSpec(spec)) {
-                const markdown = openApiToMarkdown(spec);
+            const fetched = await fetchOpenApiSpec(probeResult.specUrl, opts.httpTimeout);
+            if (fetched && isValidOpenApiSpec(fetched.spec)) {
+                const markdown = openApiToMarkdown(fetched.spec);
                 return {
                     success: true,
                     content: markdown,
@@ -277,6 +307,8 @@ async function trySwaggerExtraction(
                     method: "openapi_spec",
                     url,
                     specUrl: probeResult.specUrl,
+                    etag: fetched.etag,
+                    lastModified: fetched.lastModified,
                 };
             }
         }
@@ -294,7 +326,7 @@ async function trySwaggerExtraction(
 /**
  * Tenta renderização headless com Puppeteer
  */
-async function tryHeadlessRender(url: string, opts: Required<SmartFetchOptions>): Promise<SmartFetchResult> {
+async function tryHeadlessRender(url: string, opts: ResolvedSmartFetchOptions): Promise<SmartFetchResult> {
     // Verifica se Puppeteer está disponível
     const available = await isPuppeteerAvailable();
     if (!available) {
@@ -308,7 +340,7 @@ async function tryHeadlessRender(url: string, opts: Required<SmartFetchOptions>)
     }
 
     // Renderiza a página
-    const result = await renderSwaggerPage(url, opts.headlessTimeout);
+    const result = await renderSwaggerPage(url, opts.headlessTimeout, opts.headlessWaitTime);
 
     if (!result.success || !result.text) {
         return {
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, it } from "node:test";
+
+import type { DocSource } from "../types/index.js";
+import type { ChunkLimits } from "./doc-search/index.js";
+import type { CachedDocument } from "./document-cache.js";
+import { createSnapshot, loadSnapshot, saveSnapshot, snapshotToDocument } from "./snapshot-store.js";
+
+const source: DocSource = {
+    name: "docs",
+    url: "https://docs.example.com",
+    auth: { type: "none" },
+    requestTimeout: 5000,
+    headers: {},
+    language: "auto",
+    chunking: {},
+};
+
+const document: CachedDocument = {
+    content: "# Docs\n\nConteúdo",
+    method: "direct",
+    url: source.url,
+    etag: '"v1"',
+    fetchedAt: 1_700_000_000_000,
+    validatedAt: 1_700_000_500_000,
+    contentHash: "abc123",
+};
+
+const chunkLimits: ChunkLimits = {
+    maxChunkSize: 1000,
+    minChunkSize: 100,
+    overlap: 0,
+    unit: "chars",
+    strategies: ["headers", "paragraphs"],
+};
+
+describe("snapshot-store", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), "tdocs7-snapshots-"));
+    });
+
+    it("salva e lê o snapshot de uma fonte", async () => {
+        await saveSnapshot(directory, createSnapshot(source, document, ["# Docs", "Conteúdo"], chunkLimits));
+
+        const snapshot = loadSnapshot(directory, source);
+
+        assert.deepEqual(snapshot?.chunks, ["# Docs", "Conteúdo"]);
+        assert.deepEqual(snapshot?.chunkLimits, chunkLimits);
+        assert.equal(snapshot?.etag, '"v1"');
+    });
+
+    it("restaura o documento marcado como vindo do snapshot", async () => {
+        await saveSnapshot(directory, createSnapshot(source, document, [], chunkLimits));
+        const snapshot = loadSnapshot(directory, source);
+        assert.ok(snapshot);
+
+        const restored = snapshotToDocument(snapshot);
+
+        assert.equal(restored.content, document.content);
+        assert.equal(restored.contentHash, document.contentHash);
+        assert.equal(restored.validatedAt, document.fetchedAt);
+        assert.equal(restored.fromSnapshot, true);
+    });
+
+    it("ignora o snapshot de outra URL", async () => {
+        await saveSnapshot(directory, createSnapshot(source, document, [], chunkLimits));
+
+        assert.equal(loadSnapshot(directory, { ...source, url: "https://other.example.com" }), null);
+    });
+
+    it("ignora o snapshot de outra versão do formato", async () => {
+        await saveSnapshot(directory, createSnapshot(source, document, [], chunkLimits));
+        const path = join(directory, "docs.json");
+        writeFileSync(path, JSON.stringify({ ...JSON.parse(readFileSync(path, "utf-8")), version: 0 }));
+
+        assert.equal(loadSnapshot(directory, source), null);
+    });
+
+    it("ignora snapshots ausentes ou corrompidos", () => {
+        assert.equal(loadSnapshot(directory, source), null);
+
+        writeFileSync(join(directory, "docs.json"), "{ incompleto");
+        assert.equal(loadSnapshot(directory, source), null);
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * Snapshots em disco das documentações já processadas
+ * Guardam os chunks e os metadados do último fetch bem sucedido de cada fonte, para que o servidor
+ * inicie sem esperar a rede e continue respondendo quando a documentação estiver fora do ar
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import * as z from "zod";
+
+import type { DocSource } from "../types/index.js";
+import type { ChunkLimits } from "./doc-search/index.js";
+import type { CachedDocument } from "./document-cache.js";
+
+/**
+ * Versão do formato do snapshot
+ * Incrementar quando o formato ou o chunking mudarem de forma incompatível
+ */
+const SNAPSHOT_VERSION = 7;
+
+/**
+ * Schema do arquivo de snapshot
+ */
+const SnapshotSchema = z.object({
+    version: z.literal(SNAPSHOT_VERSION),
+    /** Nome da fonte */
+    source: z.string(),
+    /** URL da documentação */
+    sourceUrl: z.string(),
+    /** Método usado no fetch */
+    method: z.enum(["direct", "openapi_spec", "headless", "html_extract"]),
+    /** URL da spec OpenAPI, quando o conteúdo veio dela */
+    specUrl: z.string().optional(),
+    /** Momento do fetch (ms desde epoch) */
+    fetchedAt: z.number(),
+    /** Hash SHA-256 do conteúdo */
+    contentHash: z.string(),
+    /** Validadores de cache da origem */
+    etag: z.string().optional(),
+    lastModified: z.string().optional(),
+    /** Perfil usado na divisão em chunks */
+    chunkLimits: z.object({
+        maxChunkSize: z.number(),
+        minChunkSize: z.number(),
+        overlap: z.number(),
+        unit: z.enum(["chars", "tokens"]),
+        strategies: z.array(z.enum(["headers", "rules", "paragraphs", "sentences"])),
+    }),
+    /** Seletor do conteúdo principal usado na divisão (HTML) */
+    contentSelector: z.string().optional(),
+    /** Saída de splitIntoChunks */
+    chunks: z.array(z.string()),
+    /** Conteúdo original (permite refazer os chunks se os limites mudarem) */
+    content: z.string(),
+});
+
+/**
+ * Snapshot de uma fonte de documentação
+ */
+export type DocumentSnapshot = z.output<typeof SnapshotSchema>;
+
+/**
+ * Monta o snapshot de um documento já dividido em chunks
+ *
+ * @param source - Fonte da documentação
+ * @param document - Documento baixado
+ * @param chunks - Chunks do documento
+ * @param chunkLimits - Perfil usado na divisão
+ */
+export function createSnapshot(
+    source: DocSource,
+    document: CachedDocument,
+    chunks: string[],
+    chunkLimits: ChunkLimits,
+): DocumentSnapshot {
+    return {
+        version: SNAPSHOT_VERSION,
+        source: source.name,
+        sourceUrl: source.url,
+        method: document.method,
+        specUrl: document.specUrl,
+        fetchedAt: document.fetchedAt,
+        contentHash: document.contentHash,
+        etag: document.etag,
+        lastModified: document.lastModified,
+        chunkLimits,
+        contentSelector: source.contentSelector,
+        chunks,
+        content: document.content,
+    };
+}
+
+/**
+ * Converte um snapshot de volta no documento que o originou
+ */
+export function snapshotToDocument(snapshot: DocumentSnapshot): CachedDocument {
+    return {
+        content: snapshot.content,
+        method: snapshot.method,
+        url: snapshot.sourceUrl,
+        specUrl: snapshot.specUrl,
+        etag: snapshot.etag,
+        lastModified: snapshot.lastModified,
+        fetchedAt: snapshot.fetchedAt,
+        validatedAt: snapshot.fetchedAt,
+        contentHash: snapshot.contentHash,
+        fromSnapshot: true,
+    };
+}
+
+/**
+ * Lê o snapshot de uma fonte
+ * Snapshots ausentes, corrompidos, de outra versão ou de outra URL são ignorados
+ *
+ * @param directory - Diretório dos snapshots
+ * @param source - Fonte da documentação
+ * @returns Snapshot ou null
+ */
+export function loadSnapshot(directory: string, source: DocSource): DocumentSnapshot | null {
+    const path = getSnapshotPath(directory, source.name);
+    if (!existsSync(path)) {
+        return null;
+    }
+
+    try {
+        const result = SnapshotSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+
+        if (!result.success || result.data.sourceUrl !== source.url) {
+            return null;
+        }
+
+        return result.data;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Erro desconhecido";
+        console.error(`Snapshot ignorado (${path}): ${message}`);
+        return null;
+    }
+}
+
+/**
+ * Salva o snapshot de uma fonte
+ * A escrita é feita em um arquivo temporário e renomeada, para nunca deixar um snapshot pela metade
+ *
+ * @param directory - Diretório dos snapshots (criado se não existir)
+ * @param snapshot - Snapshot a salvar
+ */
+export async function saveSnapshot(directory: string, snapshot: DocumentSnapshot): Promise<void> {
+    const path = getSnapshotPath(directory, snapshot.source);
+    const tempPath = `${path}.${process.pid}.tmp`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(snapshot), "utf-8");
+    await rename(tempPath, path);
+}
+
+/**
+ * Caminho do snapshot de uma fonte (nomes de fonte já são seguros para nomes de arquivo)
+ */
+function getSnapshotPath(directory: string, sourceName: string): string {
+    return join(directory, `${sourceName}.json`);
+}
@@ -5,6 +5,9 @@
 
 import axios from "axios";
 
+import type { FetchedDocument } from "../types/index.js";
+import { getCacheValidators } from "./http-client.js";
+
 /**
  * Resultado da detecção de Swagger
  */
@@ -292,14 +295,22 @@ async function tryFetchSpec(
     return null;
 }
 
+/**
+ * Spec OpenAPI baixada, com os validadores de cache da resposta
+ */
+export interface FetchedOpenApiSpec extends Pick<FetchedDocument, "etag" | "lastModified"> {
+    /** Conteúdo da spec */
+    spec: object;
+}
+
 /**
  * Busca e retorna o conteúdo da spec OpenAPI
  *
  * @param specUrl - URL da spec
  * @param timeout - Timeout da requisição
- * @returns Conteúdo da spec como objeto
+ * @returns Conteúdo da spec como objeto, com ETag/Last-Modified da resposta
  */
-export async function fetchOpenApiSpec(specUrl: string, timeout = 10000): Promise<object | null> {
+export async function fetchOpenApiSpec(specUrl: string, timeout = 10000): Promise<FetchedOpenApiSpec | null> {
     try {
         const response = await axios.get(specUrl, {
             timeout,
@@ -309,20 +320,21 @@ export async function fetchOpenApiSpec(specUrl: string, timeout = 10000): Promis
         });
 
         const data = response.data;
+        const validators = getCacheValidators(response.headers);
 
         // Se já é objeto, retorna diretamente
         if (typeof data === "object") {
-            return data;
+            return { spec: data, ...validators };
         }
 
         // Se é string, tenta parsear
         if (typeof data === "string") {
             // Tenta JSON primeiro
             try {
-                return JSON.parse(data);
+                return { spec: JSON.parse(data), ...validators };
             } catch {
                 // Pode ser YAML - retorna como está para ser parseado depois
-                return { _rawYaml: data };
+                return { spec: { _rawYaml: data }, ...validators };
             }
         }
 
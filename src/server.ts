@@ -12,7 +12,7 @@ import { registerAllTools } from "./tools/index.js";
  * Cria e configura o servidor MCP
  */
 export function createServer(): McpServer {
-    // Carrega configuração (valida variáveis de ambiente)
+    // Carrega configuração (arquivo + variáveis de ambiente, validados)
     const config = getConfig();
 
     // Log de inicialização
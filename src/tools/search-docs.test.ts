@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import type { SearchOutput } from "../types/index.js";
+import { registerSearchDocsTool } from "./search-docs.js";
+
+/** Documentação servida por fonte */
+const DOCUMENTS: Record<string, string> = {
+    "/guide.md": [
+        `# Tokens\n\n${"The access token is sent in the Authorization header of every request. ".repeat(4)}`,
+        `## Expiration\n\n${"Each token expires one hour after it is issued by the server. ".repeat(4)}`,
+        `## Scopes\n\n${"A token only grants the scopes requested when it was created. ".repeat(4)}`,
+    ].join("\n\n"),
+    "/api.md": `# Token refresh\n\n${"Refresh the token before it expires to keep the session alive. ".repeat(4)}`,
+};
+
+describe("search_docs", () => {
+    let server: Server;
+    let client: Client;
+
+    before(async () => {
+        server = createServer((request, response) => {
+            const document = DOCUMENTS[request.url ?? ""];
+            response.writeHead(document ? 200 : 404, { "Content-Type": "text/markdown" });
+            response.end(document ?? "");
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        for (const key of Object.keys(process.env)) {
+            if (key.startsWith("MCP_")) delete process.env[key];
+        }
+        Object.assign(process.env, {
+            MCP_DOCS_URL: `${baseUrl}/guide.md`,
+            MCP_SOURCE_API_URL: `${baseUrl}/api.md`,
+            MCP_CACHE_DIR: mkdtempSync(join(tmpdir(), "tdocs7-search-")),
+            // Revalida a cada busca, para que as mudanças nos documentos apareçam
+            MCP_CACHE_TTL: "0",
+            // Servidor de embeddings que responde 404: o modo hybrid volta para a busca por termos
+            MCP_EMBEDDINGS_URL: `${baseUrl}/v1`,
+            MCP_EMBEDDINGS_MODEL: "test-embeddings",
+        });
+
+        const mcpServer = new McpServer({ name: "tdocs7-test", version: "1.0.0" });
+        registerSearchDocsTool(mcpServer);
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        client = new Client({ name: "test", version: "1.0.0" });
+        await Promise.all([mcpServer.connect(serverTransport), client.connect(clientTransport)]);
+    });
+
+    after(async () => {
+        await client.close();
+        server.close();
+    });
+
+    /**
+     * Chama a tool e retorna a saída estruturada
+     */
+    async function search(args: Record<string, unknown>): Promise<SearchOutput> {
+        const result = await client.callTool({ name: "search_docs", arguments: args });
+        return result.structuredContent as unknown as SearchOutput;
+    }
+
+    it("identifica a fonte e a seção de cada trecho quando há várias fontes", async () => {
+        const output = await search({ search: "token", max_results: 2 });
+
+        assert.equal(output.results.length, 2);
+        for (const [i, result] of output.results.entries()) {
+            const hit = output.hits[i];
+            const header = `Fonte: ${hit?.source}\nSeção: ${hit?.breadcrumb.join(" > ")}\n\n`;
+            assert.ok(result.startsWith(header), result);
+        }
+    });
+
+    it("combina as fontes pela pontuação relativa ao melhor trecho de cada uma", async () => {
+        // "Scopes" (guide) pontua o mesmo que "Token refresh" (api), mas fica bem abaixo do melhor trecho do guide
+        const output = await search({ search: "token header", max_results: 2 });
+
+        assert.deepEqual(
+            output.hits.map((hit) => [hit.source, hit.breadcrumb.at(-1)]),
+            [
+                ["default", "Tokens"],
+                ["api", "Token refresh"],
+            ],
+        );
+        assert.ok((output.hits[0]?.score ?? 0) > (output.hits[1]?.score ?? 0));
+    });
+
+    it("informa a troca para a busca por termos quando o provedor de embeddings falha", async () => {
+        const output = await search({ search: "token", source: "api", mode: "hybrid" });
+
+        assert.equal(output.hits[0]?.source, "api");
+        assert.equal(output.mode_fallback?.length, 1);
+        assert.deepEqual(
+            output.mode_fallback?.map(({ source, requested, used }) => [source, requested, used]),
+            [["api", "hybrid", "keyword"]],
+        );
+        assert.match(output.mode_fallback?.[0]?.reason ?? "", /embeddings/);
+    });
+
+    it("conta os cabeçalhos de fonte e seção no limite de texto", async () => {
+        const unlimited = await search({ search: "token", max_results: 2 });
+        const contentChars = unlimited.results.reduce(
+            (sum, result) => sum + result.split("\n\n").slice(1).join("\n\n").length,
+            0,
+        );
+
+        // Os trechos caberiam sem os cabeçalhos "Fonte: ..." / "Seção: ..."
+        const maxChars = contentChars + 5;
+        const output = await search({ search: "token", max_results: 2, max_chars: maxChars });
+
+        const usedChars = output.results.reduce((sum, result) => sum + result.length, 0);
+        assert.ok(usedChars <= maxChars, `${usedChars} > ${maxChars}`);
+        assert.equal(output.budget?.used_chars, usedChars);
+        assert.ok((output.budget?.truncated_chars ?? 0) > 0 || (output.budget?.omitted_results ?? 0) > 0);
+    });
+
+    it("percorre as páginas com o cursor sem repetir trechos", async () => {
+        const args = { search: "token", source: "default", detail: "section", max_results: 1 };
+        const seen: number[] = [];
+
+        let output = await search(args);
+        for (let page = 0; page < 10; page++) {
+            seen.push(...output.hits.map((hit) => hit.chunk_index));
+            if (!output.next_cursor) break;
+            output = await search({ ...args, cursor: output.next_cursor });
+        }
+
+        assert.equal(output.next_cursor, undefined);
+        assert.ok(seen.length > 1);
+        assert.equal(seen.length, output.matched_chunks);
+        assert.equal(new Set(seen).size, seen.length);
+    });
+
+    it("recusa cursores inválidos ou de outra busca", async () => {
+        const first = await search({ search: "token", source: "default", detail: "section", max_results: 1 });
+        assert.ok(first.next_cursor);
+
+        const malformed = await client.callTool({ name: "search_docs", arguments: { search: "token", cursor: "x" } });
+        const otherSearch = await search({
+            search: "scopes",
+            source: "default",
+            detail: "section",
+            max_results: 1,
+            cursor: first.next_cursor,
+        });
+
+        assert.equal(malformed.isError, true);
+        assert.equal((malformed.structuredContent as unknown as SearchOutput).error, "Cursor inválido");
+        assert.equal(otherSearch.error, "Cursor de outra busca");
+    });
+
+    it("recusa o cursor quando o documento mudou desde a página anterior", async () => {
+        const args = { search: "token", source: "default", detail: "section", max_results: 1 };
+        const original = DOCUMENTS["/guide.md"] ?? "";
+        const first = await search(args);
+        assert.ok(first.next_cursor);
+
+        DOCUMENTS["/guide.md"] = `${original}\n\n## Revoke\n\n${"Revoke the token when the session ends. ".repeat(4)}`;
+        try {
+            const output = await search({ ...args, cursor: first.next_cursor });
+
+            assert.equal(output.error, "Documentação alterada");
+        } finally {
+            DOCUMENTS["/guide.md"] = original;
+        }
+    });
+});
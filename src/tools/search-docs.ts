@@ -1,15 +1,167 @@
 /**
  * Tool: search_docs
- * Busca informações na documentação configurada
+ * Busca informações nas fontes de documentação configuradas
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as z from "zod";
 
-import { getConfig } from "../config/index.js";
-import { searchInDocs } from "../lib/doc-search/index.js";
-import { fetchDocument, formatHttpError } from "../lib/http-client.js";
-import type { SearchOutput } from "../types/index.js";
+import { findSource, getConfig } from "../config/index.js";
+import {
+    type ChunkLimits,
+    createAnchorResolver,
+    detectDocumentFormat,
+    type EmbeddingProvider,
+    MAX_BUDGET_RESULTS,
+    packResults,
+    parseQuery,
+    QueryParseError,
+    resolveChunkLimits,
+    searchInChunks,
+    splitIntoChunks,
+    withAnchor,
+} from "../lib/doc-search/index.js";
+import { CHARS_PER_TOKEN } from "../lib/doc-search/patterns.js";
+import {
+    type CachedDocument,
+    type CacheStatus,
+    fetchDocumentCached,
+    hashContent,
+    seedDocumentCache,
+} from "../lib/document-cache.js";
+import { createEmbeddingProvider } from "../lib/embeddings.js";
+import { formatHttpError } from "../lib/http-client.js";
+import {
+    createQueryKey,
+    decodeSearchCursor,
+    encodeSearchCursor,
+    type SearchCursor,
+    SearchCursorError,
+} from "../lib/search-cursor.js";
+import { createSnapshot, loadSnapshot, saveSnapshot, snapshotToDocument } from "../lib/snapshot-store.js";
+import type {
+    DocSource,
+    DocumentFormat,
+    MCPConfig,
+    ModeFallback,
+    NearMiss,
+    NearMissReason,
+    ResultDetail,
+    ScoreExplanation,
+    SearchHit,
+    SearchMode,
+    SearchOutput,
+    TermCorrection,
+} from "../types/index.js";
+
+/**
+ * Resultado da busca em uma única fonte
+ */
+interface SourceSearchResult {
+    /** Fonte consultada */
+    source: DocSource;
+    /** Trechos encontrados, com pontuação e localização */
+    hits: SearchHit[];
+    /** Total de chunks no documento */
+    totalChunks: number;
+    /** Número de chunks com match */
+    matchedChunks: number;
+    /** Chunks com match que ficaram para as próximas páginas */
+    remainingChunks: number;
+    /** Palavras da busca corrigidas */
+    corrections: TermCorrection[];
+    /** Chunks que ficaram logo abaixo dos resultados (apenas com explain) */
+    nearMisses?: NearMiss[];
+    /** Troca do modo de busca pedido (ex: hybrid sem o provedor de embeddings) */
+    modeFallback?: ModeFallback;
+    /** Documento pesquisado */
+    document: CachedDocument;
+    /** Como o documento foi obtido (cache, origem ou cópia antiga) */
+    cacheStatus: CacheStatus;
+    /** Formato detectado do documento */
+    format: DocumentFormat;
+    /** Âncora da seção de um trecho, pelo breadcrumb */
+    resolveAnchor: (breadcrumb: string[]) => string | undefined;
+    /** Versão do documento e dos limites de chunking (os índices dos chunks só valem nela) */
+    version: string;
+}
+
+/**
+ * Parâmetros da busca em uma fonte
+ */
+interface SourceSearchOptions {
+    /** Número máximo de trechos */
+    maxResults: number;
+    /** Modo de busca */
+    mode: SearchMode;
+    /** Quanto texto cada trecho traz */
+    detail?: ResultDetail;
+    /** Detalha as pontuações */
+    explain?: boolean;
+    /** Chunks retornados em páginas anteriores */
+    seen?: number[];
+}
+
+/**
+ * Chunks já calculados de uma fonte
+ */
+interface PreparedChunks {
+    /** Hash do conteúdo que originou os chunks */
+    contentHash: string;
+    /** Perfil de chunking usado na divisão */
+    limits: ChunkLimits;
+    /** Seletor do conteúdo principal usado na divisão (HTML) */
+    contentSelector?: string;
+    /** Chunks do documento */
+    chunks: string[];
+    /** Formato detectado do documento */
+    format: DocumentFormat;
+    /** Âncora da seção de um trecho, pelo breadcrumb */
+    resolveAnchor: (breadcrumb: string[]) => string | undefined;
+}
+
+/** Chunks calculados, por fonte (evita refazer o chunking enquanto o documento não muda) */
+const preparedChunks = new Map<string, PreparedChunks>();
+
+/** Quantas seções abaixo dos resultados são listadas com explain (somando todas as fontes) */
+const NEAR_MISS_LIMIT = 3;
+
+/** Nomes dos tipos de match no texto do explain */
+const EXPLANATION_LABELS = { phrase: "frase", exact: "palavras", partial: "parcial", fuzzy: "corrigidas" } as const;
+
+/** Nomes dos multiplicadores no texto do explain */
+const MULTIPLIER_LABELS = { phrase: "frase exata", code: "código", header: "header" } as const;
+
+/** Motivos de uma seção ter ficado fora dos resultados */
+const NEAR_MISS_REASONS: Record<NearMissReason, string> = {
+    neighbor: "vizinha de um resultado",
+    diversity: "parecida com um resultado",
+    cutoff: "pontuação menor",
+};
+
+/** Composição da pontuação de um trecho (explain) */
+const scoreExplanationSchema = z
+    .object({
+        terms: z
+            .array(
+                z.object({
+                    term: z.string(),
+                    phrase: z.number().describe("Pontos do termo inteiro presente no trecho"),
+                    exact: z.number().describe("Pontos das ocorrências exatas das palavras"),
+                    partial: z.number().describe("Pontos das palavras que começam com o termo"),
+                    fuzzy: z.number().describe("Pontos dos termos corrigidos"),
+                }),
+            )
+            .describe("Pontos de cada termo, somados antes dos multiplicadores"),
+        multipliers: z
+            .object({ phrase: z.number(), code: z.number(), header: z.number() })
+            .describe("Multiplicadores aplicados à soma (1 quando não se aplicam)"),
+        score: z.number(),
+    })
+    .describe("Composição da pontuação (explain, modo keyword)");
+
+/** Provedor de embeddings configurado (criado na primeira busca semântica) */
+let embeddingProvider: EmbeddingProvider | null = null;
 
 /**
  * Registra a tool search_docs no servidor MCP
@@ -18,78 +170,710 @@ import type { SearchOutput } from "../types/index.js";
  */
 export function registerSearchDocsTool(server: McpServer): void {
     const config = getConfig();
+    const sourceNames = config.sources.map((source) => source.name);
+
+    restoreSnapshots(config);
 
     server.registerTool(
         "search_docs",
         {
             title: "Buscar na documentação",
-            description: `Busca informações na documentação configurada.
+            description: `Busca informações nas documentações configuradas.
 Use para encontrar trechos relevantes sobre um tema específico.
-A documentação é carregada da URL configurada no servidor.`,
+Fontes disponíveis: ${sourceNames.join(", ")}.
+Sem o argumento "source", busca em todas as fontes e combina os resultados.
+Sintaxe: "frase exata", -termo (exclui), a OR b, e filtros method:POST, path:/users, tag:billing, heading:auth, lang:ts.
+Para ver mais resultados, repita a busca com o next_cursor retornado.`,
             inputSchema: {
-                search: z.string().min(1).describe("Termo ou frase para buscar na documentação"),
+                search: z
+                    .string()
+                    .min(1)
+                    .describe('Termo ou frase para buscar na documentação (aceita "frases", -exclusões, OR e filtros)'),
                 max_results: z
                     .number()
                     .min(1)
                     .max(10)
                     .optional()
-                    .describe(`Número de trechos a retornar (1-10, padrão: ${config.defaultMaxResults})`),
+                    .describe(
+                        `Número de trechos a retornar (1-10, padrão: ${config.defaultMaxResults}; com max_tokens ou max_chars, padrão: ${MAX_BUDGET_RESULTS})`,
+                    ),
+                max_tokens: z
+                    .number()
+                    .int()
+                    .min(50)
+                    .optional()
+                    .describe(
+                        `Limite aproximado de tokens somando todos os trechos (~${CHARS_PER_TOKEN} caracteres por token)`,
+                    ),
+                max_chars: z
+                    .number()
+                    .int()
+                    .min(200)
+                    .optional()
+                    .describe("Limite de caracteres somando todos os trechos"),
+                source: z
+                    .string()
+                    .optional()
+                    .describe(`Nome da fonte a consultar (${sourceNames.join(", ")}). Padrão: todas`),
+                mode: z
+                    .enum(["keyword", "semantic", "hybrid"])
+                    .optional()
+                    .describe(
+                        `Modo de busca: keyword (termos), semantic (significado) ou hybrid (ambos). Padrão: ${config.scoring.mode ?? "keyword"}`,
+                    ),
+                cursor: z
+                    .string()
+                    .optional()
+                    .describe("next_cursor de uma chamada anterior: retorna a próxima página da mesma busca"),
+                explain: z
+                    .boolean()
+                    .optional()
+                    .describe(
+                        "Detalha a pontuação de cada trecho e lista as seções que ficaram logo abaixo (para ajustar o ranking)",
+                    ),
+                detail: z
+                    .enum(["snippet", "section", "expanded"])
+                    .optional()
+                    .describe(
+                        "Texto de cada resultado: snippet (só as partes com os termos, destacados), section (a seção) ou expanded (a seção e as vizinhas). Padrão: expanded",
+                    ),
             },
             outputSchema: {
                 results: z.array(z.string()).describe("Trechos relevantes encontrados"),
+                hits: z
+                    .array(
+                        z.object({
+                            source: z.string().describe("Fonte do trecho"),
+                            chunk_index: z.number().describe("Índice da seção no documento"),
+                            score: z.number().describe("Pontuação de relevância"),
+                            breadcrumb: z.array(z.string()).describe("Headers em vigor no trecho"),
+                            url: z.string().describe("URL da fonte, com âncora da seção quando houver"),
+                            format: z.enum(["markdown", "html", "json", "text"]).describe("Formato do documento"),
+                            matched_terms: z.array(z.string()).describe("Termos da busca presentes no trecho"),
+                            snippets: z
+                                .array(z.object({ start: z.number(), end: z.number() }))
+                                .optional()
+                                .describe("Posição de cada janela do snippet na seção (detail: snippet)"),
+                            truncated_chars: z
+                                .number()
+                                .optional()
+                                .describe("Caracteres cortados do fim do trecho pelo limite de texto"),
+                            explanation: scoreExplanationSchema.optional(),
+                        }),
+                    )
+                    .describe("Metadados de cada trecho, na mesma ordem de results"),
                 total_chunks: z.number().describe("Total de seções na documentação"),
                 matched_chunks: z.number().describe("Seções com matches"),
                 query: z.string().describe("Termo buscado"),
                 docs_url: z.string().describe("URL da documentação consultada"),
+                sources: z.array(z.string()).describe("Fontes consultadas"),
+                budget: z
+                    .object({
+                        max_chars: z.number(),
+                        used_chars: z.number(),
+                        truncated_chars: z.number().describe("Caracteres cortados do último trecho"),
+                        omitted_results: z.number().describe("Trechos que não couberam no limite"),
+                    })
+                    .optional()
+                    .describe("Uso do limite de texto (max_tokens / max_chars)"),
+                next_cursor: z
+                    .string()
+                    .optional()
+                    .describe("Cursor da próxima página (ausente quando não há mais resultados)"),
+                near_misses: z
+                    .array(
+                        z.object({
+                            source: z.string(),
+                            chunk_index: z.number(),
+                            score: z.number(),
+                            rank: z.number().describe("Posição no ranking por pontuação (1 = mais relevante)"),
+                            breadcrumb: z.array(z.string()),
+                            reason: z
+                                .enum(["neighbor", "diversity", "cutoff"])
+                                .describe(
+                                    "neighbor: vizinha de um trecho expandido; diversity: parecida com um trecho; cutoff: pontuação menor",
+                                ),
+                            explanation: scoreExplanationSchema.optional(),
+                        }),
+                    )
+                    .optional()
+                    .describe("Seções que ficaram logo abaixo dos resultados (explain)"),
+                corrected_terms: z
+                    .array(z.object({ term: z.string(), replacements: z.array(z.string()) }))
+                    .optional()
+                    .describe("Palavras da busca sem correspondência, substituídas pelos termos mais próximos"),
+                stale_sources: z
+                    .array(
+                        z.object({
+                            source: z.string(),
+                            fetched_at: z.string().describe("Data do conteúdo servido (ISO 8601)"),
+                            snapshot: z.boolean().describe("Se o conteúdo veio de um snapshot em disco"),
+                        }),
+                    )
+                    .optional()
+                    .describe("Fontes indisponíveis respondidas com uma cópia antiga"),
+                mode_fallback: z
+                    .array(
+                        z.object({
+                            source: z.string(),
+                            requested: z.enum(["keyword", "semantic", "hybrid"]).describe("Modo pedido"),
+                            used: z.enum(["keyword", "semantic", "hybrid"]).describe("Modo usado no lugar"),
+                            reason: z.string().describe("Motivo da troca (ex: erro do provedor de embeddings)"),
+                        }),
+                    )
+                    .optional()
+                    .describe("Fontes pesquisadas em outro modo de busca"),
             },
         },
-        async ({ search, max_results }) => {
-            const maxResults = max_results ?? config.defaultMaxResults;
-            const docsUrl = config.docsUrl;
+        async ({ search, max_results, max_tokens, max_chars, source, mode, detail, explain, cursor }) => {
+            const maxChars = resolveMaxChars(max_tokens, max_chars);
+            const maxResults = max_results ?? (maxChars ? MAX_BUDGET_RESULTS : config.defaultMaxResults);
+            const searchMode = mode ?? config.scoring.mode ?? "keyword";
 
+            // Valida a sintaxe antes de consultar as fontes
             try {
-                // Busca a documentação
-                const document = await fetchDocument(docsUrl);
+                parseQuery(search);
+            } catch (error) {
+                if (!(error instanceof QueryParseError)) throw error;
+                return invalidRequest(search, error.message, `Busca inválida: ${error.message}`);
+            }
 
-                // Executa a busca
-                const { results, totalChunks, matchedChunks } = searchInDocs(document, search, { maxResults });
+            // Retoma a paginação de uma chamada anterior (o cursor só vale para a mesma busca)
+            const queryKey = createQueryKey([search, source ?? null, searchMode, detail ?? "expanded"]);
+            let previousPage: SearchCursor | undefined;
 
-                // Prepara output
+            if (cursor) {
+                try {
+                    previousPage = decodeSearchCursor(cursor);
+                } catch (error) {
+                    if (!(error instanceof SearchCursorError)) throw error;
+                    return invalidRequest(
+                        search,
+                        error.message,
+                        `${error.message}: use o next_cursor retornado pela busca anterior.`,
+                    );
+                }
+
+                if (previousPage.queryKey !== queryKey) {
+                    return invalidRequest(
+                        search,
+                        "Cursor de outra busca",
+                        "O cursor pertence a outra busca: repita search, source, mode e detail da chamada que o gerou.",
+                    );
+                }
+            }
+
+            // Resolve as fontes a consultar
+            const selectedSource = source ? findSource(config, source) : undefined;
+            if (source && !selectedSource) {
                 const output: SearchOutput = {
-                    results: results.length > 0 ? results : ["Nenhum resultado encontrado para a busca."],
-                    total_chunks: totalChunks,
-                    matched_chunks: matchedChunks,
+                    results: [],
+                    hits: [],
+                    total_chunks: 0,
+                    matched_chunks: 0,
                     query: search,
-                    docs_url: docsUrl,
+                    docs_url: "",
+                    sources: [],
+                    error: `Fonte desconhecida: ${source}`,
                 };
 
-                // Formata texto de resposta
-                const responseText =
-                    results.length > 0
-                        ? `Encontrados ${matchedChunks} trechos relevantes para "${search}":\n\n${results.join("\n\n===\n\n")}`
-                        : `Nenhum resultado encontrado para "${search}" na documentação.`;
-
                 return {
-                    content: [{ type: "text" as const, text: responseText }],
+                    content: [
+                        {
+                            type: "text" as const,
+                            text: `Fonte "${source}" não configurada. Fontes disponíveis: ${sourceNames.join(", ")}.`,
+                        },
+                    ],
                     structuredContent: output,
                 };
-            } catch (error) {
-                const { message, userMessage } = formatHttpError(error, docsUrl);
+            }
 
+            const sources = selectedSource ? [selectedSource] : config.sources;
+            const docsUrl = sources.map((s) => s.url).join(", ");
+            const showSourceName = sources.length > 1;
+
+            // Busca em todas as fontes em paralelo
+            const settled = await Promise.allSettled(
+                sources.map((s) =>
+                    searchInSource(config, s, search, {
+                        maxResults,
+                        mode: searchMode,
+                        detail,
+                        explain,
+                        seen: previousPage?.sources[s.name]?.seen,
+                    }),
+                ),
+            );
+
+            const succeeded: SourceSearchResult[] = [];
+            const failures: string[] = [];
+            let lastError: string | undefined;
+
+            settled.forEach((result, i) => {
+                const failedSource = sources[i] as DocSource;
+
+                if (result.status === "fulfilled") {
+                    succeeded.push(result.value);
+                    return;
+                }
+
+                const { message, userMessage } = formatHttpError(result.reason, failedSource.url, failedSource);
+                lastError = message;
+                failures.push(showSourceName ? `[${failedSource.name}] ${userMessage}` : userMessage);
+            });
+
+            // Os chunks já vistos só valem para a versão do documento em que foram retornados
+            const changed = succeeded.filter((r) => {
+                const page = previousPage?.sources[r.source.name];
+                return page !== undefined && page.version !== r.version;
+            });
+            if (changed.length > 0) {
+                const names = changed.map((r) => r.source.name).join(", ");
+                return invalidRequest(
+                    search,
+                    "Documentação alterada",
+                    `A documentação (${names}) mudou desde a página anterior. Refaça a busca sem cursor.`,
+                );
+            }
+
+            // Todas as fontes falharam
+            if (succeeded.length === 0) {
                 const output: SearchOutput = {
                     results: [],
+                    hits: [],
                     total_chunks: 0,
                     matched_chunks: 0,
                     query: search,
                     docs_url: docsUrl,
-                    error: message,
+                    sources: sources.map((s) => s.name),
+                    error: lastError,
                 };
 
                 return {
-                    content: [{ type: "text" as const, text: userMessage }],
+                    content: [{ type: "text" as const, text: failures.join("\n") }],
                     structuredContent: output,
                 };
             }
+
+            // Combina os resultados de todas as fontes e aplica o limite de texto. As pontuações de documentos
+            // diferentes não são comparáveis: cada trecho entra pela pontuação relativa ao melhor da sua fonte.
+            // Cada trecho começa pela fonte (com várias) e pelo caminho de headers da seção, incluídos antes
+            // do limite para que também contem nele
+            const candidates = succeeded
+                .flatMap((origin) => {
+                    const top = Math.max(0, ...origin.hits.map((hit) => hit.score));
+                    return origin.hits.map((hit) => ({ ...hit, origin, relevance: top > 0 ? hit.score / top : 0 }));
+                })
+                .sort((a, b) => b.relevance - a.relevance);
+            const ranked = candidates.slice(0, maxResults).map((hit) => {
+                const header = [
+                    showSourceName ? `Fonte: ${hit.origin.source.name}` : "",
+                    hit.breadcrumb.length > 0 ? `Seção: ${hit.breadcrumb.join(" > ")}` : "",
+                ].filter(Boolean);
+                return header.length > 0 ? { ...hit, content: `${header.join("\n")}\n\n${hit.content}` } : hit;
+            });
+            const packed = maxChars ? packResults(ranked, maxChars) : null;
+            const merged = packed?.hits ?? ranked;
+
+            const results = merged.map((hit) => hit.content);
+            const explanations = explain
+                ? merged.map((hit) =>
+                      hit.explanation ? formatExplanation(hit.explanation) : `Pontuação ${formatPoints(hit.score)}`,
+                  )
+                : [];
+            const totalChunks = succeeded.reduce((sum, r) => sum + r.totalChunks, 0);
+            const matchedChunks = succeeded.reduce((sum, r) => sum + r.matchedChunks, 0);
+
+            // Prepara output
+            const output: SearchOutput = {
+                results: results.length > 0 ? results : ["Nenhum resultado encontrado para a busca."],
+                hits: merged.map(({ origin, ...hit }) => ({
+                    source: origin.source.name,
+                    chunk_index: hit.index,
+                    score: hit.score,
+                    breadcrumb: hit.breadcrumb,
+                    url: withAnchor(origin.source.url, origin.resolveAnchor(hit.breadcrumb)),
+                    format: origin.format,
+                    matched_terms: hit.matchedTerms,
+                    snippets: hit.snippets,
+                    truncated_chars: hit.truncatedChars,
+                    explanation: hit.explanation,
+                })),
+                total_chunks: totalChunks,
+                matched_chunks: matchedChunks,
+                query: search,
+                docs_url: docsUrl,
+                sources: succeeded.map((r) => r.source.name),
+            };
+
+            // Formata texto de resposta
+            const sections = results.map((result, i) => (explain ? `${result}\n\n[${explanations[i]}]` : result));
+            let responseText =
+                results.length > 0
+                    ? `Encontrados ${matchedChunks} trechos relevantes para "${search}":\n\n${sections.join("\n\n===\n\n")}`
+                    : `Nenhum resultado encontrado para "${search}" na documentação.`;
+
+            // Informa as palavras corrigidas, para que o assistente possa avisar o usuário
+            const corrections = mergeCorrections(succeeded.flatMap((r) => r.corrections));
+            if (corrections.length > 0) {
+                output.corrected_terms = corrections;
+
+                const notices = corrections.map(
+                    ({ term, replacements }) => `"${term}" → ${replacements.map((r) => `"${r}"`).join(", ")}`,
+                );
+                responseText = `Termos sem correspondência exata foram corrigidos: ${notices.join("; ")}\n\n${responseText}`;
+            }
+
+            // Informa o que ficou de fora pelo limite de texto
+            if (packed) {
+                const { budget } = packed;
+                output.budget = {
+                    max_chars: budget.maxChars,
+                    used_chars: budget.usedChars,
+                    truncated_chars: budget.truncatedChars,
+                    omitted_results: budget.omittedResults,
+                };
+
+                if (budget.truncatedChars > 0 || budget.omittedResults > 0) {
+                    responseText += `\n\nLimite de ${budget.maxChars} caracteres: ${budget.truncatedChars} caracteres cortados do último trecho, ${budget.omittedResults} trechos omitidos.`;
+                }
+            }
+
+            // Lista as seções que ficaram logo abaixo dos resultados
+            if (explain) {
+                const nearMisses = succeeded
+                    .flatMap((origin) => (origin.nearMisses ?? []).map((miss) => ({ ...miss, origin })))
+                    .sort((a, b) => b.score - a.score)
+                    .slice(0, NEAR_MISS_LIMIT);
+
+                output.near_misses = nearMisses.map(({ origin, ...miss }) => ({
+                    source: origin.source.name,
+                    chunk_index: miss.index,
+                    score: miss.score,
+                    rank: miss.rank,
+                    breadcrumb: miss.breadcrumb,
+                    reason: miss.reason,
+                    explanation: miss.explanation,
+                }));
+
+                if (nearMisses.length > 0) {
+                    const notices = nearMisses.map(
+                        ({ origin, ...miss }) =>
+                            `#${miss.rank} ${showSourceName ? `[${origin.source.name}] ` : ""}${miss.breadcrumb.join(" > ") || `seção ${miss.index}`} (${NEAR_MISS_REASONS[miss.reason]}): ${miss.explanation ? formatExplanation(miss.explanation) : `pontuação ${formatPoints(miss.score)}`}`,
+                    );
+                    responseText += `\n\nQuase entraram:\n${notices.join("\n")}`;
+                }
+            }
+
+            // Avisa sobre fontes servidas de uma cópia antiga
+            const stale = succeeded.filter((r) => r.cacheStatus === "stale");
+            if (stale.length > 0) {
+                output.stale_sources = stale.map(({ source: s, document }) => ({
+                    source: s.name,
+                    fetched_at: new Date(document.fetchedAt).toISOString(),
+                    snapshot: document.fromSnapshot === true,
+                }));
+
+                const notices = stale.map(
+                    ({ source: s, document }) =>
+                        `[${s.name}] origem indisponível; usando ${document.fromSnapshot ? "snapshot salvo" : "cópia baixada"} ${formatAge(document.fetchedAt)}`,
+                );
+                responseText += `\n\nConteúdo em cache:\n${notices.join("\n")}`;
+            }
+
+            // Avisa sobre fontes pesquisadas em outro modo (ex: hybrid sem o provedor de embeddings)
+            const fallbacks = succeeded.flatMap(({ source: s, modeFallback }) =>
+                modeFallback ? [{ source: s.name, ...modeFallback }] : [],
+            );
+            if (fallbacks.length > 0) {
+                output.mode_fallback = fallbacks;
+
+                const notices = fallbacks.map(
+                    ({ source: name, requested, used, reason }) =>
+                        `[${name}] modo ${requested} indisponível; usando ${used}: ${reason}`,
+                );
+                responseText += `\n\nModo de busca alterado:\n${notices.join("\n")}`;
+            }
+
+            // Próxima página: chunks desta e das anteriores, por fonte
+            if (candidates.length > merged.length || succeeded.some((r) => r.remainingChunks > 0)) {
+                const pages = { ...previousPage?.sources };
+                for (const r of succeeded) {
+                    const returned = merged.filter((hit) => hit.origin === r).map((hit) => hit.index);
+                    pages[r.source.name] = {
+                        version: r.version,
+                        seen: [...(pages[r.source.name]?.seen ?? []), ...returned],
+                    };
+                }
+
+                output.next_cursor = encodeSearchCursor({ queryKey, sources: pages });
+                responseText += `\n\nHá mais resultados: repita a busca com cursor: "${output.next_cursor}"`;
+            }
+
+            // Avisa sobre fontes que falharam
+            if (failures.length > 0) {
+                responseText += `\n\nFontes indisponíveis:\n${failures.join("\n")}`;
+            }
+
+            return {
+                content: [{ type: "text" as const, text: responseText }],
+                structuredContent: output,
+            };
         },
     );
 }
+
+/**
+ * Busca e pesquisa a documentação de uma fonte
+ */
+async function searchInSource(
+    config: MCPConfig,
+    source: DocSource,
+    search: string,
+    options: SourceSearchOptions,
+): Promise<SourceSearchResult> {
+    const { maxResults, mode, detail, explain = false, seen } = options;
+    const { document, status } = await fetchDocumentCached(source.url, {
+        ...config.fetch,
+        source,
+        httpTimeout: source.requestTimeout,
+        headlessTimeout: config.headless.timeout,
+        headlessWaitTime: config.headless.extraWaitTime,
+        cache: config.cache,
+    });
+
+    const { chunks, format, resolveAnchor, contentHash, limits } = await getChunks(config, source, document);
+
+    const { mode: _defaultMode, algorithm, bm25, diversity, ...scoreWeights } = config.scoring;
+
+    const result = await searchInChunks(chunks, search, {
+        maxResults,
+        maxContextSize: source.chunking.maxContextSize,
+        detail,
+        scoreWeights,
+        algorithm,
+        bm25,
+        diversity,
+        explain,
+        excludeIndices: seen,
+        mode,
+        embeddingProvider: mode === "keyword" ? undefined : getEmbeddingProvider(config),
+        language: source.language,
+    });
+
+    if (result.modeFallback) {
+        const { requested, used, reason } = result.modeFallback;
+        console.error(`Busca ${requested} indisponível na fonte "${source.name}", usando ${used}: ${reason}`);
+    }
+
+    return {
+        source,
+        hits: result.hits,
+        totalChunks: result.totalChunks,
+        matchedChunks: result.matchedChunks,
+        remainingChunks: result.remainingChunks,
+        corrections: result.corrections,
+        nearMisses: result.nearMisses,
+        modeFallback: result.modeFallback,
+        document,
+        cacheStatus: status,
+        format,
+        resolveAnchor,
+        version: hashContent(`${contentHash}:${JSON.stringify(limits)}:${source.contentSelector ?? ""}`).slice(0, 16),
+    };
+}
+
+/**
+ * Retorna os chunks do documento de uma fonte
+ * Reaproveita os chunks enquanto o conteúdo, os limites e o seletor não mudam; chunks novos são salvos em snapshot
+ */
+async function getChunks(config: MCPConfig, source: DocSource, document: CachedDocument): Promise<PreparedChunks> {
+    const limits = resolveChunkLimits(source.chunking);
+    const prepared = preparedChunks.get(source.name);
+
+    if (
+        prepared &&
+        prepared.contentHash === document.contentHash &&
+        sameLimits(prepared.limits, limits) &&
+        prepared.contentSelector === source.contentSelector
+    ) {
+        return prepared;
+    }
+
+    const { contentSelector } = source;
+    const chunks = splitIntoChunks(document.content, { ...limits, baseUrl: source.url, contentSelector });
+    const result = {
+        contentHash: document.contentHash,
+        limits,
+        contentSelector,
+        chunks,
+        ...describeDocument(document),
+    };
+    preparedChunks.set(source.name, result);
+
+    if (config.cache.enabled && config.cache.persist) {
+        try {
+            await saveSnapshot(config.cache.directory, createSnapshot(source, document, chunks, limits));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Erro desconhecido";
+            console.error(`Falha ao salvar snapshot da fonte "${source.name}": ${message}`);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Formato do documento e âncoras das seções
+ * Conteúdo gerado a partir de uma spec OpenAPI não tem âncoras na página de origem
+ */
+function describeDocument(document: CachedDocument): Pick<PreparedChunks, "format" | "resolveAnchor"> {
+    const { format } = detectDocumentFormat(document.content);
+    const resolveAnchor =
+        document.method === "openapi_spec" ? () => undefined : createAnchorResolver(document.content, format);
+
+    return { format, resolveAnchor };
+}
+
+/**
+ * Carrega os snapshots em disco de todas as fontes
+ * O documento restaurado entra no cache (e é revalidado na primeira busca); os chunks são reaproveitados
+ */
+function restoreSnapshots(config: MCPConfig): void {
+    if (!config.cache.enabled || !config.cache.persist) {
+        return;
+    }
+
+    for (const source of config.sources) {
+        const snapshot = loadSnapshot(config.cache.directory, source);
+        if (!snapshot) continue;
+
+        const document = snapshotToDocument(snapshot);
+        seedDocumentCache(source.url, source, document);
+
+        if (
+            sameLimits(snapshot.chunkLimits, resolveChunkLimits(source.chunking)) &&
+            snapshot.contentSelector === source.contentSelector
+        ) {
+            preparedChunks.set(source.name, {
+                contentHash: snapshot.contentHash,
+                limits: snapshot.chunkLimits,
+                contentSelector: snapshot.contentSelector,
+                chunks: snapshot.chunks,
+                ...describeDocument(document),
+            });
+        }
+
+        console.error(
+            `Snapshot carregado: ${source.name} (${snapshot.chunks.length} chunks, salvo ${formatAge(snapshot.fetchedAt)})`,
+        );
+    }
+}
+
+/**
+ * Une as correções de várias fontes (uma entrada por palavra, sem termos repetidos)
+ */
+function mergeCorrections(corrections: TermCorrection[]): TermCorrection[] {
+    const merged = new Map<string, Set<string>>();
+
+    for (const { term, replacements } of corrections) {
+        const current = merged.get(term) ?? new Set<string>();
+        for (const replacement of replacements) current.add(replacement);
+        merged.set(term, current);
+    }
+
+    return [...merged].map(([term, replacements]) => ({ term, replacements: [...replacements] }));
+}
+
+/**
+ * Limite de caracteres pedido (max_tokens é convertido; com os dois, vale o menor)
+ */
+function resolveMaxChars(maxTokens: number | undefined, maxChars: number | undefined): number | undefined {
+    const limits = [maxTokens && maxTokens * CHARS_PER_TOKEN, maxChars].filter((limit): limit is number => !!limit);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+/**
+ * Resposta para uma chamada inválida (busca ou cursor), sem consultar as fontes
+ */
+function invalidRequest(search: string, error: string, text: string) {
+    const output: SearchOutput = {
+        results: [],
+        hits: [],
+        total_chunks: 0,
+        matched_chunks: 0,
+        query: search,
+        docs_url: "",
+        sources: [],
+        error,
+    };
+
+    return {
+        content: [{ type: "text" as const, text }],
+        structuredContent: output,
+        isError: true,
+    };
+}
+
+/**
+ * Resume a composição da pontuação em uma linha
+ * Ex: Pontuação 26 = ("criar usuario": frase 20; "usuario": palavras 4, parcial 1) × header 1.3
+ */
+function formatExplanation(explanation: ScoreExplanation): string {
+    const terms = explanation.terms
+        .map(({ term, ...points }) => {
+            const parts = (Object.keys(EXPLANATION_LABELS) as (keyof typeof EXPLANATION_LABELS)[])
+                .filter((kind) => points[kind] > 0)
+                .map((kind) => `${EXPLANATION_LABELS[kind]} ${formatPoints(points[kind])}`);
+            return parts.length > 0 ? `"${term}": ${parts.join(", ")}` : null;
+        })
+        .filter((term): term is string => term !== null);
+
+    const multipliers = Object.entries(explanation.multipliers)
+        .filter(([, value]) => value !== 1)
+        .map(([kind, value]) => ` × ${MULTIPLIER_LABELS[kind as keyof typeof MULTIPLIER_LABELS]} ${value}`);
+
+    return `Pontuação ${formatPoints(explanation.score)} = (${terms.join("; ")})${multipliers.join("")}`;
+}
+
+/**
+ * Pontos com no máximo duas casas decimais
+ */
+function formatPoints(points: number): string {
+    return String(Math.round(points * 100) / 100);
+}
+
+/**
+ * Retorna o provedor de embeddings configurado (singleton)
+ */
+function getEmbeddingProvider(config: MCPConfig): EmbeddingProvider {
+    if (!embeddingProvider) {
+        embeddingProvider = createEmbeddingProvider(config.embeddings);
+    }
+    return embeddingProvider;
+}
+
+/**
+ * Compara dois perfis de chunking
+ */
+function sameLimits(a: ChunkLimits, b: ChunkLimits): boolean {
+    return (
+        a.maxChunkSize === b.maxChunkSize &&
+        a.minChunkSize === b.minChunkSize &&
+        a.overlap === b.overlap &&
+        a.unit === b.unit &&
+        a.strategies.join() === b.strategies.join()
+    );
+}
+
+/**
+ * Descreve há quanto tempo um conteúdo foi baixado (ex: "5 min atrás")
+ */
+function formatAge(timestamp: number): string {
+    const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+
+    if (minutes < 1) return "menos de 1 min atrás";
+    if (minutes < 60) return `${minutes} min atrás`;
+    if (minutes < 48 * 60) return `${Math.floor(minutes / 60)} h atrás`;
+    return `${Math.floor(minutes / (24 * 60))} dias atrás`;
+}
@@ -6,15 +6,291 @@
 // Configuração
 // ============================================================================
 
-export interface MCPConfig {
+/** Sem autenticação (documentação pública) */
+export interface NoAuthConfig {
+    type: "none";
+}
+
+/** Renovação via endpoint de token (grant_type=refresh_token) */
+export interface TokenEndpointRefreshConfig {
+    type: "token-endpoint";
+    /** Endpoint de token */
+    url: string;
+    /** Refresh token (substituído se o endpoint retornar um novo) */
+    refreshToken: string;
+    clientId?: string;
+    clientSecret?: string;
+    scope?: string;
+}
+
+/** Renovação via comando local que imprime o novo token no stdout */
+export interface CommandRefreshConfig {
+    type: "command";
+    /** Comando executado no shell */
+    command: string;
+    /** Timeout do comando em ms */
+    timeout?: number;
+}
+
+/** Como renovar um token bearer expirado */
+export type TokenRefreshConfig = TokenEndpointRefreshConfig | CommandRefreshConfig;
+
+/** Header `Authorization: Bearer <token>` */
+export interface BearerAuthConfig {
+    type: "bearer";
+    /** Token enviado no header */
+    token: string;
+    /** Renovação automática do token ao receber 401 */
+    refresh?: TokenRefreshConfig;
+}
+
+/** Header `Authorization: Basic <base64(usuário:senha)>` */
+export interface BasicAuthConfig {
+    type: "basic";
+    username: string;
+    password: string;
+}
+
+/** Chave enviada em um header customizado (ex: X-API-Key) */
+export interface HeaderAuthConfig {
+    type: "header";
+    /** Nome do header */
+    name: string;
+    /** Valor do header */
+    value: string;
+}
+
+/** Chave enviada como parâmetro da query string (ex: ?api_key=...) */
+export interface QueryAuthConfig {
+    type: "query";
+    /** Nome do parâmetro */
+    name: string;
+    /** Valor do parâmetro */
+    value: string;
+}
+
+/** OAuth2 client credentials (token obtido e renovado automaticamente) */
+export interface OAuth2ClientCredentialsAuthConfig {
+    type: "oauth2-client-credentials";
+    /** Endpoint de token */
+    tokenUrl: string;
+    clientId: string;
+    clientSecret: string;
+    /** Escopos separados por espaço */
+    scope?: string;
+    /** Audience (exigido por alguns provedores) */
+    audience?: string;
+    /** Como enviar as credenciais do cliente (padrão: basic) */
+    clientAuth?: "basic" | "body";
+}
+
+/** Estratégia de autenticação de uma fonte */
+export type AuthConfig =
+    | NoAuthConfig
+    | BearerAuthConfig
+    | BasicAuthConfig
+    | HeaderAuthConfig
+    | QueryAuthConfig
+    | OAuth2ClientCredentialsAuthConfig;
+
+/** Idiomas com stemmer e stopwords */
+export type DocLanguage = "pt" | "en";
+
+/** Idioma de uma fonte: fixo, detectado pelo conteúdo (auto) ou sem análise de idioma (none) */
+export type LanguageSetting = DocLanguage | "auto" | "none";
+
+export interface DocSource {
+    /** Nome da fonte (usado no argumento `source` do search_docs) */
+    name: string;
     /** URL base da documentação */
-    docsUrl: string;
-    /** Token JWT para autenticação */
-    jwtToken: string;
+    url: string;
+    /** Estratégia de autenticação */
+    auth: AuthConfig;
+    /** Timeout das requisições em ms */
+    requestTimeout: number;
+    /** Headers adicionais enviados em todas as requisições da fonte */
+    headers: Record<string, string>;
+    /** Idioma da documentação (stemming e stopwords) */
+    language: LanguageSetting;
+    /** Perfil de chunking da fonte, sobre o global (valores ausentes usam o padrão da biblioteca) */
+    chunking: Partial<ChunkSizes>;
+    /** Seletor CSS do conteúdo principal das páginas HTML (ausente: detecção automática) */
+    contentSelector?: string;
+}
+
+/** Estratégias de divisão em chunks */
+export type ChunkStrategy = "headers" | "rules" | "paragraphs" | "sentences";
+
+/** Unidade dos tamanhos de chunk ("tokens" é uma estimativa, por CHARS_PER_TOKEN caracteres) */
+export type ChunkSizeUnit = "chars" | "tokens";
+
+/** Perfil de chunking: tamanhos, sobreposição, estratégias e expansão de contexto */
+export interface ChunkSizes {
+    /** Tamanho máximo de um chunk (na unidade de `unit`) */
+    maxChunkSize: number;
+    /** Tamanho mínimo de um chunk (na unidade de `unit`) */
+    minChunkSize: number;
+    /** Fim de um chunk repetido no início do seguinte (na unidade de `unit`; 0 = sem sobreposição) */
+    overlap: number;
+    /** Unidade de maxChunkSize, minChunkSize e overlap */
+    unit: ChunkSizeUnit;
+    /** Estratégias de divisão, na ordem em que são tentadas */
+    strategies: ChunkStrategy[];
+    /** Tamanho máximo do contexto expandido (chunk + adjacentes), em caracteres */
+    maxContextSize: number;
+}
+
+/** Pesos do cálculo de relevância */
+export interface ScoreWeights {
+    /** Peso para match exato da frase completa */
+    exactMatch: number;
+    /** Peso por ocorrência de palavra individual */
+    wordMatch: number;
+    /** Peso para match parcial (início da palavra) */
+    partialMatch: number;
+    /** Peso por ocorrência de um termo corrigido (palavra da busca com erro de digitação) */
+    fuzzyMatch: number;
+    /** Multiplicador bonus para chunks com código */
+    codeBonus: number;
+    /** Multiplicador bonus para chunks com headers */
+    headerBonus: number;
+}
+
+/** Algoritmo de ranking dos trechos */
+export type RankingAlgorithm = "heuristic" | "bm25";
+
+/** Parâmetros do ranking BM25F */
+export interface Bm25Params {
+    /** Saturação da frequência do termo */
+    k1: number;
+    /** Normalização pelo tamanho do chunk (0 = nenhuma, 1 = total) */
+    b: number;
+    /** Peso dos termos que aparecem em headers (o corpo tem peso 1) */
+    headingWeight: number;
+    /** Multiplicador para chunks que contêm a frase exata da busca */
+    phraseBonus: number;
+    /** Peso de um termo corrigido em relação ao termo digitado (0-1) */
+    fuzzyWeight: number;
+}
+
+/**
+ * Modo de busca
+ * keyword: termos da busca (heuristic ou bm25); semantic: similaridade entre embeddings;
+ * hybrid: combina os dois rankings por reciprocal rank fusion
+ */
+export type SearchMode = "keyword" | "semantic" | "hybrid";
+
+/** Configuração do ranking */
+export interface ScoringSettings extends Partial<ScoreWeights> {
+    /** Modo de busca (padrão: keyword) */
+    mode?: SearchMode;
+    /** Algoritmo de ranking por termos (padrão: heuristic) */
+    algorithm?: RankingAlgorithm;
+    /** Peso da relevância em relação à diversidade dos resultados (0-1, padrão: 0.5; 1 desativa) */
+    diversity?: number;
+    /** Parâmetros do BM25F (valores ausentes usam o padrão da biblioteca) */
+    bm25?: Partial<Bm25Params>;
+}
+
+/** Estratégias do fetch inteligente */
+export interface FetchSettings {
+    /** Usa fetch inteligente com detecção de Swagger/SPA */
+    useSmartFetch?: boolean;
+    /** Tenta buscar a spec OpenAPI de páginas Swagger */
+    tryOpenApiSpec?: boolean;
+    /** Usa renderização headless como fallback */
+    useHeadlessFallback?: boolean;
+    /** Faz probe de endpoints comuns de spec */
+    probeCommonEndpoints?: boolean;
+}
+
+/** Parâmetros da renderização headless */
+export interface HeadlessSettings {
+    /** Timeout da renderização em ms */
+    timeout?: number;
+    /** Espera adicional após o load da página em ms */
+    extraWaitTime?: number;
+}
+
+/** Vetores locais por hashing de termos e trigramas, ponderados por TF-IDF (sem rede) */
+export interface HashingEmbeddingsSettings {
+    provider: "hashing";
+    /** Dimensão dos vetores */
+    dimensions?: number;
+}
+
+/** Endpoint `/embeddings` compatível com a API da OpenAI (ex: Ollama, LM Studio, llama.cpp) */
+export interface OpenAICompatibleEmbeddingsSettings {
+    provider: "openai-compatible";
+    /** URL base da API (o caminho /embeddings é adicionado) */
+    url: string;
+    /** Modelo de embeddings */
+    model: string;
+    /** Chave enviada como Bearer (opcional em servidores locais) */
+    apiKey?: string;
+    /** Textos por requisição */
+    batchSize?: number;
+    /** Timeout das requisições em ms */
+    timeout?: number;
+}
+
+/** Provedor de embeddings da busca semântica */
+export type EmbeddingsSettings = HashingEmbeddingsSettings | OpenAICompatibleEmbeddingsSettings;
+
+export interface CacheSettings {
+    /** Se o cache de documentos está ativo */
+    enabled: boolean;
+    /** Tempo em ms em que um documento é servido sem revalidar a origem */
+    ttl: number;
+    /** Se os documentos processados são salvos em disco (snapshots) */
+    persist: boolean;
+    /** Diretório dos snapshots */
+    directory: string;
+}
+
+export interface MCPConfig {
+    /** Fontes de documentação configuradas */
+    sources: DocSource[];
     /** Número padrão de resultados */
     defaultMaxResults: number;
-    /** Timeout das requisições em ms */
+    /** Timeout padrão das requisições em ms */
     requestTimeout: number;
+    /** Perfil de chunking global (valores ausentes usam o padrão da biblioteca) */
+    chunking: Partial<ChunkSizes>;
+    /** Algoritmo e pesos de relevância (valores ausentes usam o padrão da biblioteca) */
+    scoring: ScoringSettings;
+    /** Provedor de embeddings (modos semantic e hybrid) */
+    embeddings: EmbeddingsSettings;
+    /** Estratégias do fetch inteligente */
+    fetch: FetchSettings;
+    /** Parâmetros da renderização headless */
+    headless: HeadlessSettings;
+    /** Cache de documentos */
+    cache: CacheSettings;
+    /** Caminho do arquivo de configuração carregado (se houver) */
+    configPath?: string;
+}
+
+// ============================================================================
+// Fetch de Documentos
+// ============================================================================
+
+/** Método usado para extrair o conteúdo da documentação */
+export type FetchMethod = "direct" | "openapi_spec" | "headless" | "html_extract";
+
+export interface FetchedDocument {
+    /** Conteúdo extraído (texto/markdown) */
+    content: string;
+    /** Método usado para extrair */
+    method: FetchMethod;
+    /** URL da documentação */
+    url: string;
+    /** URL da spec OpenAPI, quando o conteúdo veio dela */
+    specUrl?: string;
+    /** ETag do recurso de origem (url ou specUrl) */
+    etag?: string;
+    /** Last-Modified do recurso de origem (url ou specUrl) */
+    lastModified?: string;
 }
 
 // ============================================================================
@@ -30,26 +306,194 @@ export interface DocChunk {
     score: number;
 }
 
+/**
+ * Quanto texto cada resultado traz
+ * - snippet: as janelas do chunk com mais termos da busca, com os termos destacados
+ * - section: o chunk inteiro
+ * - expanded: o chunk com os chunks vizinhos (até maxContextSize)
+ */
+export type ResultDetail = "snippet" | "section" | "expanded";
+
+/** Intervalo de caracteres [start, end) em um texto */
+export interface TextRange {
+    /** Posição inicial */
+    start: number;
+    /** Posição final (exclusiva) */
+    end: number;
+}
+
+/** Pontos de um termo da busca em um chunk, por tipo de match */
+export interface TermContribution {
+    /** Termo da busca (heuristic: a busca inteira, cada palavra e cada frase; bm25: cada palavra analisada) */
+    term: string;
+    /** Termo inteiro presente no chunk (exactMatch × palavras do termo) */
+    phrase: number;
+    /** Ocorrências exatas das palavras (wordMatch, ou exactMatch para caminhos e identificadores; bm25: BM25F) */
+    exact: number;
+    /** Palavras do chunk que começam com as palavras do termo (partialMatch) */
+    partial: number;
+    /** Termos corrigidos no lugar das palavras sem match (fuzzyMatch; bm25: BM25F × fuzzyWeight) */
+    fuzzy: number;
+}
+
+/** Composição da pontuação de um chunk na busca por termos */
+export interface ScoreExplanation {
+    /** Pontos de cada termo, somados antes dos multiplicadores */
+    terms: TermContribution[];
+    /** Multiplicadores aplicados à soma (1 quando não se aplicam; phrase só no bm25) */
+    multipliers: { phrase: number; code: number; header: number };
+    /** Pontuação final */
+    score: number;
+}
+
+/**
+ * Motivo de um chunk com match ter ficado fora dos resultados
+ * - neighbor: vizinho de um resultado expandido (já incluído no contexto dele)
+ * - diversity: pontuação suficiente, mas parecido demais com um resultado
+ * - cutoff: pontuação abaixo da dos resultados
+ */
+export type NearMissReason = "neighbor" | "diversity" | "cutoff";
+
+/** Chunk com match que ficou perto de entrar nos resultados */
+export interface NearMiss {
+    /** Índice do chunk no documento */
+    index: number;
+    /** Pontuação de relevância */
+    score: number;
+    /** Posição no ranking por pontuação (1 = mais relevante) */
+    rank: number;
+    /** Headers em vigor no chunk */
+    breadcrumb: string[];
+    /** Por que ficou de fora */
+    reason: NearMissReason;
+    /** Composição da pontuação (apenas no modo keyword) */
+    explanation?: ScoreExplanation;
+}
+
+/** Trecho retornado por uma busca, com a localização no documento */
+export interface SearchHit extends DocChunk {
+    /** Headers em vigor no chunk, do mais geral ao mais específico */
+    breadcrumb: string[];
+    /** Palavras e frases da busca presentes no chunk (como foram buscadas, normalizadas) */
+    matchedTerms: string[];
+    /** Posição de cada janela no chunk (apenas com detail "snippet") */
+    snippets?: TextRange[];
+    /** Caracteres cortados do fim do conteúdo para caber no limite de texto */
+    truncatedChars?: number;
+    /** Composição da pontuação (apenas com explain, no modo keyword) */
+    explanation?: ScoreExplanation;
+}
+
+/** Uso do limite de texto dos resultados */
+export interface BudgetReport {
+    /** Limite em caracteres */
+    maxChars: number;
+    /** Caracteres retornados */
+    usedChars: number;
+    /** Caracteres cortados do último resultado */
+    truncatedChars: number;
+    /** Resultados selecionados que ficaram de fora */
+    omittedResults: number;
+}
+
+/** Palavra da busca sem match no documento, substituída pelos termos mais próximos */
+export interface TermCorrection {
+    /** Palavra como foi buscada (normalizada) */
+    term: string;
+    /** Termos do documento usados no lugar */
+    replacements: string[];
+}
+
+/** Modo de busca trocado por outro durante a busca (ex: hybrid sem o provedor de embeddings) */
+export interface ModeFallback {
+    /** Modo pedido */
+    requested: SearchMode;
+    /** Modo usado no lugar */
+    used: SearchMode;
+    /** Motivo da troca */
+    reason: string;
+}
+
 export interface SearchResult {
     /** Trechos relevantes encontrados */
     results: string[];
+    /** Trechos com índice, pontuação e localização (mesma ordem de `results`) */
+    hits: SearchHit[];
     /** Total de chunks no documento */
     totalChunks: number;
     /** Número de chunks com match */
     matchedChunks: number;
+    /** Chunks com match ainda não retornados (nem cobertos pelo contexto de um resultado), para a próxima página */
+    remainingChunks: number;
+    /** Palavras corrigidas na busca por termos */
+    corrections: TermCorrection[];
+    /** Uso do limite de texto (apenas com maxChars) */
+    budget?: BudgetReport;
+    /** Chunks que ficaram logo abaixo dos resultados (apenas com explain) */
+    nearMisses?: NearMiss[];
+    /** Troca do modo de busca pedido (ex: falha do provedor de embeddings no modo hybrid) */
+    modeFallback?: ModeFallback;
+}
+
+/** Metadados de um trecho retornado pela tool search_docs */
+export interface SearchOutputHit {
+    /** Fonte do trecho */
+    source: string;
+    /** Índice do chunk no documento */
+    chunk_index: number;
+    /** Pontuação de relevância (comparável apenas dentro do mesmo modo de busca) */
+    score: number;
+    /** Headers em vigor no trecho */
+    breadcrumb: string[];
+    /** URL da fonte, com âncora do header quando houver */
+    url: string;
+    /** Formato detectado do documento */
+    format: DocumentFormat;
+    /** Palavras e frases da busca presentes no trecho */
+    matched_terms: string[];
+    /** Posição de cada janela do snippet na seção (apenas com detail "snippet") */
+    snippets?: TextRange[];
+    /** Caracteres cortados do fim do trecho para caber no limite de texto */
+    truncated_chars?: number;
+    /** Composição da pontuação (apenas com explain, no modo keyword) */
+    explanation?: ScoreExplanation;
 }
 
 export interface SearchOutput {
     /** Trechos relevantes encontrados */
     results: string[];
+    /** Metadados de cada trecho (mesma ordem de `results`; vazio sem resultados) */
+    hits: SearchOutputHit[];
     /** Total de seções na documentação */
     total_chunks: number;
     /** Número de seções com matches */
     matched_chunks: number;
     /** Termo buscado */
     query: string;
-    /** URL da documentação consultada */
+    /** URL da documentação consultada (separadas por vírgula quando há várias fontes) */
     docs_url: string;
+    /** Nomes das fontes consultadas */
+    sources: string[];
+    /** Palavras da busca corrigidas (erros de digitação) */
+    corrected_terms?: TermCorrection[];
+    /** Uso do limite de texto (max_tokens / max_chars) */
+    budget?: { max_chars: number; used_chars: number; truncated_chars: number; omitted_results: number };
+    /** Cursor da próxima página (ausente quando não há mais resultados) */
+    next_cursor?: string;
+    /** Seções que ficaram logo abaixo dos resultados (apenas com explain) */
+    near_misses?: {
+        source: string;
+        chunk_index: number;
+        score: number;
+        rank: number;
+        breadcrumb: string[];
+        reason: NearMissReason;
+        explanation?: ScoreExplanation;
+    }[];
+    /** Fontes indisponíveis respondidas com uma cópia antiga (cache ou snapshot) */
+    stale_sources?: { source: string; fetched_at: string; snapshot: boolean }[];
+    /** Fontes pesquisadas em outro modo de busca, com o motivo */
+    mode_fallback?: { source: string; requested: SearchMode; used: SearchMode; reason: string }[];
     /** Mensagem de erro (se houver) */
     error?: string;
     /** Index signature para compatibilidade com MCP SDK */
@@ -120,11 +564,15 @@ export interface FormatDetectionResult {
 }
 
 /** Opções para escolha do fallback de chunking */
-export interface ChunkingOptions {
+export interface ChunkingOptions extends Partial<Omit<ChunkSizes, "maxContextSize">> {
     /** Força um formato específico (ignora detecção automática) */
     forceFormat?: DocumentFormat;
     /** Habilita fallback HTML quando detectado */
     enableHtmlFallback?: boolean;
     /** Habilita fallback JSON quando detectado */
     enableJsonFallback?: boolean;
+    /** URL do documento (links relativos do HTML viram absolutos) */
+    baseUrl?: string;
+    /** Seletor CSS do conteúdo principal do HTML (ausente: detecção automática) */
+    contentSelector?: string;
 }